@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// PURPOSE: npm "bin" entry of the email-visual-tester command; runs the TypeScript CLI
+// (src/cli/email-visual-tester.ts) through ts-node, as the other commands of this project do.
+
+const { resolve } = require('path');
+
+require('ts-node').register({ project: resolve(__dirname, '..', 'tsconfig.json'), transpileOnly: true });
+
+require('../src/cli/email-visual-tester').main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
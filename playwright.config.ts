@@ -1,22 +1,28 @@
 import { defineConfig } from '@playwright/test';
 import { resolve } from 'path';
 import * as dotenv from 'dotenv';
+import { REPORTS_DIR, getTaskGrep, resolveEmailTasks } from './src/utils/email-tasks';
+import { BASELINES_DIR } from './src/utils/baseline-history';
 
-// 1) Loads variables from .env (like TASK_NAME) so the test run adapts per task.
+// 1) Loads variables from .env (like TASK_NAME) so the test run adapts per task. They override
+//    email-tester.config.json (see src/utils/run-config.ts).
 //    QA: If a test isn't picking up your task, ensure .env has TASK_NAME or export it in the shell.
 dotenv.config();
 
-// 2) Turns a task name into a safe folder/file segment: lowercase, hyphens, limited length.
-function sanitizeFilename(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9\s-.]/g, '').replace(/\s+/g, '-').substring(0, 100);
-}
-
-// 3) PROJECT NAME: Used for screenshot folder paths.
+// 2) PROJECTS: One per email. The project name is used for screenshot folder paths.
 //    QA: Set TASK_NAME before running and your screenshots will go into visual-baselines/<task-name>/
-const taskName = process.env.TASK_NAME;
-const projectName = taskName ? sanitizeFilename(taskName) : 'staging';
+//    With EMAIL_BATCH set, every selected email gets its own project and baseline folder.
+const tasks = resolveEmailTasks();
+const projects = tasks.length > 0
+  ? tasks.map(task => ({
+      name: task.sanitizedTaskName,
+      testMatch: 'tests/blueprint.spec.ts',
+      // Only run the tests tagged with this email (the spec declares tests for every email).
+      grep: getTaskGrep(task.sanitizedTaskName),
+    }))
+  : [{ name: 'staging', testMatch: 'tests/blueprint.spec.ts' }];
 
-// 4) This configuration tells Playwright:
+// 3) This configuration tells Playwright:
 //    - what setup code to run first,
 //    - where tests live,
 //    - how screenshots and reports are stored,
@@ -40,8 +46,18 @@ export default defineConfig({
   // In CI, run single-threaded for stability. Locally, auto-select workers.
   workers: process.env.CI ? 1 : undefined,
 
-  // Produce an HTML report after test run (openable in a browser).
-  reporter: 'html',
+  // Produce an HTML report after test run (openable in a browser), plus a JSON copy of the
+  // results that the baseline approval CLI reads (test-results/last-run.json), plus the
+  // self-contained visual report (current / baseline / diff per client) for tickets, plus
+  // JUnit XML and a JSON summary with provider metadata for CI (reports/results.xml, results.json),
+  // plus each client's outcome in the run's archive (run history, see src/cli/run-history.ts).
+  reporter: [
+    ['html'],
+    ['json', { outputFile: 'test-results/last-run.json' }],
+    ['./src/reporters/visual-report-reporter.ts', { outputFile: resolve(REPORTS_DIR, 'visual-report.html') }],
+    ['./src/reporters/results-reporter.ts', { junitFile: resolve(REPORTS_DIR, 'results.xml'), jsonFile: resolve(REPORTS_DIR, 'results.json') }],
+    ['./src/reporters/run-history-reporter.ts'],
+  ],
 
   // Shared settings for every test (e.g., capture traces on first retry).
   use: {
@@ -49,26 +65,23 @@ export default defineConfig({
     // NOTE: We purposely do NOT set screenshot thresholds here. They are managed per assertion.
   },
 
-  // Define a single "project" (bucket of tests) named after the task.
+  // One "project" (bucket of tests) per email, named after its task.
   // QA: Only the blueprint spec is executed here.
-  projects: [
-    {
-      name: projectName,
-      testMatch: 'tests/blueprint.spec.ts'
-    },
-  ],
+  projects,
 
   // Raw artifacts (traces, videos if enabled, etc.).
   outputDir: 'test-results/',
 
   // How visual comparisons store baseline files.
-  // QA: Baseline images live under visual-baselines/<projectName>/.
+  // QA: Baseline images live under visual-baselines/<projectName>/ (run config "paths.baselines").
+  // The blueprint test compares the downloaded image files with `toMatchSnapshot`, which uses this template.
+  snapshotPathTemplate: resolve(BASELINES_DIR, '{projectName}', '{arg}{ext}'),
   expect: {
     toHaveScreenshot: {
-      pathTemplate: resolve(__dirname, 'visual-baselines', '{projectName}', '{arg}{ext}'),
+      pathTemplate: resolve(BASELINES_DIR, '{projectName}', '{arg}{ext}'),
     },
     toMatchAriaSnapshot: {
-      pathTemplate: resolve(__dirname, 'visual-baselines', '{projectName}', '{arg}{ext}'),
+      pathTemplate: resolve(BASELINES_DIR, '{projectName}', '{arg}{ext}'),
     },
   },
 });
\ No newline at end of file
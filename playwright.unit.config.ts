@@ -0,0 +1,17 @@
+import { defineConfig } from '@playwright/test';
+import { resolve } from 'path';
+
+// Unit checks of the pure logic (HTML normalization, diffs, polling, comparison modes) and of the
+// services against local mock servers. No global setup, no provider credentials, no browser.
+// Run them with: npm test
+// The run config points emails/, temp/, reports/ and visual-baselines/ at test-results/unit-tree/,
+// so specs that write files never touch the project's own folders.
+process.env.EMAIL_TESTER_CONFIG = resolve(__dirname, 'tests', 'fixtures', 'unit-run-config.json');
+
+export default defineConfig({
+  testDir: './tests/unit',
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  reporter: 'list',
+  outputDir: 'test-results/unit/',
+});
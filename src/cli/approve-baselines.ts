@@ -0,0 +1,199 @@
+// PURPOSE: Review the last run's failing screenshots and accept or reject them as new baselines,
+// with a versioned history per client and rollback to any earlier approved version.
+//
+// USAGE (email-visual-tester approve <command>, or npx ts-node src/cli/approve-baselines.ts <command>):
+//   list                                   Failing clients of the last run
+//   review                                 Walk through each failing client: [a]ccept / [r]eject / [s]kip
+//   accept <client...> | --all             Make the last run's screenshot the new baseline
+//   reject <client...> | --all [--note t]  Keep the current baseline, record the decision
+//   history <client>                       Approved versions and decisions for a client
+//   rollback <client> [--to <version>]     Restore an earlier approved version (default: previous)
+// Options: --project <name> selects the task (defaults to the only task in the last run / TASK_NAME).
+
+import * as dotenv from 'dotenv';
+import { createInterface } from 'readline/promises';
+import { parseArgs } from 'util';
+import { getScreenshotName } from '../utils/client-catalog';
+import { resolveEmailTasks } from '../utils/email-tasks';
+import { ClientRunResult, getFailedComparisons, loadLastRun } from '../utils/last-run';
+import {
+  approveBaseline,
+  getBaselineFile,
+  loadHistory,
+  rejectBaseline,
+  rollbackBaseline,
+} from '../utils/baseline-history';
+import { storeBaselineHtml } from '../utils/baseline-html';
+import { recordApproval } from '../utils/run-history';
+import { loadRunHtml } from '../utils/screenshot-artifacts';
+
+dotenv.config();
+
+export async function run(args: string[] = process.argv.slice(2)): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      all: { type: 'boolean', default: false },
+      project: { type: 'string' },
+      to: { type: 'string' },
+      note: { type: 'string' },
+    },
+  });
+  const [command, ...clients] = positionals;
+
+  switch (command) {
+    case 'list':
+      return listFailures(getFailures(values.project));
+    case 'review':
+      return review(getFailures(values.project));
+    case 'accept':
+      return selectFailures(getFailures(values.project), clients, values.all).forEach(acceptFailure);
+    case 'reject':
+      return selectFailures(getFailures(values.project), clients, values.all).forEach(failure =>
+        rejectFailure(failure, values.note)
+      );
+    case 'history':
+      return showHistory(requireProject(values.project), requireClient(clients));
+    case 'rollback':
+      return rollback(requireProject(values.project), requireClient(clients), values.to);
+    default:
+      throw new Error(
+        'Usage: approve <list|review|accept|reject|history|rollback> [client...] [--all] [--project name] [--to version]'
+      );
+  }
+}
+
+// INTERNAL: Failing comparisons of the last run, optionally limited to one project.
+function getFailures(project?: string): ClientRunResult[] {
+  const failures = getFailedComparisons(loadLastRun());
+  return project ? failures.filter(failure => failure.project === project) : failures;
+}
+
+function listFailures(failures: ClientRunResult[]): void {
+  if (failures.length === 0) {
+    console.log('✅ No failing screenshots in the last run.');
+    return;
+  }
+  console.log(`${failures.length} failing screenshot(s) in the last run:\n`);
+  for (const failure of failures) {
+    console.log(`  [${failure.project}] ${failure.clientId}`);
+    if (failure.diffFile) console.log(`     diff: ${failure.diffFile}`);
+  }
+}
+
+// INTERNAL: Interactive decision per failing client.
+async function review(failures: ClientRunResult[]): Promise<void> {
+  listFailures(failures);
+  if (failures.length === 0) return;
+
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    for (const failure of failures) {
+      const answer = (await prompt.question(`\n[${failure.project}] ${failure.clientId} - [a]ccept, [r]eject, [s]kip? `))
+        .trim()
+        .toLowerCase();
+      if (answer.startsWith('a')) acceptFailure(failure);
+      else if (answer.startsWith('r')) rejectFailure(failure);
+      else console.log('   ⏭️ Skipped');
+    }
+  } finally {
+    prompt.close();
+  }
+}
+
+// INTERNAL: Pick failures by client ID (or screenshot name); --all takes every failure.
+function selectFailures(failures: ClientRunResult[], clients: string[], all: boolean | undefined): ClientRunResult[] {
+  if (all) return failures;
+  if (clients.length === 0) throw new Error('Name at least one client, or pass --all.');
+
+  return clients.map(client => {
+    const match = failures.find(
+      failure => failure.clientId === client || getScreenshotName(failure.clientId) === getScreenshotName(client)
+    );
+    if (!match) throw new Error(`"${client}" is not among the last run's failing screenshots.`);
+    return match;
+  });
+}
+
+function acceptFailure(failure: ClientRunResult): void {
+  const screenshotName = getScreenshotName(failure.clientId);
+  // The run's HTML is kept with the baseline, so later failures can be diffed against it.
+  const runHtml = failure.annotations.runId ? loadRunHtml(failure.project, failure.annotations.runId) : undefined;
+  const version = approveBaseline(failure.project, screenshotName, failure.actualFile!, {
+    clientId: failure.clientId,
+    testId: failure.annotations.testId,
+    htmlHash: runHtml ? storeBaselineHtml(failure.project, runHtml) : failure.annotations.htmlHash,
+  });
+  recordDecisionInHistory(failure, 'accept');
+  console.log(`   ✅ ${failure.clientId} - accepted as v${version.version} (${getBaselineFile(failure.project, screenshotName)})`);
+}
+
+function rejectFailure(failure: ClientRunResult, note?: string): void {
+  rejectBaseline(failure.project, getScreenshotName(failure.clientId), {
+    clientId: failure.clientId,
+    testId: failure.annotations.testId,
+    htmlHash: failure.annotations.htmlHash,
+    note,
+  });
+  recordDecisionInHistory(failure, 'reject');
+  console.log(`   ❌ ${failure.clientId} - rejected (baseline unchanged)`);
+}
+
+// SECONDARY: Also note the decision in the run history (temp/archives), when the run is archived.
+function recordDecisionInHistory(failure: ClientRunResult, action: 'accept' | 'reject'): void {
+  const runId = failure.annotations.runId;
+  if (runId && !recordApproval(failure.project, runId, failure.clientId, action)) {
+    console.warn(`   ⚠️ Run ${runId} is not in the run history; the decision is only kept in the baseline history.`);
+  }
+}
+
+function showHistory(project: string, clientId: string): void {
+  const history = loadHistory(project, getScreenshotName(clientId), clientId);
+  if (history.versions.length === 0 && history.decisions.length === 0) {
+    console.log(`No baseline history for ${clientId} in "${project}".`);
+    return;
+  }
+
+  console.log(`Baseline history for ${clientId} in "${project}":\n`);
+  for (const version of history.versions) {
+    const current = version.version === history.currentVersion ? '  <- current' : '';
+    const test = version.testId ? `, test ${version.testId}` : '';
+    const html = version.htmlHash ? `, html ${version.htmlHash.slice(0, 12)}` : '';
+    console.log(`  v${version.version}  ${version.approvedAt}  by ${version.approvedBy}${test}${html}${current}`);
+  }
+  console.log('\nDecisions:');
+  for (const decision of history.decisions) {
+    const version = decision.version !== undefined ? ` v${decision.version}` : '';
+    console.log(`  ${decision.at}  ${decision.action}${version} by ${decision.by}${decision.note ? ` (${decision.note})` : ''}`);
+  }
+}
+
+function rollback(project: string, clientId: string, to?: string): void {
+  const toVersion = to !== undefined ? Number(to) : undefined;
+  if (toVersion !== undefined && Number.isNaN(toVersion)) {
+    throw new Error(`--to must be a version number, got "${to}".`);
+  }
+  const version = rollbackBaseline(project, getScreenshotName(clientId), clientId, toVersion);
+  console.log(`↩️ ${clientId} - baseline restored to v${version.version} (approved ${version.approvedAt} by ${version.approvedBy})`);
+}
+
+// INTERNAL: --project, else the single task from TASK_NAME.
+function requireProject(project?: string): string {
+  if (project) return project;
+  const tasks = resolveEmailTasks();
+  if (tasks.length === 1) return tasks[0].sanitizedTaskName;
+  throw new Error('Pass --project <name> (or set TASK_NAME) to choose the baseline folder.');
+}
+
+function requireClient(clients: string[]): string {
+  if (clients.length !== 1) throw new Error('Name exactly one client.');
+  return clients[0];
+}
+
+if (require.main === module) {
+  run().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  });
+}
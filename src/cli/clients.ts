@@ -0,0 +1,121 @@
+// PURPOSE: Client catalogs and profiles: which clients a run would request, and keeping the catalog
+// (default-clients-*.json) in step with what the provider currently offers.
+//
+// USAGE (email-visual-tester clients <command>, or npx ts-node src/cli/clients.ts <command>):
+//   list [--profile <name>] [--clients <a,b*>]   Clients a run would request (retired ones are listed apart)
+//   profiles                                     Built-in and configured profiles with their client counts
+//   sync [--write] [--add-new]                   Compare the catalog with the provider's client list: retired,
+//                                                restored, new and changed clients. --write updates the catalog
+//                                                (marks retired clients, refreshes details); --add-new also adds
+//                                                new clients (outside the default set)
+// Options: --provider <name> (defaults to the run config's provider), --config <file>.
+
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import {
+  ClientCatalogEntry,
+  applyCatalogSync,
+  diffClientCatalog,
+  formatClientDisplayName,
+  loadClientCatalog,
+  saveClientCatalog,
+} from '../utils/client-catalog';
+import { applyClientProfile, getClientProfiles, selectRunClients } from '../utils/client-profiles';
+import { RunConfig, loadRunConfig } from '../utils/run-config';
+import { getEmailPreviewService, getServiceCredentials } from '../utils/service-factory';
+
+dotenv.config();
+
+export async function run(args: string[] = process.argv.slice(2)): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string' },
+      config: { type: 'string' },
+      profile: { type: 'string' },
+      clients: { type: 'string' },
+      write: { type: 'boolean', default: false },
+      'add-new': { type: 'boolean', default: false },
+    },
+  });
+  const config = loadRunConfig({
+    flags: {
+      config: values.config,
+      provider: values.provider,
+      profile: values.profile,
+      clients: values.clients?.split(',').map(pattern => pattern.trim()).filter(Boolean),
+    },
+  });
+  if (!config.provider) {
+    throw new Error('Missing provider: pass --provider or set EMAIL_PREVIEW_SERVICE / "provider" in the run config.');
+  }
+
+  switch (positionals[0]) {
+    case 'list':
+      return listClients(config);
+    case 'profiles':
+      return listProfiles(config);
+    case 'sync':
+      return syncCatalog(config, values.write!, values['add-new']!);
+    default:
+      throw new Error('Usage: clients <list|profiles|sync> [--provider name] [--profile name] [--clients a,b] [--write] [--add-new]');
+  }
+}
+
+function listClients(config: RunConfig): void {
+  const catalog = loadClientCatalog(config.provider!);
+  const selected = selectRunClients(catalog, config, getClientProfiles(config.profiles));
+  console.log(`📊 ${selected.length} of ${catalog.length} ${config.provider} client(s) (profile "${config.profile || 'full'}"):`);
+  selected.forEach(entry => console.log(`  ${formatEntry(entry)}`));
+
+  const retired = catalog.filter(entry => entry.retired);
+  if (retired.length > 0) {
+    console.log(`Retired (never requested): ${retired.map(entry => entry.id).join(', ')}`);
+  }
+}
+
+function listProfiles(config: RunConfig): void {
+  const catalog = loadClientCatalog(config.provider!).filter(entry => !entry.retired);
+  for (const [name, profile] of Object.entries(getClientProfiles(config.profiles))) {
+    const count = applyClientProfile(catalog, profile).length;
+    const origin = name in config.profiles ? ' (run config)' : '';
+    console.log(`${name.padEnd(14)} ${String(count).padStart(3)} ${config.provider} client(s)  ${profile.description || ''}${origin}`);
+  }
+}
+
+async function syncCatalog(config: RunConfig, write: boolean, addNew: boolean): Promise<void> {
+  const { serviceToUse, apiKey, accountPassword } = getServiceCredentials(config);
+  const supported = await getEmailPreviewService(serviceToUse, apiKey, accountPassword).getSupportedClients();
+  const catalog = loadClientCatalog(serviceToUse);
+  const report = diffClientCatalog(catalog, supported);
+  console.log(`📊 ${serviceToUse}: ${supported.length} client(s) offered, ${catalog.length} in the catalog.`);
+
+  report.retired.forEach(entry => console.log(`❌ Retired: ${formatEntry(entry)}`));
+  report.restored.forEach(entry => console.log(`✅ Offered again: ${formatEntry(entry)}`));
+  report.added.forEach(client => console.log(`➕ New: ${client.id}  ${[client.client, client.os, client.browser].filter(Boolean).join(' · ')}`));
+  report.changed.forEach(change => console.log(`⚠️ Changed: ${change.id} ${change.field} "${change.from || ''}" -> "${change.to}"`));
+
+  const differences = report.retired.length + report.restored.length + report.changed.length + (addNew ? report.added.length : 0);
+  if (differences === 0) {
+    console.log(`✅ The ${serviceToUse} catalog is up to date${report.added.length > 0 ? ' (use --add-new to add the new clients)' : ''}.`);
+    return;
+  }
+  if (!write) {
+    console.log('Run again with --write to update the catalog.');
+    return;
+  }
+  saveClientCatalog(serviceToUse, applyCatalogSync(catalog, report, addNew));
+  console.log(`✅ Updated the ${serviceToUse} catalog.`);
+}
+
+function formatEntry(entry: ClientCatalogEntry): string {
+  return `${entry.id.padEnd(34)} ${entry.category.padEnd(12)} ${formatClientDisplayName(entry)}${entry.default ? '  (default)' : ''}`;
+}
+
+if (require.main === module) {
+  run().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,135 @@
+// PURPOSE: Compare two runs, provider tests or HTML versions with each other, without baselines
+// ("build 2 vs. build 1", "staging vs. production", "the Outlook fix changed nothing else").
+//
+// USAGE (email-visual-tester compare <before> <after> [options], or npx ts-node src/cli/compare.ts ...):
+//   <before>/<after>:  run:<project>[/<runId>]   archived run (runId, prefix, latest, previous; default latest)
+//                      <file>.json               archive or generated-preview file
+//                      test:<testId>             existing provider test (EMAIL_PREVIEW_SERVICE)
+//                      <file>.html | <file>.eml  submitted as a new provider test (uses credits)
+//   --clients <a,b*>        Only these clients ("*" wildcards, as in email configs)
+//   --config <email file>   Mask the ignore regions of that email's config on both sides
+//   --threshold <0-1>       Per-pixel color tolerance (default 0.2)
+//   --max-diff-ratio <r>    Share of differing pixels still counted as unchanged (default 0)
+//   --output <dir>          Default reports/compare/<timestamp>
+//   --fail-on-change        Exit code 1 when any client changed (for CI)
+// visual-baselines/ is never read or written.
+
+import * as dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { relative, resolve } from 'path';
+import { parseArgs } from 'util';
+import { ROOT_DIR } from '../utils/email-tasks';
+import { loadEmailConfig } from '../utils/email-config';
+import { formatDiffPercent } from '../utils/image-compare';
+import { ClientRunResult } from '../utils/last-run';
+import { COMPARE_DIR, ClientComparison, CompareSide, compareSides, loadCompareSide } from '../utils/run-compare';
+import { writeVisualReport } from '../utils/visual-report';
+
+dotenv.config();
+
+export async function run(args: string[] = process.argv.slice(2)): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      clients: { type: 'string' },
+      config: { type: 'string' },
+      threshold: { type: 'string' },
+      'max-diff-ratio': { type: 'string' },
+      output: { type: 'string' },
+      'fail-on-change': { type: 'boolean', default: false },
+    },
+  });
+  if (positionals.length !== 2) {
+    throw new Error('Usage: compare <before> <after> [--clients a,b] [--config email.html] [--threshold t] [--max-diff-ratio r] [--output dir]');
+  }
+
+  const outputDir = values.output
+    ? resolve(values.output)
+    : resolve(COMPARE_DIR, new Date().toISOString().replace(/[:.]/g, '-'));
+  const patterns = values.clients?.split(',').map(pattern => pattern.trim()).filter(Boolean);
+
+  // STEP 1: Both sides as local screenshot files (the "before" side first, so a typo fails early).
+  const sides: CompareSide[] = [];
+  for (const [index, spec] of positionals.entries()) {
+    const side = await loadCompareSide(spec, {
+      workDir: resolve(outputDir, 'downloads', index === 0 ? 'before' : 'after'),
+      ...(patterns ? { clientPatterns: patterns } : {}),
+    });
+    console.log(`${index === 0 ? 'Before' : 'After '}: ${side.description} (${side.screenshots.length} client(s))`);
+    sides.push(side);
+  }
+  const [before, after] = sides;
+
+  // STEP 2: Per-client comparison with the tests' engine.
+  const configFile = values.config ? resolve(values.config) : undefined;
+  const results = await compareSides(before, after, {
+    outputDir,
+    threshold: values.threshold !== undefined ? ratio('--threshold', values.threshold) : undefined,
+    maxDiffRatio: values['max-diff-ratio'] !== undefined ? ratio('--max-diff-ratio', values['max-diff-ratio']) : undefined,
+    ...(configFile
+      ? { emailConfig: loadEmailConfig(configFile), htmlContent: existsSync(configFile) ? readFileSync(configFile, 'utf-8') : null }
+      : {}),
+  });
+
+  // STEP 3: Console summary and the visual report (before / after / diff per client).
+  printResults(before, after, results);
+  const reportFile = writeVisualReport(results.map(toRunResult), {
+    outputFile: resolve(outputDir, 'report.html'),
+    title: `Compare: ${before.spec} → ${after.spec}`,
+    imageLabels: { current: 'After', baseline: 'Before' },
+    statusLabels: { passed: 'Unchanged', failed: 'Changed', skipped: 'Not compared' },
+    missingBaselineNote: 'No "before" screenshot for this client.',
+  });
+  console.log(`\n📊 Report: ${relative(ROOT_DIR, reportFile)}`);
+
+  if (values['fail-on-change'] && results.some(result => result.changed)) process.exitCode = 1;
+}
+
+function printResults(before: CompareSide, after: CompareSide, results: ClientComparison[]): void {
+  if (before.htmlHash && after.htmlHash) {
+    console.log(before.htmlHash === after.htmlHash ? 'HTML: identical' : `HTML: ${before.htmlHash.slice(0, 12)} -> ${after.htmlHash.slice(0, 12)}`);
+  }
+  console.log('');
+  for (const result of results) {
+    const icon = result.changed === undefined ? '⚠️' : result.changed ? '❌' : '✅';
+    const diff = result.diffRatio !== undefined ? formatDiffPercent(result.diffRatio) : 'n/a';
+    console.log(`  ${icon} ${result.clientId.padEnd(36)} ${diff.padStart(8)}${result.note ? `  ${result.note}` : ''}`);
+  }
+
+  const changed = results.filter(result => result.changed).length;
+  const unchanged = results.filter(result => result.changed === false).length;
+  console.log(`\n${changed} changed, ${unchanged} unchanged, ${results.length - changed - unchanged} not compared.`);
+}
+
+// INTERNAL: The visual report's input shape ("after" is the current image, "before" the baseline).
+function toRunResult(result: ClientComparison): ClientRunResult {
+  const status = result.changed === undefined ? 'skipped' : result.changed ? 'failed' : 'passed';
+  return {
+    project: 'compare',
+    clientId: result.clientId,
+    title: result.clientId,
+    status,
+    durationMs: 0,
+    annotations: {
+      providerStatus: `${result.beforeStatus} → ${result.afterStatus}`,
+      ...(result.diffRatio !== undefined ? { diffRatio: String(result.diffRatio) } : {}),
+      ...(result.note ? { providerReason: result.note } : {}),
+    },
+    ...(result.afterFile ? { currentFile: result.afterFile } : {}),
+    ...(result.beforeFile ? { expectedFile: result.beforeFile } : {}),
+  };
+}
+
+function ratio(option: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > 1) throw new Error(`${option} must be between 0 and 1, got "${value}".`);
+  return number;
+}
+
+if (require.main === module) {
+  run().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,73 @@
+// PURPOSE: Shows the run configuration as the tests will see it: email-tester.config.json merged
+// with env vars (.env included) and flags, plus where each overridden value came from.
+//
+// USAGE (email-visual-tester config <command>, or npx ts-node src/cli/config.ts <command>):
+//   show        Print the merged config (credentials as references, with "set" / "not set")
+//               and the settings of the selected task
+//   validate    Only check the config file, the env vars and the client profile names; exit code 1 on problems
+// Options (override the file and env vars, as in a run):
+//   --config <file>  --provider <name>  --task <name>  --batch <selection>  --profile <name>  --clients <a,b*>
+//   --test-id <id>
+
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { getClientProfile, getClientProfiles } from '../utils/client-profiles';
+import { sanitizeFilename } from '../utils/filename';
+import { RunConfigFlags, formatRunConfig, loadRunConfig } from '../utils/run-config';
+
+dotenv.config();
+
+export function run(args: string[] = process.argv.slice(2)): void {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      provider: { type: 'string' },
+      task: { type: 'string' },
+      batch: { type: 'string' },
+      profile: { type: 'string' },
+      clients: { type: 'string' },
+      'test-id': { type: 'string' },
+    },
+  });
+  const flags: RunConfigFlags = {
+    config: values.config,
+    provider: values.provider,
+    task: values.task,
+    batch: values.batch,
+    profile: values.profile,
+    clients: values.clients?.split(',').map(pattern => pattern.trim()).filter(Boolean),
+    existingTestId: values['test-id'],
+  };
+
+  switch (positionals[0]) {
+    case 'show': {
+      const config = loadRunConfig({ flags });
+      const task = config.task ? { taskName: config.task, sanitizedTaskName: sanitizeFilename(config.task) } : undefined;
+      formatRunConfig(config, task).forEach(line => console.log(line));
+      return;
+    }
+    case 'validate': {
+      const config = loadRunConfig({ flags });
+      // Profile names are only resolved when clients are selected; check them (per task too) up front.
+      const profiles = getClientProfiles(config.profiles);
+      [config.profile, ...Object.values(config.tasks).map(entry => entry.profile)]
+        .filter((name): name is string => !!name)
+        .forEach(name => getClientProfile(name, profiles));
+      console.log(`✅ Run config is valid (${config.file || 'no config file, defaults and env vars only'}).`);
+      return;
+    }
+    default:
+      throw new Error('Usage: config <show|validate> [--config file] [--provider name] [--task name] [--batch sel] [--profile name] [--clients a,b] [--test-id id]');
+  }
+}
+
+if (require.main === module) {
+  try {
+    run();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,164 @@
+// PURPOSE: One command line for every step of a visual email test, so CI can run the steps as
+// separate jobs (submit in one, compare in another) and nobody has to edit .env between runs.
+//
+// USAGE (email-visual-tester <command> ..., or npx ts-node src/cli/email-visual-tester.ts <command> ...):
+//   submit [task...] [--output <file>]   Create the provider test(s) only and print their IDs
+//                                         (--output also writes them as JSON, for a later job)
+//   poll <testId> [task]                  Collect an existing test's screenshots into a new run folder
+//                                         (compare them later with: test --replay latest)
+//   test [task...] [--replay <runId>]     Full run: submit (or reuse), poll and compare with the baselines;
+//                                         --replay compares a run collected earlier, without the provider.
+//                                         Arguments after "--" go to Playwright (e.g. -- --grep Gmail)
+//   approve <command> ...                 Review and approve baselines (approve-baselines.ts)
+//   clients <command> ...                 Client catalog, profiles and provider sync (clients.ts)
+//   extract [--task name] [--query q]     Fetch the email from Gmail into emails/ (fetch-email.ts)
+//   lint [file...]                        Pre-flight HTML lint without a provider test (lint-email.ts)
+//   report [options]                      Rebuild the visual report from the last run (visual-report.ts)
+//   compare <before> <after> [options]    Compare two runs, provider tests or HTML versions (compare.ts)
+//   history <command> ...                 Past runs: list, compare, flaky clients, prune (run-history.ts)
+//   cache <list|prune|clear>              Provider submission cache (submission-cache.ts)
+//   config <show|validate> [options]      Print or check the merged run config (config.ts)
+// Run options of submit, poll and test (over the run config and env vars, as in config.ts):
+//   --config <file>  --provider <name>  --batch <selection>  --profile <name>  --clients <a,b*>  --test-id <id>
+// One task name selects that email (TASK_NAME); several, or a "*" pattern, form a batch.
+// The other commands take the options listed in their own files.
+
+import { spawnSync } from 'child_process';
+import * as dotenv from 'dotenv';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { RunConfig, RunConfigFlags, loadRunConfig, toEnvironment } from '../utils/run-config';
+
+dotenv.config();
+
+const RUN_OPTIONS = {
+  config: { type: 'string' },
+  provider: { type: 'string' },
+  batch: { type: 'string' },
+  profile: { type: 'string' },
+  clients: { type: 'string' },
+  'test-id': { type: 'string' },
+} as const;
+
+type RunOptionValues = { [name in keyof typeof RUN_OPTIONS]?: string };
+
+export async function main(args: string[] = process.argv.slice(2)): Promise<void> {
+  const [command, ...rest] = args;
+
+  // Modules that read the run config are loaded only after the options are in the environment.
+  switch (command) {
+    case 'submit':
+      return submit(rest);
+    case 'poll':
+      return poll(rest);
+    case 'test':
+      return runTests(rest);
+    case 'approve':
+      return (await import('./approve-baselines')).run(rest);
+    case 'clients':
+      return (await import('./clients')).run(rest);
+    case 'extract':
+      return (await import('./fetch-email')).run(rest);
+    case 'lint':
+      return (await import('./lint-email')).run(rest);
+    case 'report':
+      return (await import('./visual-report')).run(rest);
+    case 'compare':
+      return (await import('./compare')).run(rest);
+    case 'history':
+      return (await import('./run-history')).run(rest);
+    case 'cache':
+      return (await import('./submission-cache')).run(rest);
+    case 'config':
+      return (await import('./config')).run(rest);
+    default:
+      throw new Error('Usage: email-visual-tester <submit|poll|test|approve|clients|extract|lint|report|compare|history|cache|config> [task...] [options]');
+  }
+}
+
+async function submit(args: string[]): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { ...RUN_OPTIONS, output: { type: 'string' } },
+  });
+  applyRunOptions(values, positionals);
+
+  const { prepareRun } = await import('../global-setup');
+  const prepared = await prepareRun('submit');
+  const submitted = prepared.filter(entry => entry.job);
+  prepared.forEach(({ task, job, error }) =>
+    console.log(job ? `✅ ${task.taskName}: ${job.provider} test ${job.testId}` : `❌ ${task.taskName}: ${error}`)
+  );
+
+  if (values.output) {
+    const outputFile = resolve(values.output);
+    const entries = submitted.map(({ task, job }) => ({ task: task.taskName, provider: job!.provider, testId: job!.testId }));
+    writeFileSync(outputFile, JSON.stringify(entries, null, 2));
+    console.log(`Saved ${entries.length} test ID(s): ${outputFile}`);
+  }
+  if (submitted.length < prepared.length) process.exitCode = 1;
+}
+
+async function poll(args: string[]): Promise<void> {
+  const { positionals, values } = parseArgs({ args, allowPositionals: true, options: RUN_OPTIONS });
+  const [testId, taskName, ...extra] = positionals;
+  if (!testId || extra.length > 0) throw new Error('Usage: email-visual-tester poll <testId> [task] [options]');
+  const config = applyRunOptions({ ...values, 'test-id': testId }, taskName ? [taskName] : []);
+  if (config.batch || !config.task) {
+    throw new Error('A test belongs to one email: name its task (or set TASK_NAME).');
+  }
+
+  const { prepareRun } = await import('../global-setup');
+  const [{ job, error }] = await prepareRun('all');
+  if (!job) throw new Error(error);
+  console.log(`✅ Collected test ${job.testId} for "${config.task}". Compare it with: email-visual-tester test --replay latest`);
+}
+
+function runTests(args: string[]): void {
+  const separator = args.indexOf('--');
+  const { positionals, values } = parseArgs({
+    args: separator >= 0 ? args.slice(0, separator) : args,
+    allowPositionals: true,
+    options: { ...RUN_OPTIONS, replay: { type: 'string' } },
+  });
+  applyRunOptions(values, positionals);
+  if (values.replay) process.env.REPLAY_RUN = values.replay;
+
+  // Playwright runs global setup and the tests in its own processes; the environment carries the options.
+  const result = spawnSync('npx', ['playwright', 'test', ...(separator >= 0 ? args.slice(separator + 1) : [])], {
+    stdio: 'inherit',
+    env: process.env,
+    shell: process.platform === 'win32',
+  });
+  if (result.error) throw result.error;
+  process.exitCode = result.status ?? 1;
+}
+
+// INTERNAL: Checks the options against the run config and puts them into the environment, where
+// this process and the ones it starts read them. Returns the run config they result in.
+function applyRunOptions(values: RunOptionValues, tasks: string[]): RunConfig {
+  if (tasks.length > 0 && values.batch) throw new Error('Pass task names or --batch, not both.');
+  const single = tasks.length === 1 && !/[*?,]/.test(tasks[0]);
+  const flags: RunConfigFlags = {
+    config: values.config,
+    provider: values.provider,
+    task: single ? tasks[0] : undefined,
+    batch: tasks.length > 0 && !single ? tasks.join(',') : values.batch,
+    profile: values.profile,
+    clients: values.clients?.split(',').map(pattern => pattern.trim()).filter(Boolean),
+    existingTestId: values['test-id'],
+  };
+
+  const config = loadRunConfig({ flags });
+  Object.assign(process.env, toEnvironment(flags, config.provider));
+  return config;
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,57 @@
+// PURPOSE: Fetch the email under test from Gmail into emails/<task>.html (+ .meta.json)
+// without starting a test run.
+//
+// USAGE (email-visual-tester extract [options], or npx ts-node src/cli/fetch-email.ts [options]):
+//   --message-id <id>   Gmail message ID (default GMAIL_MESSAGE_ID / run config "emailSource.gmail.messageId")
+//   --query <q>         Newest message matching a Gmail search, e.g. 'from:news@ebay.com subject:"Spring"'
+//                       (default GMAIL_QUERY / "emailSource.gmail.query")
+//   --task <name>       Task name that decides the file name (default TASK_NAME)
+// GMAIL_FIXTURES_DIR reads saved messages instead of calling the Gmail API.
+
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { EMAILS_DIR } from '../utils/email-tasks';
+import { saveFetchedEmail } from '../utils/email-metadata';
+import { sanitizeFilename } from '../utils/filename';
+import { getRunConfig } from '../utils/run-config';
+import { getGmailClient } from '../utils/source-factory';
+import { GmailEmailSource } from '../sources/gmail-email-source';
+
+dotenv.config();
+
+export async function run(args: string[] = process.argv.slice(2)): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'message-id': { type: 'string' },
+      query: { type: 'string' },
+      task: { type: 'string' },
+    },
+  });
+
+  const config = getRunConfig();
+  const taskName = values.task || config.task;
+  if (!taskName) throw new Error('Pass --task <name> (or set TASK_NAME) to choose the output file.');
+
+  const { gmail } = config.emailSource;
+  const source = new GmailEmailSource(getGmailClient(config.emailSource), {
+    messageId: values['message-id'] || (values.query ? undefined : gmail.messageId),
+    query: values.query || gmail.query,
+  });
+
+  const htmlFile = resolve(EMAILS_DIR, `${sanitizeFilename(taskName)}.html`);
+  console.log(`Fetching ${source.description}...`);
+  const metadata = saveFetchedEmail(htmlFile, await source.fetchEmail());
+
+  console.log(`✅ Saved ${htmlFile}`);
+  if (metadata.subject) console.log(`   Subject: ${metadata.subject}`);
+  if (metadata.receivedAt) console.log(`   Received: ${metadata.receivedAt}`);
+}
+
+if (require.main === module) {
+  run().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,74 @@
+// PURPOSE: Run the pre-flight HTML lint without creating a provider test.
+//
+// USAGE (email-visual-tester lint [file.html|file.eml|file.hbs...], or npx ts-node src/cli/lint-email.ts ...):
+//   No files: lints the email(s) selected by TASK_NAME / EMAIL_BATCH (templates once per fixture).
+//   .eml files are linted on their extracted HTML part; a .hbs file given directly is rendered without data.
+//   Exits with code 1 when any email has findings at its failOn severity.
+
+import * as dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { loadEmailConfig } from '../utils/email-config';
+import { EmailTask, getTaskSourceFile, resolveEmailTasks } from '../utils/email-tasks';
+import { getEmailSource } from '../utils/source-factory';
+import { EmlEmailSource } from '../sources/eml-email-source';
+import { TemplateEmailSource } from '../sources/template-email-source';
+import { formatLintReport, lintEmailHtml } from '../utils/html-lint';
+import { getRunConfig } from '../utils/run-config';
+
+dotenv.config();
+
+interface LintTarget {
+  label: string;
+  sourceFile: string;
+  readHtml: () => Promise<string>;
+}
+
+export async function run(args: string[] = process.argv.slice(2)): Promise<void> {
+  const files = args.map(file => resolve(file));
+  const targets = files.length > 0 ? files.map(fileTarget) : resolveEmailTasks().map(taskTarget);
+  if (targets.length === 0) {
+    throw new Error('Usage: lint [file.html|file.eml|file.hbs...] (or set TASK_NAME / EMAIL_BATCH)');
+  }
+
+  let failed = 0;
+  for (const target of targets) {
+    if (!existsSync(target.sourceFile)) throw new Error(`File not found: ${target.sourceFile}`);
+
+    const report = lintEmailHtml(await target.readHtml(), loadEmailConfig(target.sourceFile).lint);
+    console.log(`\n${target.label}`);
+    formatLintReport(report, getRunConfig().provider).forEach(line => console.log(line));
+    if (report.failed) failed++;
+  }
+
+  if (failed > 0) {
+    console.error(`\n❌ ${failed} email(s) failed the lint (failOn severity reached).`);
+    process.exitCode = 1;
+  }
+}
+
+// INTERNAL: .eml files are linted on their HTML part, templates rendered without data.
+function fileTarget(file: string): LintTarget {
+  const extension = file.toLowerCase().split('.').pop();
+  const readHtml = async () =>
+    extension === 'eml' ? (await new EmlEmailSource(file).fetchEmail()).html
+      : extension === 'hbs' ? (await new TemplateEmailSource(file).fetchEmail()).html
+        : readFileSync(file, 'utf-8');
+  return { label: file, sourceFile: file, readHtml };
+}
+
+function taskTarget(task: EmailTask): LintTarget {
+  const sourceFile = getTaskSourceFile(task);
+  return {
+    label: task.template?.variant ? `${sourceFile} [${task.template.variant}]` : sourceFile,
+    sourceFile,
+    readHtml: async () => (await getEmailSource(task, 'file').fetchEmail()).html,
+  };
+}
+
+if (require.main === module) {
+  run().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,163 @@
+// PURPOSE: Past runs of an email and how its clients changed over time, read from the run archives
+// (temp/archives). Outcomes, diff ratios and approvals are added there after every test run.
+//
+// USAGE (email-visual-tester history <command>, or npx ts-node src/cli/run-history.ts <command>):
+//   list                                   Runs of the email, oldest first (HTML hash, pass/fail counts, approvals)
+//   compare [from] [to]                    Clients that regressed or recovered between two runs
+//                                          (run IDs, a unique prefix, "latest" or "previous"; default previous -> latest)
+//   flaky [--runs <n>]                     Clients that keep flipping between pass and fail in the last n runs (default 10)
+//   prune --max-age-days <n> | --keep <n>  Delete older runs (archive + screenshot folder); --dry-run lists them
+// Options: --project <name> selects the email (defaults to TASK_NAME); prune without it covers every email.
+
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { resolveEmailTasks } from '../utils/email-tasks';
+import {
+  ClientChange,
+  RunHistoryEntry,
+  compareRuns,
+  describeState,
+  findFlakyClients,
+  findRun,
+  listArchivedProjects,
+  loadRunHistory,
+  pruneRunHistory,
+} from '../utils/run-history';
+
+dotenv.config();
+
+export function run(args: string[] = process.argv.slice(2)): void {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      project: { type: 'string' },
+      runs: { type: 'string' },
+      'max-age-days': { type: 'string' },
+      keep: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const [command, from, to] = positionals;
+
+  switch (command) {
+    case 'list':
+      return listRuns(loadHistory(values.project));
+    case 'compare':
+      return compare(loadHistory(values.project), from || 'previous', to || 'latest');
+    case 'flaky':
+      return showFlaky(loadHistory(values.project), values.runs ? positiveNumber('--runs', values.runs) : undefined);
+    case 'prune':
+      return prune(values.project, {
+        maxAgeDays: values['max-age-days'] !== undefined ? positiveNumber('--max-age-days', values['max-age-days']) : undefined,
+        keep: values.keep !== undefined ? positiveNumber('--keep', values.keep) : undefined,
+        dryRun: values['dry-run'],
+      });
+    default:
+      throw new Error(
+        'Usage: history <list|compare|flaky|prune> [from] [to] [--project name] [--runs n] [--max-age-days n] [--keep n] [--dry-run]'
+      );
+  }
+}
+
+function listRuns(history: RunHistoryEntry[]): void {
+  console.log(`${history.length} run(s) of "${history[0].project}":\n`);
+  for (const entry of history) {
+    const count = (state: string) => entry.clients.filter(client => client.state === state).length;
+    const approvals = entry.clients.filter(client => client.approval?.action === 'accept').length;
+    const outcome = entry.hasResults
+      ? `✅ ${count('pass')}  ❌ ${count('fail')}  ⚠️ ${count('provider-error')}${approvals ? `  approved ${approvals}` : ''}`
+      : `${entry.clients.length} client(s), no test results`;
+    const html = entry.htmlHash ? `html ${entry.htmlHash.slice(0, 12)}` : 'html ?';
+    console.log(`  ${entry.runId}  ${html}  ${entry.testId ? `test ${entry.testId}  ` : ''}${outcome}`);
+  }
+}
+
+function compare(history: RunHistoryEntry[], fromSelector: string, toSelector: string): void {
+  const from = requireRun(history, fromSelector);
+  const to = requireRun(history, toSelector);
+  const comparison = compareRuns(from, to);
+
+  console.log(`Comparing ${from.runId} -> ${to.runId} ("${to.project}")`);
+  if (comparison.htmlChanged) {
+    console.log(`HTML changed: ${from.htmlHash!.slice(0, 12)} -> ${to.htmlHash!.slice(0, 12)}`);
+  }
+  if (!from.hasResults || !to.hasResults) {
+    console.log('⚠️ One of the runs has no test results; only provider errors can be compared.');
+  }
+
+  const section = (title: string, changes: ClientChange[]) => {
+    if (changes.length === 0) return;
+    console.log(`\n${title} (${changes.length}):`);
+    for (const change of changes) {
+      console.log(`  ${change.clientId}: ${describeState(change.from, change.fromDiffRatio)} -> ${describeState(change.to, change.toDiffRatio)}`);
+    }
+  };
+  section('❌ Regressed', comparison.regressed);
+  section('✅ Recovered', comparison.recovered);
+  section('📊 Diff changed', comparison.diffChanged);
+  if (comparison.added.length > 0) console.log(`\nNew clients: ${comparison.added.join(', ')}`);
+  if (comparison.removed.length > 0) console.log(`\nDropped clients: ${comparison.removed.join(', ')}`);
+
+  if (comparison.regressed.length + comparison.recovered.length + comparison.diffChanged.length === 0) {
+    console.log('\n✅ No client changed between the two runs.');
+  }
+}
+
+function showFlaky(history: RunHistoryEntry[], window?: number): void {
+  const flaky = findFlakyClients(history, window);
+  if (flaky.length === 0) {
+    console.log('✅ No flaky clients in the recorded runs.');
+    return;
+  }
+  console.log(`${flaky.length} flaky client(s):\n`);
+  for (const client of flaky) {
+    const timeline = client.states.map(state => ({ pass: '✅', fail: '❌', 'provider-error': '⚠️', unknown: '·' })[state]).join('');
+    console.log(
+      `  ${client.clientId}  ${timeline}  ${client.flips} flip(s), ${client.providerErrors} provider error(s) in ${client.runs} run(s)`
+    );
+  }
+}
+
+function prune(project: string | undefined, options: { maxAgeDays?: number; keep?: number; dryRun?: boolean }): void {
+  if (options.maxAgeDays === undefined && options.keep === undefined) {
+    throw new Error('Pass --max-age-days <n> and/or --keep <n>.');
+  }
+  const removed = pruneRunHistory(project ? [project] : listArchivedProjects(), options);
+  const verb = options.dryRun ? 'Would remove' : 'Removed';
+  removed.forEach(entry => console.log(`  ${entry.project}  ${entry.runId}`));
+  console.log(`${verb} ${removed.length} run(s).`);
+}
+
+// INTERNAL: --project, else the single task from TASK_NAME.
+function loadHistory(project?: string): RunHistoryEntry[] {
+  const tasks = resolveEmailTasks();
+  const selected = project || (tasks.length === 1 ? tasks[0].sanitizedTaskName : undefined);
+  if (!selected) {
+    throw new Error(`Pass --project <name> (or set TASK_NAME). Archived: ${listArchivedProjects().join(', ') || 'none'}`);
+  }
+  const history = loadRunHistory(selected);
+  if (history.length === 0) throw new Error(`No archived runs for "${selected}".`);
+  return history;
+}
+
+function requireRun(history: RunHistoryEntry[], selector: string): RunHistoryEntry {
+  const entry = findRun(history, selector);
+  if (!entry) throw new Error(`No run "${selector}". Use "list" to see the run IDs.`);
+  return entry;
+}
+
+function positiveNumber(option: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) throw new Error(`${option} must be a positive number, got "${value}".`);
+  return number;
+}
+
+if (require.main === module) {
+  try {
+    run();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  }
+}
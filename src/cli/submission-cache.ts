@@ -0,0 +1,66 @@
+// PURPOSE: Inspect and clean the provider submission cache (temp/archives/submission-cache.json).
+//
+// USAGE (email-visual-tester cache <command>, or npx ts-node src/cli/submission-cache.ts <command>):
+//   list                          Cached provider tests, newest first
+//   prune [--max-age-hours <n>]   Remove entries older than n hours (default SUBMISSION_CACHE_MAX_AGE_HOURS or 168)
+//   clear                         Remove every entry (next runs create new provider tests)
+
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import {
+  clearSubmissionCache,
+  getCacheMaxAgeHours,
+  loadSubmissionCache,
+  pruneSubmissionCache,
+} from '../utils/submission-cache';
+
+dotenv.config();
+
+export function run(args: string[] = process.argv.slice(2)): void {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { 'max-age-hours': { type: 'string' } },
+  });
+
+  switch (positionals[0]) {
+    case 'list': {
+      const entries = loadSubmissionCache().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      if (entries.length === 0) {
+        console.log('Submission cache is empty.');
+        return;
+      }
+      for (const entry of entries) {
+        const captured = Object.keys(entry.screenshots).length;
+        console.log(
+          `${entry.createdAt}  ${entry.provider}  ${entry.testId}  "${entry.taskName}"  ` +
+            `${captured}/${entry.clients.length} screenshot(s)  html ${entry.htmlHash.slice(0, 12)}`
+        );
+      }
+      return;
+    }
+    case 'prune': {
+      const maxAgeHours = values['max-age-hours'] ? Number(values['max-age-hours']) : getCacheMaxAgeHours();
+      if (!Number.isFinite(maxAgeHours) || maxAgeHours <= 0) {
+        throw new Error(`--max-age-hours must be a positive number, got "${values['max-age-hours']}".`);
+      }
+      console.log(`Removed ${pruneSubmissionCache(maxAgeHours)} entries older than ${maxAgeHours}h.`);
+      return;
+    }
+    case 'clear':
+      clearSubmissionCache();
+      console.log('Submission cache cleared.');
+      return;
+    default:
+      throw new Error('Usage: cache <list|prune|clear> [--max-age-hours n]');
+  }
+}
+
+if (require.main === module) {
+  try {
+    run();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,46 @@
+// PURPOSE: Rebuild the cross-client visual report from the last run's results, e.g. after
+// approving baselines or to change the image size, without running the tests again.
+//
+// USAGE (email-visual-tester report [options], or npx ts-node src/cli/visual-report.ts [options]):
+//   --input <file>        Playwright JSON results (default test-results/last-run.json)
+//   --output <file>       Report file (default reports/visual-report.html)
+//   --image-width <px>    Width of the embedded images (default 480)
+//   --project <name>      Only this task (default: every task in the results)
+
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { LAST_RUN_FILE, loadLastRun } from '../utils/last-run';
+import { writeVisualReport } from '../utils/visual-report';
+
+export function run(args: string[] = process.argv.slice(2)): void {
+  const { values } = parseArgs({
+    args,
+    options: {
+      input: { type: 'string' },
+      output: { type: 'string' },
+      'image-width': { type: 'string' },
+      project: { type: 'string' },
+    },
+  });
+
+  const results = loadLastRun(values.input ? resolve(values.input) : LAST_RUN_FILE)
+    .filter(result => !values.project || result.project === values.project);
+  if (results.length === 0) {
+    throw new Error(`No client results${values.project ? ` for project "${values.project}"` : ''} in the last run.`);
+  }
+
+  const outputFile = writeVisualReport(results, {
+    ...(values.output ? { outputFile: resolve(values.output) } : {}),
+    ...(values['image-width'] ? { imageWidth: Number(values['image-width']) } : {}),
+  });
+  console.log(`✅ Visual report (${results.length} client(s)): ${outputFile}`);
+}
+
+if (require.main === module) {
+  try {
+    run();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  }
+}
@@ -1,163 +1,551 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { resolve } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { basename, resolve } from 'path';
 import * as dotenv from 'dotenv';
-import { getEmailPreviewService } from './utils/service-factory';
-import { sanitizeFilename } from './utils/filename';
+import { getEmailPreviewService, getServiceCredentials } from './utils/service-factory';
+import {
+  EmailTask,
+  TEMP_DIR,
+  getGeneratedPreviewFile,
+  getTaskSourceFile,
+  isBatchMode,
+  resolveEmailTasks,
+} from './utils/email-tasks';
+import { getPrimaryScreenshot } from './utils/client-results';
+import { formatPreviewName, getScreenshotName, loadClientCatalog } from './utils/client-catalog';
+import { selectRunClients } from './utils/client-profiles';
+import { ClientResult, ClientStatus, ClientTiming, PreviewJob, SupportedClient } from './interfaces/preview-job';
+import { IEmailPreviewService } from './interfaces/i-email-preview-service';
+import { hashContent } from './utils/hash';
+import { LintFinding, formatLintReport, lintEmailHtml } from './utils/html-lint';
+import { loadEmailConfig } from './utils/email-config';
+import { getEmailSource, getEmailSourceName } from './utils/source-factory';
+import { loadEmailMetadata, saveFetchedEmail } from './utils/email-metadata';
+import {
+  CachedSubmission,
+  computeSubmissionKey,
+  findCachedSubmission,
+  isCacheBypassed,
+  pruneSubmissionCache,
+  saveCachedSubmission,
+} from './utils/submission-cache';
+import {
+  RUN_HTML_NAME,
+  RUN_MANIFEST_NAME,
+  ScreenshotArtifact,
+  downloadScreenshot,
+  getRunDir,
+  listRunIds,
+} from './utils/screenshot-artifacts';
+import { ARCHIVE_DIR, getArchiveFile } from './utils/run-history';
+import {
+  JobState,
+  clearJobState,
+  createJobState,
+  findResumableJob,
+  getMissingClients,
+  recordCollectedClient,
+} from './utils/job-state';
+import { createConsoleListener } from './utils/poller';
+import { PollListener } from './interfaces/polling';
+import { RunConfig, TaskSettings, getRunConfig, resolveTaskSettings } from './utils/run-config';
 import axios from 'axios';
 
 dotenv.config();
 
+// One entry per requested client. `url` is empty when the provider gave no screenshot;
+// `status` and `reason` then explain why.
 export interface GeneratedPreview {
   name: string;
   url: string;
   client: string;
+  status: ClientStatus;
+  reason?: string;
+  screenshots: Record<string, string>;
+  timing: ClientTiming;
+  // Local copy of `url` in the run folder; tests compare this file, not the remote URL.
+  artifact?: ScreenshotArtifact;
+  // Why the download failed (the test then tries the URL itself).
+  downloadError?: string;
 }
 
-const TEMP_DIR = resolve(__dirname, '..', 'temp');
-const ARCHIVE_DIR = resolve(TEMP_DIR, 'archives');
-const EMAILS_DIR = resolve(__dirname, '..', 'emails');
-const DEFAULT_CLIENTS_FILE = resolve(__dirname, '..', 'default-clients-eoa.json');
+// Shape of generated-preview-urls-<task>.json (and its archive copies).
+export interface GeneratedPreviewFile {
+  taskName: string;
+  generatedAt: string;
+  job: PreviewJob;
+  // SHA-256 of the submitted HTML (absent when an existing provider test was reused).
+  htmlHash?: string;
+  // Folder under temp/runs/<task>/ holding this run's screenshots.
+  runId?: string;
+  // Pre-flight HTML lint findings (absent when the HTML was not linted).
+  lint?: LintFinding[];
+  previews: GeneratedPreview[];
+}
+
+// Screenshots downloaded at the same time (providers throttle bursts of image requests).
+const DOWNLOAD_CONCURRENCY = 4;
+
+// Human-readable provider names used in log output.
+const SERVICE_LABELS: Record<string, string> = {
+  emailonacid: 'Email on Acid',
+  litmus: 'Litmus',
+  local: 'Local Render',
+};
+
+// How far setup goes: "all" creates (or reuses) each email's provider test and collects its
+// screenshots; "submit" stops once the tests exist (the CLI's submit command, for CI jobs that
+// submit and compare separately).
+export type SetupStage = 'all' | 'submit';
+
+// Outcome of setup for one email.
+export interface PreparedTask {
+  task: EmailTask;
+  job?: PreviewJob;
+  error?: string;
+}
+
+// Everything a single email needs that is shared across the whole run.
+export interface SetupContext {
+  stage: SetupStage;
+  config: RunConfig;
+  previewService: IEmailPreviewService;
+  serviceToUse: string;
+  serviceLabel: string;
+  now: Date;
+  verboseTimestamp: string;
+  /** The provider's current client list, fetched once per run when a test is about to be created. */
+  getSupportedClients: () => Promise<SupportedClient[] | undefined>;
+}
 
 async function globalSetup() {
-  const taskName = process.env.TASK_NAME;
-  const existingTestId =
-    process.env.EXISTING_EOA_TEST_ID ||
-    process.env.EOA_TEST_ID || 
-    '';
-
-  if (!taskName) {
-    console.warn('WARNING: TASK_NAME is not set. Exiting setup (tests will skip).');
-    return;
-  }
+  await prepareRun();
+}
 
-  // Standardized hyphen-based task name
-  const sanitizedTaskName = sanitizeFilename(taskName);
-  const GENERATED_URLS_FILE = resolve(TEMP_DIR, `generated-preview-urls-${sanitizedTaskName}.json`);
+// Prepares every email of the run up to `stage`; also used by the CLI's submit and poll commands.
+export async function prepareRun(stage: SetupStage = 'all'): Promise<PreparedTask[]> {
+  const config = getRunConfig();
+  const tasks = resolveEmailTasks();
+  console.log(describeRunConfig(config));
 
-  const now = new Date();
-  const verboseTimestamp = now.toISOString().replace(/[:.]/g, '-').split('T').join('-');
+  if (tasks.length === 0) {
+    console.warn('WARNING: TASK_NAME (or EMAIL_BATCH) is not set. Exiting setup (tests will skip).');
+    return [];
+  }
 
-  console.log(`--- Global Setup Start: Task "${taskName}" ---`);
-  if (existingTestId) {
-    console.log(`Mode: USING EXISTING Email on Acid test (ID: ${existingTestId})`);
-  } else {
-    console.log('Mode: CREATING NEW Email on Acid test from local HTML');
+  // Offline re-compare: reuse the screenshots of an earlier run, no provider involved.
+  const replayRunId = process.env.REPLAY_RUN?.trim();
+  if (replayRunId) {
+    if (stage === 'submit') throw new Error('REPLAY_RUN re-compares an earlier run; there is nothing to submit.');
+    console.log(`--- Global Setup Start: replaying run "${replayRunId}" ---`);
+    tasks.forEach(task => replayTask(task, replayRunId));
+    console.log('--- Global Setup Finished ---');
+    return tasks.map(task => ({ task }));
   }
 
-  // Determine which email clients to request (still needed for both modes)
-  const desiredApiClients = getDesiredApiClients();
+  const now = new Date();
+  const verboseTimestamp = now.toISOString().replace(/[:.]/g, '-').split('T').join('-');
 
   // Fetch credentials (still needed even when reusing an existing test, for polling)
   const { serviceToUse, apiKey, accountPassword } = getServiceCredentials();
+  const serviceLabel = SERVICE_LABELS[serviceToUse] || serviceToUse;
+
+  // One run-wide existing test ID cannot stand for several emails, so batch runs only reuse
+  // the test IDs given per email ("tasks" entries of the run config).
+  if (config.existingTestId && isBatchMode()) {
+    console.warn('WARNING: Ignoring existing test ID in batch mode (EMAIL_BATCH is set).');
+  }
+
+  const runLabel = isBatchMode()
+    ? `Batch of ${tasks.length} email(s): ${tasks.map(task => task.taskName).join(', ')}`
+    : `Task "${tasks[0].taskName}"`;
+  console.log(`--- Global Setup Start: ${runLabel} ---`);
+  if (!isBatchMode() && config.existingTestId) {
+    console.log(`Mode: USING EXISTING ${serviceLabel} test (ID: ${config.existingTestId})`);
+  } else {
+    console.log(`Mode: CREATING NEW ${serviceLabel} test(s) from local HTML`);
+  }
 
   // Ensure output folders exist
   if (!existsSync(TEMP_DIR)) mkdirSync(TEMP_DIR, { recursive: true });
   if (!existsSync(ARCHIVE_DIR)) mkdirSync(ARCHIVE_DIR, { recursive: true });
 
+  // One mailbox message cannot stand for several emails either.
+  if (isBatchMode() && getEmailSourceName() !== 'file') {
+    throw new Error(`EMAIL_SOURCE=${getEmailSourceName()} selects a single message and cannot be used with EMAIL_BATCH.`);
+  }
+
+  // Drop cached submissions older than SUBMISSION_CACHE_MAX_AGE_HOURS
+  const expiredEntries = pruneSubmissionCache();
+  if (expiredEntries > 0) console.log(`Pruned ${expiredEntries} expired submission cache entries.`);
+
   // Instantiate the preview service
   const previewService = getEmailPreviewService(serviceToUse, apiKey, accountPassword);
 
-  // STEP A: Obtain a test ID (either reuse existing or create via HTML injection)
-  let testId: string;
+  let supportedClients: Promise<SupportedClient[] | undefined> | undefined;
+  const context: SetupContext = {
+    stage,
+    config,
+    previewService,
+    serviceToUse,
+    serviceLabel,
+    now,
+    verboseTimestamp,
+    getSupportedClients: () => {
+      supportedClients = supportedClients || previewService.getSupportedClients().catch((error: any) => {
+        console.warn(`WARNING: Could not fetch the ${serviceLabel} client list (${error.message}); requested clients are not checked.`);
+        return undefined;
+      });
+      return supportedClients;
+    },
+  };
+
+  // Every email is submitted and polled independently, all at the same time.
+  const outcomes = await Promise.allSettled(tasks.map(task => prepareTask(task, context)));
+  const failed = tasks.filter((_, index) => outcomes[index].status === 'rejected');
+
+  // Only abort the whole run when nothing could be prepared; otherwise the failed
+  // emails' tests skip with "No previews" while the rest still run.
+  if (failed.length === tasks.length) {
+    throw (outcomes[0] as PromiseRejectedResult).reason;
+  }
+  if (failed.length > 0) {
+    console.warn(`WARNING: Setup failed for ${failed.map(task => task.taskName).join(', ')}.`);
+  }
+
+  console.log('--- Global Setup Finished ---');
+  return tasks.map((task, index) => {
+    const outcome = outcomes[index];
+    return outcome.status === 'fulfilled' ? { task, job: outcome.value } : { task, error: outcome.reason.message };
+  });
+}
+
+// Creates (or reuses) the provider test for one email and, unless only submitting, writes its preview file.
+export async function prepareTask(task: EmailTask, context: SetupContext): Promise<PreviewJob> {
+  const { taskName, sanitizedTaskName, htmlFile } = task;
+  const { config, previewService, serviceToUse, serviceLabel, now } = context;
+  const GENERATED_URLS_FILE = getGeneratedPreviewFile(sanitizedTaskName);
+
+  // Per-email settings: client profile and set, existing test ID, lint (run config "tasks" entries).
+  const settings = resolveTaskSettings(config, task);
+  const existingTestId = getExistingTestId(config, settings);
+  let desiredApiClients: string[];
+  try {
+    desiredApiClients = getDesiredApiClients(serviceToUse, settings);
+  } catch (error) {
+    handleError(error, taskName);
+  }
+  if (settings.profile || settings.clients) {
+    const selection = [
+      settings.profile && `profile "${settings.profile}"`,
+      settings.clients && `client set "${settings.clients.join(', ')}"`,
+    ].filter(Boolean).join(', ');
+    console.log(`[${taskName}] Clients from ${selection}: ${desiredApiClients.length} client(s).`);
+  }
+
+  // Never leave a previous run's previews behind for an email that fails this time.
+  if (existsSync(GENERATED_URLS_FILE)) unlinkSync(GENERATED_URLS_FILE);
+
+  // STEP A: Obtain a job (either reuse existing test ID, resume the test of an interrupted run,
+  // reuse a cached submission of identical HTML, or create via HTML injection)
+  let job: PreviewJob;
+  let htmlHash: string | undefined;
+  let submittedHtml: string | undefined;
+  let cacheEntry: CachedSubmission | undefined;
+  let jobState: JobState | undefined;
+  let lintFindings: LintFinding[] | undefined;
   try {
     if (existingTestId) {
       // Reuse path: no HTML required, just validate minimal format
-      testId = existingTestId.trim();
+      const testId = existingTestId.trim();
       if (!testId) throw new Error('Provided existing test ID is empty.');
+      if (isBatchMode()) console.log(`[${taskName}] Using existing ${serviceLabel} test ${testId}`);
+      job = { provider: serviceToUse, testId };
     } else {
-      // Create path: need local HTML file
-      const emailHtmlFileName = `${sanitizedTaskName}.html`;
-      const EMAIL_HTML_FILE = resolve(EMAILS_DIR, emailHtmlFileName);
+      // Mailbox sources (EMAIL_SOURCE=gmail), .eml files and templates refresh the task's HTML first.
+      if (getEmailSourceName() !== 'file' || task.emlFile || task.template) {
+        await fetchEmailFromSource(task);
+      }
 
-      if (!existsSync(EMAIL_HTML_FILE)) {
+      // Create path: need local HTML file
+      if (!existsSync(htmlFile)) {
         throw new Error(
-          `Could not find email HTML file at ${EMAIL_HTML_FILE}. Place it there or set EXISTING_EOA_TEST_ID.`
+          `Could not find email HTML file at ${htmlFile}. Place it there or reuse an existing test ID.`
         );
       }
 
-      const emailHtmlContent = readFileSync(EMAIL_HTML_FILE, 'utf-8');
-      const emailSubject = `${taskName} - EOA Preview - ${now.toLocaleString()}`;
+      const emailHtmlContent = readFileSync(htmlFile, 'utf-8');
+      htmlHash = hashContent(emailHtmlContent);
+      submittedHtml = emailHtmlContent;
 
-      console.log('Uploading HTML to create a new EOA test...');
-      const injectionResponse = await previewService.injectHtml(emailHtmlContent, emailSubject, {
-        clients: desiredApiClients,
-      });
-      testId = injectionResponse.test_id;
-      console.log(`New test created. ID: ${testId}`);
+      // Pre-flight lint: known client problems are reported before any credits are spent.
+      lintFindings = settings.skipLint ? undefined : lintHtml(taskName, getTaskSourceFile(task), emailHtmlContent, serviceToUse);
+
+      // Local renders are free and their folders may be cleaned up, so only paid providers are cached.
+      const useCache = serviceToUse !== 'local';
+      const cacheKey = computeSubmissionKey(serviceToUse, emailHtmlContent, desiredApiClients);
+      const reuse = useCache && !isCacheBypassed();
+      cacheEntry = reuse ? findCachedSubmission(cacheKey) : undefined;
+      jobState = reuse ? findResumableJob(sanitizedTaskName, serviceToUse, htmlHash, desiredApiClients) : undefined;
+
+      if (jobState) {
+        const captured = desiredApiClients.length - getMissingClients(jobState, desiredApiClients).length;
+        console.log(`[${taskName}] Resuming test ${jobState.testId} of an interrupted run (${captured}/${desiredApiClients.length} client(s) already captured).`);
+        job = { provider: serviceToUse, testId: jobState.testId, submittedAt: jobState.createdAt };
+      } else if (cacheEntry) {
+        console.log(`[${taskName}] Same HTML and clients as test ${cacheEntry.testId}; reusing it (set FORCE_NEW_TEST=true to create a new one).`);
+        job = { provider: serviceToUse, testId: cacheEntry.testId, submittedAt: cacheEntry.createdAt };
+        jobState = createJobState(
+          sanitizedTaskName,
+          { taskName, provider: serviceToUse, testId: job.testId, htmlHash, clients: desiredApiClients },
+          cacheEntry.createdAt
+        );
+      } else {
+        // The email's own subject when it came with one (inbox previews show it), else a label.
+        const metadata = loadEmailMetadata(htmlFile);
+        const emailSubject = metadata?.subject && metadata.htmlHash === htmlHash
+          ? metadata.subject
+          : `${taskName} - ${serviceLabel} Preview - ${now.toLocaleString()}`;
+
+        await checkSupportedClients(context, desiredApiClients);
+
+        console.log(`[${taskName}] Uploading HTML to create a new ${serviceLabel} test...`);
+        job = await previewService.injectHtml(emailHtmlContent, emailSubject, {
+          clients: desiredApiClients,
+        });
+        // Saved right away so a crash while polling does not cost another test next time.
+        if (useCache) {
+          jobState = createJobState(
+            sanitizedTaskName,
+            { taskName, provider: serviceToUse, testId: job.testId, htmlHash, clients: desiredApiClients },
+            job.submittedAt
+          );
+        }
+        console.log(`[${taskName}] New test created. ID: ${job.testId}`);
+
+        // Later runs with the same HTML and clients reuse the test through the submission cache.
+        if (useCache) {
+          cacheEntry = {
+            key: cacheKey,
+            provider: serviceToUse,
+            testId: job.testId,
+            taskName,
+            clients: [...desiredApiClients].sort(),
+            htmlHash,
+            createdAt: job.submittedAt || now.toISOString(),
+            lastUsedAt: now.toISOString(),
+            screenshots: {},
+          };
+          saveCachedSubmission(cacheEntry);
+        }
+      }
     }
   } catch (error) {
-    handleError(error);
-    return;
+    handleError(error, taskName);
   }
 
-  // STEP B: Poll for preview URLs
+  if (context.stage === 'submit') return job;
+
+  // STEP B: Poll for preview results (successful and unsuccessful clients alike). Clients a resumed
+  // job already captured are not polled again.
   try {
-    const previewUrlsMap = await previewService.getPreviewUrls(
-      { test_id: testId },
-      desiredApiClients
-    );
+    const state = jobState;
+    const pendingClients = state ? getMissingClients(state, desiredApiClients) : desiredApiClients;
+    const polledResults = pendingClients.length > 0
+      ? await previewService.getPreviewResults(job, pendingClients, state ? { onProgress: createJobListener(sanitizedTaskName, state) } : {})
+      : [];
+    const clientResults = desiredApiClients
+      .map(clientId => polledResults.find(result => result.clientId === clientId) || state?.collected[clientId])
+      .filter((result): result is ClientResult => !!result);
 
-    const generatedPreviews: GeneratedPreview[] = Object.entries(previewUrlsMap).map(
-      ([client, url]) => ({
-        name: `${client.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase())} Preview`,
-        url,
-        client,
-      })
-    );
+    const runId = context.verboseTimestamp;
+    const runDir = getRunDir(sanitizedTaskName, runId);
+    const previews = clientResults.map(toGeneratedPreview);
+    await downloadScreenshots(previews, runDir, taskName);
+
+    const previewFile: GeneratedPreviewFile = {
+      taskName,
+      generatedAt: now.toISOString(),
+      // The raw upload response is provider noise; tests only need the identifiers.
+      job: { ...job, raw: undefined },
+      htmlHash,
+      runId,
+      ...(lintFindings ? { lint: lintFindings } : {}),
+      previews,
+    };
 
-    // Persist main file consumed by blueprint test
-    writeFileSync(GENERATED_URLS_FILE, JSON.stringify(generatedPreviews, null, 2));
-    console.log(`Saved preview list: ${GENERATED_URLS_FILE}`);
+    // Persist main file consumed by blueprint test, plus a copy inside the run folder for replays
+    writeFileSync(GENERATED_URLS_FILE, JSON.stringify(previewFile, null, 2));
+    writeFileSync(resolve(runDir, RUN_MANIFEST_NAME), JSON.stringify(previewFile, null, 2));
+    // Kept for the markup diff of failed clients and for storing it with approved baselines.
+    if (submittedHtml) writeFileSync(resolve(runDir, RUN_HTML_NAME), submittedHtml);
+    console.log(`[${taskName}] Saved preview list: ${GENERATED_URLS_FILE}`);
 
     // Archive copy for history
-    archiveGeneratedUrls(sanitizedTaskName, verboseTimestamp, generatedPreviews);
+    const archiveFile = archiveGeneratedUrls(sanitizedTaskName, context.verboseTimestamp, previewFile);
+    // The results are safe now; the next run with this HTML goes through the submission cache.
+    if (jobState) clearJobState(sanitizedTaskName);
+
+    // Remember what this test produced, for the next run with identical input.
+    if (cacheEntry) {
+      saveCachedSubmission({
+        ...cacheEntry,
+        lastUsedAt: now.toISOString(),
+        screenshots: Object.fromEntries(
+          previewFile.previews.filter(preview => preview.url).map(preview => [preview.client, preview.url])
+        ),
+        archiveFile: basename(archiveFile),
+      });
+    }
   } catch (error) {
-    handleError(error);
+    handleError(error, taskName);
+  }
+  return job;
+}
+
+// Downloads every available screenshot into the run folder and records checksum and size.
+// A failed download is not fatal: the preview keeps its URL and the test retries from there.
+async function downloadScreenshots(previews: GeneratedPreview[], runDir: string, taskName: string): Promise<void> {
+  mkdirSync(runDir, { recursive: true });
+  const pending = previews.filter(preview => preview.url);
+
+  const worker = async () => {
+    for (let preview = pending.shift(); preview; preview = pending.shift()) {
+      try {
+        preview.artifact = await downloadScreenshot(
+          preview.url,
+          runDir,
+          getScreenshotName(preview.client).replace(/\.png$/, '')
+        );
+      } catch (error: any) {
+        preview.downloadError = error.message;
+        console.warn(`[${taskName}] ⚠️ Could not download screenshot for ${preview.client}: ${error.message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  const downloaded = previews.filter(preview => preview.artifact).length;
+  console.log(`[${taskName}] Downloaded ${downloaded} screenshot(s) to ${runDir}`);
+}
+
+// Points the tests at an earlier run's screenshots ("latest" = the most recent run of each email).
+function replayTask(task: EmailTask, runId: string): void {
+  const runIds = listRunIds(task.sanitizedTaskName);
+  const selectedRunId = runId === 'latest' ? runIds[runIds.length - 1] : runId;
+  const manifestFile = selectedRunId && resolve(getRunDir(task.sanitizedTaskName, selectedRunId), RUN_MANIFEST_NAME);
+  const GENERATED_URLS_FILE = getGeneratedPreviewFile(task.sanitizedTaskName);
+
+  if (!manifestFile || !existsSync(manifestFile)) {
+    if (existsSync(GENERATED_URLS_FILE)) unlinkSync(GENERATED_URLS_FILE);
+    console.warn(
+      `[${task.taskName}] WARNING: No saved run "${runId}". Available: ${runIds.join(', ') || 'none'}`
+    );
     return;
   }
 
-  console.log('--- Global Setup Finished ---');
+  writeFileSync(GENERATED_URLS_FILE, readFileSync(manifestFile));
+  console.log(`[${task.taskName}] Replaying run ${selectedRunId} (${manifestFile})`);
+}
+
+// Saves the email from the configured source (or the task's .eml / template) as the task's HTML (+ .meta.json).
+async function fetchEmailFromSource(task: EmailTask): Promise<void> {
+  const source = getEmailSource(task);
+  console.log(`[${task.taskName}] Fetching email from ${source.description}...`);
+  const metadata = saveFetchedEmail(task.htmlFile, await source.fetchEmail());
+  console.log(`[${task.taskName}] Saved ${task.htmlFile}${metadata.subject ? ` (subject: "${metadata.subject}")` : ''}`);
 }
 
-function getDesiredApiClients() {
-  if (!existsSync(DEFAULT_CLIENTS_FILE)) {
-    throw new Error(`Missing default clients config: ${DEFAULT_CLIENTS_FILE}`);
+// Lints the HTML and throws when a finding reaches the email's failOn severity.
+function lintHtml(taskName: string, sourceFile: string, htmlContent: string, serviceToUse: string): LintFinding[] {
+  const report = lintEmailHtml(htmlContent, loadEmailConfig(sourceFile).lint);
+  formatLintReport(report, serviceToUse).forEach(line => console.log(`[${taskName}] ${line}`));
+  if (report.failed) {
+    throw new Error(
+      `HTML lint found ${report.failOn}-level problems; fix them, lower their severity in the email config, or set SKIP_LINT=true.`
+    );
   }
-  const clientsConfigString = readFileSync(DEFAULT_CLIENTS_FILE, 'utf-8');
-  const clientsConfig = JSON.parse(clientsConfigString);
-  return Object.values(clientsConfig).map((client: any) => client.id);
+  return report.findings;
 }
 
-function getServiceCredentials() {
-  const serviceToUse = process.env.EMAIL_PREVIEW_SERVICE?.toLowerCase();
-  const apiKey = process.env[`${serviceToUse?.toUpperCase()}_API_KEY`];
-  const accountPassword = process.env.EMAILONACID_ACCOUNT_PASSWORD;
+// The provider's catalog, narrowed to the email's client profile and client set (retired clients left out).
+function getDesiredApiClients(serviceToUse: string, settings: TaskSettings) {
+  return selectRunClients(loadClientCatalog(serviceToUse), settings).map(client => client.id);
+}
 
-  if (!serviceToUse || !apiKey || !accountPassword) {
+// Usual console output, plus each captured client saved to the job state the moment it arrives.
+function createJobListener(sanitizedTaskName: string, state: JobState): PollListener {
+  const log = createConsoleListener(getRunConfig().polling.debug === true);
+  return event => {
+    log(event);
+    if (event.type === 'client' && event.result?.status === 'complete') {
+      recordCollectedClient(sanitizedTaskName, state, event.result);
+    }
+  };
+}
+
+// Rejects client IDs the provider no longer offers before a test is created (and paid for);
+// the provider would otherwise drop them silently or fail the whole submission.
+async function checkSupportedClients(context: SetupContext, clients: string[]): Promise<void> {
+  const supported = await context.getSupportedClients();
+  if (!supported) return;
+  const offered = new Set(supported.map(client => client.id));
+  const unknown = clients.filter(id => !offered.has(id));
+  if (unknown.length > 0) {
     throw new Error(
-      'Missing EMAIL_PREVIEW_SERVICE, its API key, or EMAILONACID_ACCOUNT_PASSWORD.'
+      `${context.serviceLabel} does not offer ${unknown.join(', ')}. Run "email-visual-tester clients sync --write" to mark them retired in the catalog.`
     );
   }
-  return { serviceToUse, apiKey, accountPassword };
+}
+
+// Reuse an already-created provider test instead of uploading the HTML again
+// (existingTestId, or EXISTING_EOA_TEST_ID / EXISTING_LITMUS_EMAIL_GUID / EXISTING_LOCAL_RENDER_ID).
+// In batch mode only a test ID given for this particular email counts.
+function getExistingTestId(config: RunConfig, settings: TaskSettings): string {
+  if (isBatchMode() && settings.existingTestId === config.existingTestId) return '';
+  return settings.existingTestId || '';
+}
+
+// One line on where the settings came from; `email-visual-tester config show` prints them all.
+function describeRunConfig(config: RunConfig): string {
+  const overrides = Object.values(config.sources)
+    .filter(source => source.layer !== 'file')
+    .map(source => source.name);
+  const file = config.file ? basename(config.file) : 'no config file';
+  return `Run config: ${file}${overrides.length > 0 ? ` + ${overrides.join(', ')}` : ''}`;
+}
+
+// Flattens a ClientResult into the entry the blueprint test reads.
+function toGeneratedPreview(result: ClientResult): GeneratedPreview {
+  const { clientId, status, reason, screenshots, timing } = result;
+  return {
+    name: formatPreviewName(clientId),
+    url: getPrimaryScreenshot(result),
+    client: clientId,
+    status,
+    ...(reason ? { reason } : {}),
+    screenshots,
+    timing,
+  };
 }
 
 function archiveGeneratedUrls(
   sanitizedTaskName: string,
   verboseTimestamp: string,
-  generatedPreviews: GeneratedPreview[]
-) {
-  const archiveFileName = `generated-preview-urls-${sanitizedTaskName}-${verboseTimestamp}.json`;
-  const archiveFilePath = resolve(ARCHIVE_DIR, archiveFileName);
-  writeFileSync(archiveFilePath, JSON.stringify(generatedPreviews, null, 2));
+  previewFile: GeneratedPreviewFile
+): string {
+  // The run-history reporter adds the test results to this file when the tests end.
+  const archiveFilePath = getArchiveFile(sanitizedTaskName, verboseTimestamp);
+  writeFileSync(archiveFilePath, JSON.stringify(previewFile, null, 2));
   console.log(`Archived: ${archiveFilePath}`);
+  return archiveFilePath;
 }
 
-function handleError(error: any) {
-  console.error('Setup error:', error.message);
+function handleError(error: any, taskName: string): never {
+  console.error(`[${taskName}] Setup error:`, error.message);
   if (axios.isAxiosError(error) && error.response) {
     console.error('API response:', JSON.stringify(error.response.data, null, 2));
   }
-  // Intentionally throw so Playwright marks setup as failed (tests will skip gracefully)
+  // Intentionally throw so this email is marked failed (setup aborts if every email failed)
   throw new Error(`Preview generation failed: ${error.message}`);
 }
 
@@ -1,35 +1,39 @@
 // src/interfaces/i-email-preview-service.ts
+import { ClientResult, InjectOptions, PreviewJob, SupportedClient } from './preview-job';
+import { PreviewResultsOptions } from './polling';
+
 export interface IEmailPreviewService {
   /**
-   * Injects email HTML content into the service and returns a response
-   * containing information about the preview generation process.
-   * The exact content of the response will depend on the service.
+   * Injects email HTML content into the service and creates a preview job.
    * @param htmlContent The HTML content of the email.
    * @param subject Optional subject for the email preview.
-   * @param options Optional additional service-specific options.
-   * @returns A promise that resolves to a service-specific response object.
+   * @param options Optional client list and additional service-specific options.
+   * @returns A promise that resolves to the created job.
    */
   injectHtml(
     htmlContent: string,
     subject?: string,
-    options?: Record<string, any>
-  ): Promise<any>;
+    options?: InjectOptions
+  ): Promise<PreviewJob>;
 
   /**
-   * Retrieves a dictionary of preview URLs for specified email clients
-   * based on the injection response.
-   * @param injectionResponse The response object obtained from `injectHtml`.
+   * Waits for the job to finish and returns one result per requested client,
+   * including clients that failed, bounced, timed out or are unsupported.
+   * @param job The job returned by `injectHtml` (or rebuilt from an existing test ID).
    * @param emailClients A list of email client identifiers (e.g., 'gmail', 'outlook').
-   * @returns A promise that resolves to a dictionary where keys are client names and values are their preview URLs.
+   * @param options Optional abort signal, progress listener and polling policy overrides.
+   * @returns A promise that resolves to the results, in the order the clients were requested.
    */
-  getPreviewUrls(
-    injectionResponse: any,
-    emailClients: string[]
-  ): Promise<Record<string, string>>;
+  getPreviewResults(
+    job: PreviewJob,
+    emailClients: string[],
+    options?: PreviewResultsOptions
+  ): Promise<ClientResult[]>;
 
   /**
-   * Returns a list of email clients supported by the service.
-   * @returns A promise that resolves to a list of supported email client identifiers.
+   * Returns the email clients the service can render right now (free, no test is created).
+   * Rejects when the list cannot be fetched, so callers never mistake an outage for "no clients".
+   * @returns A promise that resolves to the supported clients, with details when the provider has them.
    */
-  getSupportedClients(): Promise<string[]>;
-}
\ No newline at end of file
+  getSupportedClients(): Promise<SupportedClient[]>;
+}
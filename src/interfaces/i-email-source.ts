@@ -0,0 +1,47 @@
+// src/interfaces/i-email-source.ts
+// Where a run gets its email HTML from: a local file, a raw .eml message, a rendered template, or a
+// message fetched from a mailbox.
+
+/**
+ * An email as delivered by a source, ready to be saved as emails/<task>.html.
+ */
+export interface FetchedEmail {
+  html: string;
+  /** Subject header, when the source has one. */
+  subject?: string;
+  /** Message headers by name (last value wins for repeated headers). */
+  headers: Record<string, string>;
+  /** ISO timestamp from the Date header (or the mailbox's received time). */
+  receivedAt?: string;
+  /** Where the email came from, e.g. { type: 'gmail', messageId: '18c...' }. */
+  origin: EmailOrigin;
+}
+
+/**
+ * Identifies the message a FetchedEmail was read from.
+ */
+export interface EmailOrigin {
+  type: 'file' | 'eml' | 'template' | 'gmail';
+  /** Source file, for file, .eml and template sources. */
+  file?: string;
+  /** Message ID: the mailbox's ID for mailbox sources, the Message-ID header for .eml files. */
+  messageId?: string;
+  /** Data fixture the template was rendered with. */
+  fixture?: string;
+  /** Search query used to find the message, when it was not fetched by ID. */
+  query?: string;
+}
+
+export interface IEmailSource {
+  /**
+   * Short description for logs, e.g. 'Gmail query "subject:Welcome"'.
+   */
+  readonly description: string;
+
+  /**
+   * Reads the email.
+   * @returns A promise that resolves to the email's HTML and metadata.
+   * @throws When the message does not exist or has no HTML part.
+   */
+  fetchEmail(): Promise<FetchedEmail>;
+}
@@ -0,0 +1,64 @@
+// src/interfaces/polling.ts
+// Shared polling model: how long and how often services wait for a provider,
+// and the progress events they report while doing so (instead of writing to the console).
+
+import { ClientResult, ClientStatus } from './preview-job';
+
+/**
+ * Timing rules for one polling loop. All durations are in milliseconds.
+ */
+export interface PollingPolicy {
+  /** Delay before the second attempt. */
+  initialDelayMs: number;
+  /** Upper bound for the delay between attempts. */
+  maxDelayMs: number;
+  /** Each delay is the previous one times this factor (1 = fixed interval). */
+  backoffFactor: number;
+  /** Random spread applied to each delay, 0..1 (0.2 = +/-20%). */
+  jitter: number;
+  /** Total wall-clock time allowed for the loop, retries and waits included. */
+  deadlineMs: number;
+  /** Optional cap on the number of attempts (on top of the deadline). */
+  maxAttempts?: number;
+  /** Timeout for a single HTTP request. */
+  requestTimeoutMs: number;
+  /** Retries of one request after HTTP 429/5xx or a network error, before the attempt counts as failed. */
+  maxRequestRetries: number;
+}
+
+/**
+ * Why a polling loop ended.
+ * - done: every client reached a final state.
+ * - deadline: the wall-clock deadline passed.
+ * - max-attempts: the attempt cap was reached.
+ */
+export type PollStopReason = 'done' | 'deadline' | 'max-attempts';
+
+/**
+ * Structured progress reported by services while polling.
+ * A 'client' event with status 'complete' carries the client's result (screenshot URLs included),
+ * so callers can keep what was captured before polling ends.
+ */
+export type PollEvent =
+  | { type: 'start'; provider: string; testId: string; clients: number; policy: PollingPolicy }
+  | { type: 'attempt'; provider: string; attempt: number; elapsedMs: number }
+  | { type: 'client'; provider: string; clientId: string; status: ClientStatus | 'pending'; detail?: string; result?: ClientResult }
+  | { type: 'progress'; provider: string; attempt: number; completed: number; total: number; pending: string[] }
+  | { type: 'retry'; provider: string; request: string; retry: number; delayMs: number; status?: number; reason: string }
+  | { type: 'attempt-failed'; provider: string; request: string; reason: string }
+  | { type: 'wait'; provider: string; attempt: number; delayMs: number }
+  | { type: 'stop'; provider: string; reason: PollStopReason; attempts: number; elapsedMs: number };
+
+export type PollListener = (event: PollEvent) => void;
+
+/**
+ * Optional controls for `getPreviewResults`.
+ */
+export interface PreviewResultsOptions {
+  /** Aborting stops polling (and pending waits) and rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Receives progress events. Defaults to a console logger. */
+  onProgress?: PollListener;
+  /** Overrides parts of the service's polling policy (defaults come from the run config). */
+  policy?: Partial<PollingPolicy>;
+}
@@ -0,0 +1,76 @@
+// src/interfaces/preview-job.ts
+// Shared result model returned by every preview service, so setup, tests and reports
+// can see *why* a client has no screenshot instead of it silently disappearing.
+
+/**
+ * Final state of one client in a preview job.
+ * - complete: screenshot(s) available.
+ * - failed: the provider tried and could not render the client.
+ * - bounced: the provider's seed inbox bounced the email.
+ * - timeout: the client was still pending when polling gave up.
+ * - unsupported: the provider does not know or rejected the client ID.
+ */
+export type ClientStatus = 'complete' | 'failed' | 'bounced' | 'timeout' | 'unsupported';
+
+/**
+ * Options accepted by `injectHtml`.
+ * `clients` is understood by every service; anything else is passed to the provider as-is.
+ */
+export interface InjectOptions {
+  clients?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * A test created (or reused) at a preview provider.
+ */
+export interface PreviewJob {
+  /** Service key, e.g. 'emailonacid', 'litmus', 'local'. */
+  provider: string;
+  /** Provider-side identifier (EOA test ID, Litmus email GUID, local render ID). */
+  testId: string;
+  /** Subject sent with the HTML, when this run created the job. */
+  subject?: string;
+  /** ISO timestamp of the upload, when this run created the job. */
+  submittedAt?: string;
+  /** Unmodified provider response to the upload. */
+  raw?: unknown;
+}
+
+/**
+ * A client the provider can currently render, as listed by `getSupportedClients`.
+ * Details are filled in when the provider returns them (Email on Acid does, Litmus only lists IDs).
+ */
+export interface SupportedClient {
+  id: string;
+  client?: string;
+  os?: string;
+  category?: string;
+  browser?: string;
+}
+
+/**
+ * Timing of one client within a job, as observed by us while polling.
+ */
+export interface ClientTiming {
+  /** ISO timestamp when we started waiting for this client. */
+  requestedAt: string;
+  /** ISO timestamp when the client reached its final status. */
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+/**
+ * Outcome for one requested client.
+ */
+export interface ClientResult {
+  clientId: string;
+  status: ClientStatus;
+  /** Every screenshot variant the provider returned, keyed by variant name ('default' is the main one). */
+  screenshots: Record<string, string>;
+  /** Human-readable explanation when there is no screenshot. */
+  reason?: string;
+  timing: ClientTiming;
+  /** Unmodified provider payload for this client (last one seen). */
+  raw?: unknown;
+}
@@ -0,0 +1,87 @@
+// PURPOSE: Playwright reporter that writes machine-readable results when the run ends, for CI
+// dashboards and ticket automation. Registered in playwright.config.ts:
+//   ['./src/reporters/results-reporter.ts', { junitFile: 'reports/results.xml', jsonFile: 'reports/results.json' }]
+// Every client test becomes one entry with task, client ID and catalog name, diff ratio, baseline
+// path, provider test ID/status and timing (see src/utils/run-summary.ts for the format).
+
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ClientRunResult, stripAnsi, toClientRunResult } from '../utils/last-run';
+import { REPORTS_DIR, ROOT_DIR } from '../utils/email-tasks';
+import { buildRunSummary, CheckSummary, toJUnitXml } from '../utils/run-summary';
+
+export interface ResultsReporterOptions {
+  /** Default <reports>/results.xml (run config "paths.reports"); set to '' to skip. */
+  junitFile?: string;
+  /** Default <reports>/results.json; set to '' to skip. */
+  jsonFile?: string;
+}
+
+class ResultsReporter implements Reporter {
+  private readonly junitFile?: string;
+  private readonly jsonFile?: string;
+  // Keyed by test ID: with retries, only the last attempt counts.
+  private readonly clients = new Map<string, ClientRunResult>();
+  private readonly checks = new Map<string, CheckSummary>();
+
+  constructor(options: ResultsReporterOptions = {}) {
+    const junitFile = options.junitFile ?? resolve(REPORTS_DIR, 'results.xml');
+    const jsonFile = options.jsonFile ?? resolve(REPORTS_DIR, 'results.json');
+    this.junitFile = junitFile ? resolve(ROOT_DIR, junitFile) : undefined;
+    this.jsonFile = jsonFile ? resolve(ROOT_DIR, jsonFile) : undefined;
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const project = test.parent.project()?.name || '';
+    const clientResult = toClientRunResult({
+      project,
+      title: test.title,
+      status: result.status,
+      durationMs: result.duration,
+      annotations: [...test.annotations, ...result.annotations],
+      attachments: result.attachments,
+      errors: result.errors,
+    });
+    if (clientResult) {
+      this.clients.set(test.id, clientResult);
+      return;
+    }
+
+    // SECONDARY: Tests that are not about one client (dark-mode pairs) are listed as checks.
+    const firstError = result.errors.find(error => error.message)?.message;
+    this.checks.set(test.id, {
+      project,
+      title: test.title,
+      status: result.status,
+      durationMs: result.duration,
+      ...(firstError ? { error: stripAnsi(firstError) } : {}),
+    });
+  }
+
+  onEnd(): void {
+    if (this.clients.size === 0 && this.checks.size === 0) return;
+    const summary = buildRunSummary([...this.clients.values()], [...this.checks.values()]);
+
+    const outputs: [string | undefined, () => string][] = [
+      [this.jsonFile, () => `${JSON.stringify(summary, null, 2)}\n`],
+      [this.junitFile, () => toJUnitXml(summary)],
+    ];
+    for (const [file, render] of outputs) {
+      if (!file) continue;
+      try {
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(file, render());
+        console.log(`📊 Results: ${file}`);
+      } catch (error: any) {
+        console.error(`❌ Could not write ${file}: ${error.message}`);
+      }
+    }
+  }
+}
+
+export default ResultsReporter;
@@ -0,0 +1,56 @@
+// PURPOSE: Playwright reporter that completes the run history: when the tests end, each client's
+// outcome and diff ratio are added to the archive global setup wrote for the run
+// (temp/archives/generated-preview-urls-<task>-<runId>.json). Registered in playwright.config.ts:
+//   ['./src/reporters/run-history-reporter.ts']
+// Inspect the history with src/cli/run-history.ts.
+
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { relative } from 'path';
+import { ClientRunResult, toClientRunResult } from '../utils/last-run';
+import { ROOT_DIR } from '../utils/email-tasks';
+import { recordRunResults } from '../utils/run-history';
+
+class RunHistoryReporter implements Reporter {
+  // Keyed by test ID: with retries, only the last attempt counts.
+  private readonly results = new Map<string, ClientRunResult>();
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const clientResult = toClientRunResult({
+      project: test.parent.project()?.name || '',
+      title: test.title,
+      status: result.status,
+      durationMs: result.duration,
+      annotations: [...test.annotations, ...result.annotations],
+      attachments: result.attachments,
+    });
+    if (clientResult?.annotations.runId) this.results.set(test.id, clientResult);
+  }
+
+  onEnd(): void {
+    // A replay re-compares an archived run; its outcome is not a new run of the email.
+    if (process.env.REPLAY_RUN?.trim() || this.results.size === 0) return;
+
+    const runs = new Map<string, ClientRunResult[]>();
+    for (const result of this.results.values()) {
+      const key = `${result.project}\n${result.annotations.runId}`;
+      runs.set(key, [...(runs.get(key) || []), result]);
+    }
+
+    for (const [key, results] of runs) {
+      const [project, runId] = key.split('\n');
+      try {
+        const file = recordRunResults(project, runId, results);
+        if (file) console.log(`📊 Run history: ${relative(ROOT_DIR, file)}`);
+        else console.warn(`⚠️ No archive for run ${runId} of "${project}"; outcomes not recorded.`);
+      } catch (error: any) {
+        console.error(`❌ Could not update the run history of "${project}": ${error.message}`);
+      }
+    }
+  }
+}
+
+export default RunHistoryReporter;
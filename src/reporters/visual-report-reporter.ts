@@ -0,0 +1,51 @@
+// PURPOSE: Playwright reporter that writes the cross-client visual report (reports/visual-report.html)
+// when the run ends. Registered in playwright.config.ts next to the HTML and JSON reporters:
+//   ['./src/reporters/visual-report-reporter.ts', { outputFile: 'reports/visual-report.html' }]
+// The same report can be rebuilt later from test-results/last-run.json with src/cli/visual-report.ts.
+
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { resolve } from 'path';
+import { ClientRunResult, toClientRunResult } from '../utils/last-run';
+import { ROOT_DIR } from '../utils/email-tasks';
+import { VisualReportOptions, writeVisualReport } from '../utils/visual-report';
+
+class VisualReportReporter implements Reporter {
+  private readonly options: VisualReportOptions;
+  // Keyed by test ID: with retries, only the last attempt counts.
+  private readonly results = new Map<string, ClientRunResult>();
+
+  constructor(options: VisualReportOptions = {}) {
+    this.options = {
+      ...options,
+      ...(options.outputFile ? { outputFile: resolve(ROOT_DIR, options.outputFile) } : {}),
+    };
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const clientResult = toClientRunResult({
+      project: test.parent.project()?.name || '',
+      title: test.title,
+      status: result.status,
+      durationMs: result.duration,
+      annotations: [...test.annotations, ...result.annotations],
+      attachments: result.attachments,
+    });
+    if (clientResult) this.results.set(test.id, clientResult);
+  }
+
+  onEnd(): void {
+    if (this.results.size === 0) return;
+    try {
+      const outputFile = writeVisualReport([...this.results.values()], this.options);
+      console.log(`📊 Visual report: ${outputFile}`);
+    } catch (error: any) {
+      console.error(`❌ Could not write the visual report: ${error.message}`);
+    }
+  }
+}
+
+export default VisualReportReporter;
@@ -1,15 +1,50 @@
 // PURPOSE: Talks to the "Email on Acid" service to:
 // 1) Upload email HTML and start a preview test.
-// 2) Poll for screenshot URLs for specified clients.
+// 2) Poll for screenshot URLs (and failure reasons) for specified clients.
 
 import axios from 'axios';
 import { IEmailPreviewService } from '../interfaces/i-email-preview-service';
+import { ClientResult, InjectOptions, PreviewJob, SupportedClient } from '../interfaces/preview-job';
+import { PollingPolicy, PreviewResultsOptions } from '../interfaces/polling';
+import { createClientResult, logResultSummary } from '../utils/client-results';
+import {
+  PollContext,
+  PollOutcome,
+  createPollContext,
+  getPollingPolicy,
+  isRetryableError,
+  poll,
+  requestWithRetry,
+} from '../utils/poller';
+import { getRunConfig } from '../utils/run-config';
 
 // Builds the Basic Authorization header (API key + password).
 function createAuthHeader(apiKey: string, password: string): string {
   return `Basic ${Buffer.from(`${apiKey}:${password}`).toString('base64')}`;
 }
 
+// Client statuses after which EOA will not change its mind.
+const FINAL_STATUSES = ['Complete', 'Failed', 'Bounced'];
+
+// Default polling: every 10s at first, slowing down to once a minute, for at most 15 minutes.
+const DEFAULT_POLICY: PollingPolicy = {
+  initialDelayMs: 10_000,
+  maxDelayMs: 60_000,
+  backoffFactor: 1.5,
+  jitter: 0.2,
+  deadlineMs: 15 * 60_000,
+  requestTimeoutMs: 30_000,
+  maxRequestRetries: 3,
+};
+
+// How long (since polling started) to wait for clients EOA has not listed yet, and for
+// screenshot URLs of clients already marked Complete, once everything else is final.
+const MISSING_CLIENT_GRACE_MS = 100_000;
+const MISSING_SCREENSHOT_GRACE_MS = 150_000;
+
+// EOA answers 404 on a test's results until the first ones are published.
+const RESULTS_NOT_READY_STATUS = 404;
+
 export class EmailOnAcidService implements IEmailPreviewService {
   private readonly apiKey: string;
   private readonly password: string;
@@ -27,8 +62,8 @@ export class EmailOnAcidService implements IEmailPreviewService {
   async injectHtml(
     htmlContent: string,
     subject?: string,
-    options?: Record<string, any>
-  ): Promise<{ test_id: string }> {
+    options?: InjectOptions
+  ): Promise<PreviewJob> {
     const headers = {
       Authorization: createAuthHeader(this.apiKey, this.password),
       'Content-Type': 'application/json',
@@ -36,8 +71,9 @@ export class EmailOnAcidService implements IEmailPreviewService {
     };
 
     // The payload includes subject, raw HTML, and the list of clients if provided.
+    const emailSubject = subject || `Email Test - ${new Date().toLocaleString('en-US', { timeZone: 'America/Argentina/Buenos_Aires' })}`;
     const payload = {
-      subject: subject || `Email Test - ${new Date().toLocaleString('en-US', { timeZone: 'America/Argentina/Buenos_Aires' })}`,
+      subject: emailSubject,
       html: htmlContent,
       ...(options?.clients ? { clients: options.clients } : {}),
       ...options,
@@ -52,7 +88,13 @@ export class EmailOnAcidService implements IEmailPreviewService {
       }
       
       console.log(`✅ Test created. ID: ${response.data.id}`);
-      return { test_id: response.data.id };
+      return {
+        provider: 'emailonacid',
+        testId: response.data.id,
+        subject: emailSubject,
+        submittedAt: new Date().toISOString(),
+        raw: response.data,
+      };
     } catch (error: any) {
       console.error('❌ Upload failed:', error.message);
       if (axios.isAxiosError(error) && error.response) {
@@ -63,287 +105,277 @@ export class EmailOnAcidService implements IEmailPreviewService {
   }
 
   // STEP 2: Poll the API until screenshots are ready for requested clients.
-  async getPreviewUrls(
-    injectionResponse: { test_id: string },
-    emailClients: string[]
-  ): Promise<Record<string, string>> {
-    const testId = injectionResponse.test_id;
+  async getPreviewResults(
+    job: PreviewJob,
+    emailClients: string[],
+    options: PreviewResultsOptions = {}
+  ): Promise<ClientResult[]> {
+    const testId = job.testId;
     if (!testId) throw new Error('Missing test ID');
 
-    // Polling behavior can be tuned with environment variables.
-    const maxAttempts = Number(process.env.EOA_MAX_ATTEMPTS || 60);
-    const waitSeconds = Number(process.env.EOA_WAIT_SECONDS || 10);
-    const showDebug = process.env.EOA_DEBUG === 'true';
+    // Polling behavior comes from the run config's "polling" settings or EOA_* env vars (see getPollingPolicy).
+    const policy = { ...getPollingPolicy(DEFAULT_POLICY), ...options.policy };
+    const context = createPollContext('emailonacid', policy, options, getRunConfig().polling.debug === true);
+    context.emit({ type: 'start', provider: 'emailonacid', testId, clients: emailClients.length, policy });
 
-    console.log(`\n⏳ Gathering ${emailClients.length} screenshot(s)...`);
-    console.log(`   Checking every ${waitSeconds}s (up to ${maxAttempts} times)\n`);
+    const requestedAt = new Date();
+    // Clients that reached a final status, keyed by client ID.
+    const collected: Record<string, ClientResult> = {};
+    // Last payload seen per client, kept for clients that never finish.
+    const lastSeen: Record<string, any> = {};
 
-    const capturedUrls: Record<string, string> = {};
+    const outcome = await poll(context, async attempt => {
+      const results = await this.fetchResults(testId, context);
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      const results = await this.fetchResults(testId, waitSeconds, showDebug);
-      
-      // If API call failed transiently, wait and retry.
-      if (!results) {
-        await this.wait(waitSeconds, attempt, maxAttempts);
-        continue;
-      }
+      // Nothing usable this time (results not published yet, or the API kept failing): try again later.
+      if (!results) return false;
 
-      const clientsInResults = this.processClientResults(
-        results,
-        emailClients,
-        capturedUrls,
-        showDebug
-      );
+      this.processClientResults(results, emailClients, collected, lastSeen, requestedAt, context);
 
       // Decide if it's time to stop polling early.
-      const shouldExit = this.checkIfShouldExit(
-        emailClients,
-        results,
-        capturedUrls,
-        clientsInResults,
-        attempt,
-        showDebug
-      );
-
-      if (shouldExit) {
-        console.log('\n✅ Finished collecting available screenshots.');
-        break;
+      if (this.checkIfShouldExit(emailClients, results, collected, Date.now() - context.startedAt)) {
+        return true;
       }
 
-      this.showProgress(emailClients, results, capturedUrls, attempt, showDebug);
-      await this.wait(waitSeconds, attempt, maxAttempts);
-    }
+      this.reportProgress(emailClients, results, collected, attempt, context);
+      return false;
+    });
 
-    // Return only successful screenshot URLs.
-    return this.buildFinalResults(emailClients, capturedUrls);
+    // One result per requested client, including the ones without screenshots.
+    return this.buildFinalResults(emailClients, collected, lastSeen, requestedAt, outcome);
   }
 
-  // INTERNAL: Fetch current status of the test from the API.
-  private async fetchResults(
-    testId: string,
-    timeoutSeconds: number,
-    showDebug: boolean
-  ): Promise<Record<string, any> | null> {
-    if (showDebug) {
-      console.log(`\n  📊 Polling test (ID: ${testId})`);
-    }
+  // INTERNAL: Fetch current status of the test from the API. 429/5xx and network errors are
+  // retried (see requestWithRetry); if they persist the attempt is skipped. Any other error is fatal.
+  private async fetchResults(testId: string, context: PollContext): Promise<Record<string, any> | null> {
+    const headers = {
+      Authorization: createAuthHeader(this.apiKey, this.password),
+      Accept: 'application/json',
+    };
 
     try {
-      const headers = {
-        Authorization: createAuthHeader(this.apiKey, this.password),
-        Accept: 'application/json',
-      };
-
-      const response = await axios.get(
-        `${this.baseUrl}/v5/email/tests/${testId}/results`,
-        { headers, timeout: timeoutSeconds * 1000 * 0.9 }
+      const response = await requestWithRetry(context, 'results', timeout =>
+        axios.get(`${this.baseUrl}/v5/email/tests/${testId}/results`, {
+          headers,
+          timeout,
+          signal: context.signal,
+        })
       );
-
       return response.data || {};
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        if (status === 401) {
-          throw new Error('Authentication failed - check your API credentials');
-        }
-        if (showDebug && status !== 404) {
-          console.log(`   ⚠️ API error ${status}, will retry...`);
-        }
+      if (!axios.isAxiosError(error) || context.signal?.aborted) throw error;
+
+      const status = error.response?.status;
+      if (status === 401) {
+        throw new Error('Authentication failed - check your API credentials');
       }
-      return null;
+      // EOA answers 404 until a freshly created test has results.
+      if (status === RESULTS_NOT_READY_STATUS || isRetryableError(error)) {
+        context.emit({
+          type: 'attempt-failed',
+          provider: 'emailonacid',
+          request: 'results',
+          reason: status ? `HTTP ${status}` : error.code || error.message,
+        });
+        return null;
+      }
+      throw new Error(`Email on Acid results request failed (HTTP ${status}): ${error.message}`);
     }
   }
 
-  // INTERNAL: Examine each client’s status and store URLs if ready.
+  // INTERNAL: Examine each client’s status and record it once it is final.
   private processClientResults(
     results: Record<string, any>,
     requestedClients: string[],
-    capturedUrls: Record<string, string>,
-    showDebug: boolean
-  ): string[] {
+    collected: Record<string, ClientResult>,
+    lastSeen: Record<string, any>,
+    requestedAt: Date,
+    context: PollContext
+  ): void {
     const clientsToCheck = requestedClients.length > 0 ? requestedClients : Object.keys(results);
-    const clientsFound: string[] = [];
 
     for (const clientId of clientsToCheck) {
       const client = results[clientId];
 
       if (!client) {
-        if (showDebug) console.log(`   ⏳ ${clientId} - not ready yet`);
+        context.emit({ type: 'client', provider: 'emailonacid', clientId, status: 'pending' });
         continue;
       }
 
-      clientsFound.push(clientId);
+      lastSeen[clientId] = client;
       const status = client.status;
 
       if (status === 'Complete') {
-        this.handleCompleteClient(clientId, client, capturedUrls, showDebug);
+        this.handleCompleteClient(clientId, client, collected, requestedAt, context);
       } else if (status === 'Failed' || status === 'Bounced') {
-        this.handleFailedClient(clientId, status, capturedUrls);
-      } else if (showDebug) {
-        console.log(`   ⏳ ${clientId} - ${status}`);
+        this.handleFailedClient(clientId, client, collected, requestedAt, context);
+      } else {
+        context.emit({ type: 'client', provider: 'emailonacid', clientId, status: 'pending', detail: status });
       }
     }
-
-    return clientsFound;
   }
 
-  // INTERNAL: When a client finishes successfully, capture its screenshot URL.
+  // INTERNAL: When a client finishes successfully, capture all its screenshot variants.
   private handleCompleteClient(
     clientId: string,
     client: any,
-    capturedUrls: Record<string, string>,
-    showDebug: boolean
+    collected: Record<string, ClientResult>,
+    requestedAt: Date,
+    context: PollContext
   ): void {
     const screenshotUrl = client.screenshots?.default;
 
     if (screenshotUrl && typeof screenshotUrl === 'string') {
-      if (!capturedUrls[clientId]) {
-        capturedUrls[clientId] = screenshotUrl;
-        console.log(`   ✅ ${clientId}`);
+      if (!collected[clientId]) {
+        collected[clientId] = createClientResult(clientId, 'complete', requestedAt, {
+          screenshots: this.extractScreenshots(client.screenshots),
+          raw: client,
+        });
+        context.emit({ type: 'client', provider: 'emailonacid', clientId, status: 'complete', result: collected[clientId] });
       }
-    } else if (showDebug) {
-      console.log(`   ⚠️ ${clientId} - Complete but screenshot not ready`);
+    } else {
+      context.emit({
+        type: 'client',
+        provider: 'emailonacid',
+        clientId,
+        status: 'pending',
+        detail: 'Complete but screenshot not ready',
+      });
     }
   }
 
-  // INTERNAL: Mark failed or bounced clients (so we don’t wait forever).
+  // INTERNAL: Mark failed or bounced clients (so we don’t wait forever), keeping EOA's reason.
   private handleFailedClient(
     clientId: string,
-    status: string,
-    capturedUrls: Record<string, string>
+    client: any,
+    collected: Record<string, ClientResult>,
+    requestedAt: Date,
+    context: PollContext
   ): void {
-    if (!capturedUrls[clientId]) {
-      console.log(`   ❌ ${clientId} - ${status}`);
-      capturedUrls[clientId] = ''; // Empty signals a failure
+    if (!collected[clientId]) {
+      const status = client.status === 'Bounced' ? 'bounced' : 'failed';
+      const details = client.status_details || {};
+      const reason =
+        details.bounce_message ||
+        (details.bounce_code ? `Bounce code ${details.bounce_code}` : `Email on Acid reported "${client.status}"`);
+
+      context.emit({ type: 'client', provider: 'emailonacid', clientId, status, detail: client.status });
+      collected[clientId] = createClientResult(clientId, status, requestedAt, { reason, raw: client });
     }
   }
 
-  // INTERNAL: Decide if polling loop should stop.
+  // INTERNAL: Keep only string URLs from EOA's screenshots object (default, no_images, ...).
+  private extractScreenshots(screenshots: Record<string, unknown>): Record<string, string> {
+    const variants: Record<string, string> = {};
+    for (const [variant, url] of Object.entries(screenshots || {})) {
+      if (url && typeof url === 'string') variants[variant] = url;
+    }
+    return variants;
+  }
+
+  // INTERNAL: Decide if polling loop should stop. EOA lists clients gradually and sometimes
+  // marks a client Complete before its screenshot URL exists, so both get a grace period.
   private checkIfShouldExit(
     requestedClients: string[],
     results: Record<string, any>,
-    capturedUrls: Record<string, string>,
-    clientsInResults: string[],
-    attempt: number,
-    showDebug: boolean
+    collected: Record<string, ClientResult>,
+    elapsedMs: number
   ): boolean {
     if (Object.keys(results).length === 0) return false;
 
     const clientsToCheck = requestedClients.length > 0 ? requestedClients : Object.keys(results);
     const appearedClients = clientsToCheck.filter(id => results[id]);
 
-    const finishedClients = appearedClients.filter(id => {
-      const status = results[id]?.status;
-      return status === 'Complete' || status === 'Failed' || status === 'Bounced';
-    });
+    const finishedClients = appearedClients.filter(id => FINAL_STATUSES.includes(results[id]?.status));
 
     const allFinished = finishedClients.length === appearedClients.length;
     const allRequestedAppeared = appearedClients.length === clientsToCheck.length;
-    const waitedLongEnough = attempt >= 10;
+    const waitedLongEnough = elapsedMs >= MISSING_CLIENT_GRACE_MS;
 
     if (!allFinished) return false;
     if (!allRequestedAppeared && !waitedLongEnough) return false;
 
     const completeClients = appearedClients.filter(id => results[id].status === 'Complete');
-    const completeWithUrls = completeClients.filter(id => capturedUrls[id] && capturedUrls[id] !== '');
+    const completeWithUrls = completeClients.filter(id => collected[id]?.status === 'complete');
     const allCompleteHaveUrls = completeWithUrls.length === completeClients.length;
-    const triedEnoughForScreenshots = attempt >= 15;
-
-    if (allCompleteHaveUrls || triedEnoughForScreenshots) return true;
-
-    if (showDebug) {
-      const waiting = completeClients.length - completeWithUrls.length;
-      console.log(`   Waiting for ${waiting} screenshot URL(s)...`);
-    }
+    const triedEnoughForScreenshots = elapsedMs >= MISSING_SCREENSHOT_GRACE_MS;
 
-    return false;
+    return allCompleteHaveUrls || triedEnoughForScreenshots;
   }
 
-  // INTERNAL: Periodic progress summary.
-  private showProgress(
+  // INTERNAL: Progress event after every attempt that did not finish.
+  private reportProgress(
     requestedClients: string[],
     results: Record<string, any>,
-    capturedUrls: Record<string, string>,
+    collected: Record<string, ClientResult>,
     attempt: number,
-    showDebug: boolean
+    context: PollContext
   ): void {
-    if (attempt % 5 !== 0 && !showDebug) return;
-
-    const successCount = Object.keys(capturedUrls).filter(id => capturedUrls[id] !== '').length;
-    console.log(`   Progress: ${successCount}/${requestedClients.length} captured`);
-
-    if (!showDebug) return;
-
+    const completed = Object.values(collected).filter(result => result.status === 'complete').length;
     const pending = requestedClients.filter(id => {
       const client = results[id];
-      return !client || (client.status !== 'Complete' && client.status !== 'Failed' && client.status !== 'Bounced');
+      return !client || !FINAL_STATUSES.includes(client.status) || (client.status === 'Complete' && !collected[id]);
     });
 
-    const completeNoUrl = requestedClients.filter(id => {
-      const client = results[id];
-      return client?.status === 'Complete' && !capturedUrls[id];
+    context.emit({
+      type: 'progress',
+      provider: 'emailonacid',
+      attempt,
+      completed,
+      total: requestedClients.length,
+      pending,
     });
-
-    if (pending.length > 0) {
-      console.log(`   Pending: ${pending.join(', ')}`);
-    }
-    if (completeNoUrl.length > 0) {
-      console.log(`   Complete but URL missing: ${completeNoUrl.join(', ')}`);
-    }
-  }
-
-  // INTERNAL: Wait between attempts (basic delay).
-  private async wait(seconds: number, currentAttempt: number, maxAttempts: number): Promise<void> {
-    if (currentAttempt < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, seconds * 1000));
-    }
   }
 
-  // INTERNAL: Build final result set (exclude failures).
+  // INTERNAL: Build final result set: collected clients plus a timeout/unsupported entry for the rest.
   private buildFinalResults(
     requestedClients: string[],
-    capturedUrls: Record<string, string>
-  ): Record<string, string> {
-    const successfulUrls: Record<string, string> = {};
-    for (const [id, url] of Object.entries(capturedUrls)) {
-      if (url && url !== '') {
-        successfulUrls[id] = url;
+    collected: Record<string, ClientResult>,
+    lastSeen: Record<string, any>,
+    requestedAt: Date,
+    outcome: PollOutcome
+  ): ClientResult[] {
+    const stoppedBecause = outcome.reason === 'deadline'
+      ? `deadline reached after ${Math.round(outcome.elapsedMs / 1000)}s`
+      : `${outcome.attempts} attempts`;
+
+    const finalResults = requestedClients.map(clientId => {
+      if (collected[clientId]) return collected[clientId];
+
+      const client = lastSeen[clientId];
+      if (!client) {
+        return createClientResult(clientId, 'unsupported', requestedAt, {
+          reason: 'Never appeared in Email on Acid results (possibly unsupported)',
+        });
       }
-    }
 
-    const successCount = Object.keys(successfulUrls).length;
-    const failedCount = Object.values(capturedUrls).filter(url => url === '').length;
-    const neverAppeared = requestedClients.filter(id => !(id in capturedUrls));
-
-    if (successCount === requestedClients.length) {
-      console.log(`\n✅ All ${successCount} screenshot(s) ready.\n`);
-    } else {
-      console.warn(`\n⚠️ Captured ${successCount}/${requestedClients.length}.`);
-      if (failedCount > 0) {
-        const failed = Object.entries(capturedUrls).filter(([, url]) => url === '').map(([id]) => id);
-        console.warn(`   Failed/Bounced: ${failed.join(', ')}`);
-      }
-      if (neverAppeared.length > 0) {
-        console.warn(`   Never appeared (possibly unsupported): ${neverAppeared.join(', ')}\n`);
-      }
-    }
+      const reason =
+        client.status === 'Complete'
+          ? `Complete but the screenshot URL never arrived (${stoppedBecause})`
+          : `Still "${client.status}" when polling stopped (${stoppedBecause})`;
+      return createClientResult(clientId, 'timeout', requestedAt, { reason, raw: client });
+    });
 
-    return successfulUrls;
+    logResultSummary(finalResults);
+    return finalResults;
   }
 
-  // SECONDARY: Get full list of supported clients (not used in main flow).
-  async getSupportedClients(): Promise<string[]> {
-    try {
-      const headers = {
-        Authorization: createAuthHeader(this.apiKey, this.password),
-        Accept: 'application/json',
-      };
-      const response = await axios.get(`${this.baseUrl}/v5/email/clients`, { headers });
-      return Object.keys(response.data || {});
-    } catch (error: any) {
-      console.error('Unable to fetch supported clients:', error.message);
-      return [];
-    }
+  // SECONDARY: Every client Email on Acid currently offers, with its name, OS and category
+  // (used to check the requested clients before a test is created, and by the catalog sync).
+  async getSupportedClients(): Promise<SupportedClient[]> {
+    const headers = {
+      Authorization: createAuthHeader(this.apiKey, this.password),
+      Accept: 'application/json',
+    };
+    const response = await axios.get(`${this.baseUrl}/v5/email/clients`, { headers });
+    // The clients are keyed by ID, either at the top level or under "clients".
+    const clients: Record<string, any> = response.data?.clients || response.data || {};
+    return Object.entries(clients).map(([id, details]) => ({
+      id: details?.id || id,
+      ...(details?.client ? { client: details.client } : {}),
+      ...(details?.os ? { os: details.os } : {}),
+      ...(details?.category ? { category: details.category } : {}),
+      ...(details?.browser ? { browser: details.browser } : {}),
+    }));
   }
-}
\ No newline at end of file
+}
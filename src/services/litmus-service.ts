@@ -0,0 +1,280 @@
+// PURPOSE: Talks to the "Litmus Instant" API to:
+// 1) Upload email HTML and receive an email GUID.
+// 2) Request (and poll for) screenshot URLs for specified clients.
+
+import axios from 'axios';
+import { IEmailPreviewService } from '../interfaces/i-email-preview-service';
+import { ClientResult, InjectOptions, PreviewJob, SupportedClient } from '../interfaces/preview-job';
+import { PollingPolicy, PreviewResultsOptions } from '../interfaces/polling';
+import { createClientResult, logResultSummary } from '../utils/client-results';
+import { PollContext, PollOutcome, createPollContext, getPollingPolicy, poll, requestWithRetry } from '../utils/poller';
+import { getRunConfig } from '../utils/run-config';
+
+// Litmus authenticates with the API key as the Basic auth username and an empty password.
+function createAuthHeader(apiKey: string): string {
+  return `Basic ${Buffer.from(`${apiKey}:`).toString('base64')}`;
+}
+
+// HTTP statuses Litmus uses when it will not render a client: 404 for an unknown or
+// retired client ID, 400/422 when the client rejected this particular email.
+const UNSUPPORTED_CLIENT_STATUS = 404;
+const REJECTED_CLIENT_STATUSES = [400, 422];
+
+// Default polling: every 10s at first, slowing down to every 30s, for at most 10 minutes.
+const DEFAULT_POLICY: PollingPolicy = {
+  initialDelayMs: 10_000,
+  maxDelayMs: 30_000,
+  backoffFactor: 1.5,
+  jitter: 0.2,
+  deadlineMs: 10 * 60_000,
+  requestTimeoutMs: 30_000,
+  maxRequestRetries: 3,
+};
+
+// Litmus returns several image sizes per preview; "full_url" is the one we compare.
+const SCREENSHOT_VARIANTS: Record<string, string> = {
+  full_url: 'default',
+  thumb450_url: 'thumbnail',
+  thumb_url: 'small_thumbnail',
+};
+
+export class LitmusService implements IEmailPreviewService {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  // baseUrl is overridable so the service can be pointed at a local mock server.
+  constructor(apiKey: string, baseUrl: string = 'https://instant-api.litmus.com') {
+    if (!apiKey) {
+      throw new Error('LitmusService: API key is required.');
+    }
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  // STEP 1: Upload the email HTML. Litmus calls the result an "email GUID";
+  // we expose it as the job's testId so callers can treat every service the same way.
+  async injectHtml(
+    htmlContent: string,
+    subject?: string,
+    options?: InjectOptions
+  ): Promise<PreviewJob> {
+    // Litmus does not take a client list on upload; previews are requested per client later.
+    const { clients, ...litmusOptions } = options || {};
+
+    const emailSubject = subject || `Email Test - ${new Date().toLocaleString()}`;
+    const payload = {
+      subject: emailSubject,
+      html_text: htmlContent,
+      ...litmusOptions,
+    };
+
+    try {
+      console.log('📤 Uploading email to Litmus...');
+      const response = await axios.post(`${this.baseUrl}/v1/emails`, payload, {
+        headers: this.buildHeaders(true),
+      });
+
+      const emailGuid = response.data?.email_guid;
+      if (!emailGuid) {
+        throw new Error('Litmus did not return an email GUID.');
+      }
+
+      console.log(`✅ Email created. GUID: ${emailGuid}`);
+      return {
+        provider: 'litmus',
+        testId: emailGuid,
+        subject: emailSubject,
+        submittedAt: new Date().toISOString(),
+        raw: response.data,
+      };
+    } catch (error: any) {
+      console.error('❌ Upload failed:', error.message);
+      if (axios.isAxiosError(error) && error.response) {
+        console.error(`   API status: ${error.response.status}`);
+      }
+      throw error;
+    }
+  }
+
+  // STEP 2: Ask Litmus for each client's preview until every client has a URL or has failed.
+  async getPreviewResults(
+    job: PreviewJob,
+    emailClients: string[],
+    options: PreviewResultsOptions = {}
+  ): Promise<ClientResult[]> {
+    const emailGuid = job.testId;
+    if (!emailGuid) throw new Error('Missing email GUID');
+
+    // Polling behavior comes from the run config's "polling" settings or LITMUS_* env vars (see getPollingPolicy).
+    const policy = { ...getPollingPolicy(DEFAULT_POLICY), ...options.policy };
+    const context = createPollContext('litmus', policy, options, getRunConfig().polling.debug === true);
+    context.emit({ type: 'start', provider: 'litmus', testId: emailGuid, clients: emailClients.length, policy });
+
+    // Kick off capture for every client up front so the first poll is not the slowest.
+    await this.prefetchPreviews(emailGuid, emailClients, context);
+
+    const requestedAt = new Date();
+    // Clients that reached a final status, keyed by client ID.
+    const collected: Record<string, ClientResult> = {};
+    // Last error seen per client, reported if it never becomes ready.
+    const lastErrors: Record<string, string> = {};
+
+    const outcome = await poll(context, async attempt => {
+      const pending = emailClients.filter(id => !collected[id]);
+
+      for (const clientId of pending) {
+        await this.fetchPreview(emailGuid, clientId, collected, lastErrors, requestedAt, context);
+      }
+
+      if (emailClients.every(id => collected[id])) return true;
+
+      context.emit({
+        type: 'progress',
+        provider: 'litmus',
+        attempt,
+        completed: Object.values(collected).filter(result => result.status === 'complete').length,
+        total: emailClients.length,
+        pending: emailClients.filter(id => !collected[id]),
+      });
+      return false;
+    });
+
+    return this.buildFinalResults(emailClients, collected, lastErrors, requestedAt, outcome);
+  }
+
+  // INTERNAL: Ask Litmus to start rendering all clients. Failure here is not fatal;
+  // individual preview requests below will trigger capture anyway.
+  private async prefetchPreviews(
+    emailGuid: string,
+    emailClients: string[],
+    context: PollContext
+  ): Promise<void> {
+    try {
+      await requestWithRetry(context, 'prefetch', timeout =>
+        axios.post(
+          `${this.baseUrl}/v1/emails/${emailGuid}/previews/prefetch`,
+          { configurations: emailClients.map(client => ({ client })) },
+          { headers: this.buildHeaders(true), timeout, signal: context.signal }
+        )
+      );
+    } catch (error: any) {
+      if (context.signal?.aborted) throw error;
+      context.emit({
+        type: 'attempt-failed',
+        provider: 'litmus',
+        request: 'prefetch',
+        reason: `${error.message}; continuing with per-client requests`,
+      });
+    }
+  }
+
+  // INTERNAL: Request one client's preview and record the result, a failure, or nothing (retry later).
+  // 429/5xx and network errors are retried first (see requestWithRetry).
+  private async fetchPreview(
+    emailGuid: string,
+    clientId: string,
+    collected: Record<string, ClientResult>,
+    lastErrors: Record<string, string>,
+    requestedAt: Date,
+    context: PollContext
+  ): Promise<void> {
+    try {
+      const response = await requestWithRetry(context, clientId, timeout =>
+        axios.get(`${this.baseUrl}/v1/emails/${emailGuid}/previews/${encodeURIComponent(clientId)}`, {
+          headers: this.buildHeaders(),
+          timeout,
+          signal: context.signal,
+        })
+      );
+
+      const screenshots = this.extractScreenshots(response.data);
+      if (screenshots.default) {
+        collected[clientId] = createClientResult(clientId, 'complete', requestedAt, {
+          screenshots,
+          raw: response.data,
+        });
+        context.emit({ type: 'client', provider: 'litmus', clientId, status: 'complete', result: collected[clientId] });
+      } else {
+        context.emit({ type: 'client', provider: 'litmus', clientId, status: 'pending' });
+      }
+    } catch (error: any) {
+      if (!axios.isAxiosError(error) || context.signal?.aborted) throw error;
+
+      const status = error.response?.status;
+      if (status === 401) {
+        throw new Error('Authentication failed - check your Litmus API key');
+      }
+      const message = error.response?.data?.message || error.response?.data?.error;
+      if (status === UNSUPPORTED_CLIENT_STATUS || (status && REJECTED_CLIENT_STATUSES.includes(status))) {
+        const clientStatus = status === UNSUPPORTED_CLIENT_STATUS ? 'unsupported' : 'failed';
+        const reason = `Litmus rejected the client (HTTP ${status})${message ? `: ${message}` : ''}`;
+        collected[clientId] = createClientResult(clientId, clientStatus, requestedAt, {
+          reason,
+          raw: error.response?.data,
+        });
+        context.emit({
+          type: 'client',
+          provider: 'litmus',
+          clientId,
+          status: clientStatus,
+          detail: `rejected by Litmus (HTTP ${status})`,
+        });
+        return;
+      }
+      lastErrors[clientId] = `Last API error: ${status ?? error.code}`;
+      context.emit({ type: 'attempt-failed', provider: 'litmus', request: clientId, reason: lastErrors[clientId] });
+    }
+  }
+
+  // INTERNAL: Map Litmus image fields (full_url, thumb450_url, ...) to our variant names.
+  private extractScreenshots(data: Record<string, unknown> | undefined): Record<string, string> {
+    const variants: Record<string, string> = {};
+    for (const [field, variant] of Object.entries(SCREENSHOT_VARIANTS)) {
+      const url = data?.[field];
+      if (url && typeof url === 'string') variants[variant] = url;
+    }
+    return variants;
+  }
+
+  // INTERNAL: Build final result set: collected clients plus a timeout entry for the rest.
+  private buildFinalResults(
+    requestedClients: string[],
+    collected: Record<string, ClientResult>,
+    lastErrors: Record<string, string>,
+    requestedAt: Date,
+    outcome: PollOutcome
+  ): ClientResult[] {
+    const stoppedBecause = outcome.reason === 'deadline'
+      ? `deadline reached after ${Math.round(outcome.elapsedMs / 1000)}s`
+      : `${outcome.attempts} attempts`;
+
+    const finalResults = requestedClients.map(
+      clientId =>
+        collected[clientId] ||
+        createClientResult(clientId, 'timeout', requestedAt, {
+          reason: `Preview never became ready (${stoppedBecause}${lastErrors[clientId] ? `; ${lastErrors[clientId]}` : ''})`,
+        })
+    );
+
+    logResultSummary(finalResults);
+    return finalResults;
+  }
+
+  // SECONDARY: Every client ID Litmus can render (IDs only; Litmus lists no details here).
+  async getSupportedClients(): Promise<SupportedClient[]> {
+    const response = await axios.get(`${this.baseUrl}/v1/clients`, {
+      headers: this.buildHeaders(),
+    });
+    const ids: string[] = Array.isArray(response.data) ? response.data : Object.keys(response.data || {});
+    return ids.map(id => ({ id }));
+  }
+
+  // INTERNAL: Common request headers.
+  private buildHeaders(withBody: boolean = false): Record<string, string> {
+    return {
+      Authorization: createAuthHeader(this.apiKey),
+      Accept: 'application/json',
+      ...(withBody ? { 'Content-Type': 'application/json' } : {}),
+    };
+  }
+}
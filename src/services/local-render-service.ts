@@ -0,0 +1,181 @@
+// PURPOSE: Renders email HTML locally with Playwright's browser engines, no network needed.
+// 1) "Upload" the HTML by writing it to a local render folder.
+// 2) Screenshot it in Chromium, Firefox and WebKit at mobile/desktop sizes, light and dark.
+// QA: This is a fast pre-check. It does NOT reproduce real email client quirks (Outlook, Gmail...).
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { chromium, firefox, webkit, Browser, BrowserType } from 'playwright';
+import { IEmailPreviewService } from '../interfaces/i-email-preview-service';
+import { ClientResult, InjectOptions, PreviewJob, SupportedClient } from '../interfaces/preview-job';
+import { PreviewResultsOptions } from '../interfaces/polling';
+import { createClientResult, logResultSummary } from '../utils/client-results';
+import { createConsoleListener } from '../utils/poller';
+
+const ENGINES: Record<string, BrowserType> = { chromium, firefox, webkit };
+
+// Viewport sizes roughly matching a phone and a desktop mail client reading pane.
+const DEVICES: Record<string, { width: number; height: number; isMobile: boolean }> = {
+  mobile: { width: 390, height: 844, isMobile: true },
+  desktop: { width: 1280, height: 800, isMobile: false },
+};
+
+// Color schemes keyed by the client ID suffix used across our catalogs.
+const COLOR_SCHEMES: Record<string, 'light' | 'dark'> = { lm: 'light', dm: 'dark' };
+
+const HTML_FILE_NAME = 'email.html';
+
+interface LocalClient {
+  engine: string;
+  device: string;
+  colorScheme: 'light' | 'dark';
+}
+
+// Client IDs follow "<engine>_<device>_<lm|dm>", e.g. "webkit_mobile_dm".
+function parseClientId(clientId: string): LocalClient | null {
+  const [engine, device, mode] = clientId.split('_');
+  if (!ENGINES[engine] || !DEVICES[device] || !COLOR_SCHEMES[mode]) return null;
+  return { engine, device, colorScheme: COLOR_SCHEMES[mode] };
+}
+
+export class LocalRenderService implements IEmailPreviewService {
+  private readonly outputDir: string;
+
+  constructor(outputDir: string = resolve(__dirname, '..', '..', 'temp', 'local-renders')) {
+    this.outputDir = outputDir;
+  }
+
+  // STEP 1: Store the HTML under a new render ID (our equivalent of a provider test ID).
+  async injectHtml(
+    htmlContent: string,
+    subject?: string,
+    options?: InjectOptions
+  ): Promise<PreviewJob> {
+    const testId = `local-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const renderDir = resolve(this.outputDir, testId);
+
+    mkdirSync(renderDir, { recursive: true });
+    writeFileSync(resolve(renderDir, HTML_FILE_NAME), htmlContent);
+
+    console.log(`✅ Local render created. ID: ${testId}`);
+    return { provider: 'local', testId, subject, submittedAt: new Date().toISOString() };
+  }
+
+  // STEP 2: Screenshot the stored HTML in every requested engine/device/color scheme.
+  // Nothing to poll here, but progress is reported as the same events as the remote providers.
+  async getPreviewResults(
+    job: PreviewJob,
+    emailClients: string[],
+    options: PreviewResultsOptions = {}
+  ): Promise<ClientResult[]> {
+    const testId = job.testId;
+    if (!testId) throw new Error('Missing test ID');
+
+    const renderDir = resolve(this.outputDir, testId);
+    const htmlFile = resolve(renderDir, HTML_FILE_NAME);
+    if (!existsSync(htmlFile)) {
+      throw new Error(`No local render found for ID "${testId}" (${htmlFile}).`);
+    }
+    const htmlContent = readFileSync(htmlFile, 'utf-8');
+    const emit = options.onProgress || createConsoleListener();
+
+    console.log(`\n🖥️ Rendering ${emailClients.length} local preview(s)...\n`);
+
+    const results: ClientResult[] = [];
+    const browsers: Record<string, Browser | null> = {};
+
+    try {
+      for (const clientId of emailClients) {
+        options.signal?.throwIfAborted();
+        const requestedAt = new Date();
+        const client = parseClientId(clientId);
+        if (!client) {
+          emit({ type: 'client', provider: 'local', clientId, status: 'unsupported', detail: 'unknown local client ID' });
+          results.push(createClientResult(clientId, 'unsupported', requestedAt, {
+            reason: 'Unknown local client ID (expected "<engine>_<device>_<lm|dm>")',
+          }));
+          continue;
+        }
+
+        const browser = await this.getBrowser(client.engine, browsers);
+        if (!browser) {
+          emit({ type: 'client', provider: 'local', clientId, status: 'failed', detail: `${client.engine} not installed` });
+          results.push(createClientResult(clientId, 'failed', requestedAt, {
+            reason: `Could not launch ${client.engine} (run "npx playwright install")`,
+          }));
+          continue;
+        }
+
+        try {
+          const screenshotFile = resolve(renderDir, `${clientId}.png`);
+          await this.renderClient(browser, client, htmlContent, screenshotFile);
+          const result = createClientResult(clientId, 'complete', requestedAt, {
+            screenshots: { default: pathToFileURL(screenshotFile).href },
+          });
+          results.push(result);
+          emit({ type: 'client', provider: 'local', clientId, status: 'complete', result });
+        } catch (error: any) {
+          emit({ type: 'client', provider: 'local', clientId, status: 'failed', detail: error.message });
+          results.push(createClientResult(clientId, 'failed', requestedAt, { reason: error.message }));
+        }
+      }
+    } finally {
+      await Promise.all(Object.values(browsers).map(browser => browser?.close()));
+    }
+
+    logResultSummary(results);
+    return results;
+  }
+
+  // INTERNAL: Launch each engine once. A missing browser install only skips that engine.
+  private async getBrowser(
+    engine: string,
+    browsers: Record<string, Browser | null>
+  ): Promise<Browser | null> {
+    if (!(engine in browsers)) {
+      try {
+        browsers[engine] = await ENGINES[engine].launch();
+      } catch (error: any) {
+        console.warn(`   ⚠️ Could not launch ${engine} (run "npx playwright install"): ${error.message.split('\n')[0]}`);
+        browsers[engine] = null;
+      }
+    }
+    return browsers[engine];
+  }
+
+  // INTERNAL: One full-page screenshot for one engine/device/color scheme combination.
+  private async renderClient(
+    browser: Browser,
+    client: LocalClient,
+    htmlContent: string,
+    screenshotFile: string
+  ): Promise<void> {
+    const device = DEVICES[client.device];
+    // Firefox does not support mobile emulation; the viewport size still applies.
+    const context = await browser.newContext({
+      viewport: { width: device.width, height: device.height },
+      isMobile: device.isMobile && client.engine !== 'firefox',
+      colorScheme: client.colorScheme,
+      deviceScaleFactor: 1,
+    });
+
+    try {
+      const page = await context.newPage();
+      // Remote images may be unreachable offline; don't wait for them forever.
+      await page.setContent(htmlContent, { waitUntil: 'load', timeout: 15000 }).catch(() => undefined);
+      await page.screenshot({ path: screenshotFile, fullPage: true });
+    } finally {
+      await context.close();
+    }
+  }
+
+  // SECONDARY: Every engine/device/color scheme combination this service can render.
+  async getSupportedClients(): Promise<SupportedClient[]> {
+    return Object.keys(ENGINES).flatMap(engine =>
+      Object.keys(DEVICES).flatMap(device =>
+        Object.keys(COLOR_SCHEMES).map(mode => ({ id: `${engine}_${device}_${mode}`, category: 'Local' }))
+      )
+    );
+  }
+}
@@ -0,0 +1,135 @@
+// PURPOSE: Reads the email under test from a raw .eml file (ESP export, seed-inbox capture):
+// 1) Parses the MIME message and takes its HTML part (transfer encoding and charset decoded).
+// 2) Rewrites "cid:" image references so providers can render them:
+//    - default: data URIs embedded in the HTML;
+//    - with `assets`: image files written to a folder that is served at a public URL.
+// 3) Returns the Subject and other headers, so the provider test uses the real subject line.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { EmailOrigin, FetchedEmail, IEmailSource } from '../interfaces/i-email-source';
+import { MimePart, collectContentIdParts, decodeText, findHtmlPart, parseMimeMessage } from '../utils/mime-parser';
+import { sanitizeFilename } from '../utils/filename';
+
+export interface EmlAssetOptions {
+  /** Folder the inline images are written to. */
+  dir: string;
+  /** Public URL of that folder; cid: references become `${baseUrl}/<file>`. */
+  baseUrl: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+export class EmlEmailSource implements IEmailSource {
+  readonly description: string;
+  private readonly emlFile: string;
+  private readonly assets?: EmlAssetOptions;
+
+  constructor(emlFile: string, assets?: EmlAssetOptions) {
+    this.emlFile = emlFile;
+    this.assets = assets;
+    this.description = `.eml file ${emlFile}`;
+  }
+
+  async fetchEmail(): Promise<FetchedEmail> {
+    if (!existsSync(this.emlFile)) {
+      throw new Error(`Email .eml file not found: ${this.emlFile}`);
+    }
+
+    const message = parseMimeMessage(readFileSync(this.emlFile));
+    const htmlPart = findHtmlPart(message);
+    if (!htmlPart) {
+      throw new Error(`${this.emlFile} does not contain an HTML part.`);
+    }
+
+    // The HTML is saved as UTF-8 from here on; a <meta> still naming the part's charset would mislead providers.
+    const charset = htmlPart.params.charset?.trim().toLowerCase() || 'utf-8';
+    const decoded = ['utf-8', 'utf8'].includes(charset) ? decodeText(htmlPart) : declareUtf8(decodeText(htmlPart));
+    const html = this.replaceContentIds(decoded, collectContentIdParts(message));
+
+    // Keep the original capitalisation for the common headers (metadata is read by people).
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(message.headers)) {
+      headers[name.replace(/(^|-)([a-z])/g, (_, dash: string, char: string) => dash + char.toUpperCase())] = value;
+    }
+
+    const origin: EmailOrigin = {
+      type: 'eml',
+      file: this.emlFile,
+      ...(message.headers['message-id'] ? { messageId: message.headers['message-id'].replace(/^<|>$/g, '') } : {}),
+    };
+    const receivedAt = message.headers.date ? new Date(message.headers.date) : undefined;
+    return {
+      html,
+      ...(message.headers.subject ? { subject: message.headers.subject } : {}),
+      headers,
+      ...(receivedAt && !Number.isNaN(receivedAt.getTime()) ? { receivedAt: receivedAt.toISOString() } : {}),
+      origin,
+    };
+  }
+
+  // INTERNAL: "cid:logo@x" in src/background/url() -> data URI or hosted file. References to
+  // parts that are missing are left as they are (and will show as broken images in the previews).
+  private replaceContentIds(html: string, contentIdParts: Map<string, MimePart>): string {
+    const replacements = new Map<string, string>();
+    const fileNames = new Set<string>();
+    let missing = 0;
+
+    const result = html.replace(/cid:([^"'\s)>]+)/gi, (reference, rawId: string) => {
+      const contentId = safeDecodeUri(rawId);
+      const part = contentIdParts.get(contentId);
+      if (!part) {
+        missing++;
+        return reference;
+      }
+      if (!replacements.has(contentId)) {
+        replacements.set(contentId, this.assets ? this.writeAsset(contentId, part, fileNames) : toDataUri(part));
+      }
+      return replacements.get(contentId)!;
+    });
+
+    if (missing > 0) {
+      console.warn(`⚠️ ${missing} cid: reference(s) in ${this.emlFile} have no matching inline part.`);
+    }
+    return result;
+  }
+
+  // Parts often share a file name (two "image.png" with different content IDs); later ones get a
+  // counter ("image-2.png") so no reference ends up showing another part's image.
+  private writeAsset(contentId: string, part: MimePart, fileNames: Set<string>): string {
+    const assets = this.assets!;
+    const extension = EXTENSIONS[part.contentType] || part.filename?.split('.').pop() || 'bin';
+    const stem = sanitizeFilename((part.filename || contentId).replace(/\.[^.]+$/, '')) || 'inline';
+    let fileName = `${stem}.${extension}`;
+    for (let counter = 2; fileNames.has(fileName); counter++) fileName = `${stem}-${counter}.${extension}`;
+    fileNames.add(fileName);
+
+    mkdirSync(assets.dir, { recursive: true });
+    writeFileSync(resolve(assets.dir, fileName), part.body);
+    return `${assets.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(fileName)}`;
+  }
+}
+
+// INTERNAL: <meta charset="windows-1252"> and <meta http-equiv="Content-Type" content="text/html;
+// charset=iso-8859-1"> -> charset utf-8.
+function declareUtf8(html: string): string {
+  return html.replace(/<meta\b[^>]*>/gi, tag => tag.replace(/(charset\s*=\s*["']?)[^"'\s;>/]+/i, '$1utf-8'));
+}
+
+function toDataUri(part: MimePart): string {
+  return `data:${part.contentType};base64,${part.body.toString('base64')}`;
+}
+
+function safeDecodeUri(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
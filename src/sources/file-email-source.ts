@@ -0,0 +1,25 @@
+// PURPOSE: The default email source: HTML that is already on disk (emails/<task>.html).
+
+import { existsSync, readFileSync } from 'fs';
+import { FetchedEmail, IEmailSource } from '../interfaces/i-email-source';
+
+export class FileEmailSource implements IEmailSource {
+  readonly description: string;
+  private readonly htmlFile: string;
+
+  constructor(htmlFile: string) {
+    this.htmlFile = htmlFile;
+    this.description = `file ${htmlFile}`;
+  }
+
+  async fetchEmail(): Promise<FetchedEmail> {
+    if (!existsSync(this.htmlFile)) {
+      throw new Error(`Email HTML file not found: ${this.htmlFile}`);
+    }
+    return {
+      html: readFileSync(this.htmlFile, 'utf-8'),
+      headers: {},
+      origin: { type: 'file', file: this.htmlFile },
+    };
+  }
+}
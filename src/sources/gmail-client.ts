@@ -0,0 +1,150 @@
+// PURPOSE: The few Gmail API calls the Gmail email source needs, behind an interface so they can be
+// replaced offline:
+// 1) GmailApiClient: the real API (googleapis + the OAuth desktop flow from @google-cloud/local-auth).
+// 2) FixtureGmailClient: reads messages saved as JSON (Gmail API "full" format) from a folder.
+//    A fixture may add "attachments": { "<attachmentId>": "<base64url data>" } for large parts.
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { resolve } from 'path';
+import type { Auth, gmail_v1 } from 'googleapis';
+
+export type GmailMessage = gmail_v1.Schema$Message;
+
+// A saved message: the API's "full" format, plus the data of the parts stored as attachments.
+export type FixtureMessage = GmailMessage & { attachments?: Record<string, string> };
+
+export interface GmailClient {
+  /** The message in "full" format (headers + MIME parts). */
+  getMessage(messageId: string): Promise<GmailMessage>;
+  /** Base64url data of an attachment (large parts are stored as attachments). */
+  getAttachment(messageId: string, attachmentId: string): Promise<string>;
+  /** IDs of messages matching a Gmail search query, newest first. */
+  searchMessages(query: string, maxResults: number): Promise<string[]>;
+}
+
+export interface GmailAuthOptions {
+  /** OAuth client file downloaded from Google Cloud ("installed" app). */
+  credentialsFile: string;
+  scopes?: string[];
+}
+
+const READONLY_SCOPE = 'https://www.googleapis.com/auth/gmail.readonly';
+
+export class GmailApiClient implements GmailClient {
+  private readonly authOptions: GmailAuthOptions;
+  private gmail?: gmail_v1.Gmail;
+
+  constructor(authOptions: GmailAuthOptions) {
+    this.authOptions = authOptions;
+  }
+
+  async getMessage(messageId: string): Promise<GmailMessage> {
+    const gmail = await this.connect();
+    const response = await gmail.users.messages.get({ userId: 'me', id: messageId, format: 'full' });
+    return response.data;
+  }
+
+  async getAttachment(messageId: string, attachmentId: string): Promise<string> {
+    const gmail = await this.connect();
+    const response = await gmail.users.messages.attachments.get({ userId: 'me', messageId, id: attachmentId });
+    return response.data.data || '';
+  }
+
+  async searchMessages(query: string, maxResults: number): Promise<string[]> {
+    const gmail = await this.connect();
+    const response = await gmail.users.messages.list({ userId: 'me', q: query, maxResults });
+    return (response.data.messages || []).map(message => message.id!).filter(Boolean);
+  }
+
+  // INTERNAL: Authenticate once (opens the browser consent page) and reuse the client.
+  // googleapis is large, so it is only loaded when Gmail is actually used.
+  private async connect(): Promise<gmail_v1.Gmail> {
+    if (!this.gmail) {
+      if (!existsSync(this.authOptions.credentialsFile)) {
+        throw new Error(`Gmail OAuth credentials not found: ${this.authOptions.credentialsFile}`);
+      }
+      const [{ google }, { authenticate }] = await Promise.all([
+        import('googleapis'),
+        import('@google-cloud/local-auth'),
+      ]);
+      const consent = await authenticate({
+        scopes: this.authOptions.scopes || [READONLY_SCOPE],
+        keyfilePath: this.authOptions.credentialsFile,
+      });
+      // local-auth ships its own google-auth-library version, whose client googleapis does not accept;
+      // the tokens it obtained go into a client of googleapis' version (which can refresh them too).
+      const keys = JSON.parse(readFileSync(this.authOptions.credentialsFile, 'utf-8'));
+      const { client_id, client_secret, redirect_uris } = keys.installed || keys.web || {};
+      const auth: Auth.OAuth2Client = new google.auth.OAuth2(client_id, client_secret, redirect_uris?.[0]);
+      auth.setCredentials(consent.credentials);
+      this.gmail = google.gmail({ version: 'v1', auth });
+    }
+    return this.gmail;
+  }
+}
+
+// Offline stand-in: every <id>.json in the folder is one message. Search understands
+// "from:", "subject:" and plain words (all must match, case-insensitive), newest first.
+export class FixtureGmailClient implements GmailClient {
+  private readonly fixturesDir: string;
+
+  constructor(fixturesDir: string) {
+    if (!existsSync(fixturesDir)) {
+      throw new Error(`Gmail fixtures folder not found: ${fixturesDir}`);
+    }
+    this.fixturesDir = fixturesDir;
+  }
+
+  async getMessage(messageId: string): Promise<FixtureMessage> {
+    const file = resolve(this.fixturesDir, `${messageId}.json`);
+    if (!existsSync(file)) throw new Error(`Gmail message "${messageId}" not found in ${this.fixturesDir}`);
+    return { id: messageId, ...JSON.parse(readFileSync(file, 'utf-8')) };
+  }
+
+  async getAttachment(messageId: string, attachmentId: string): Promise<string> {
+    const message = await this.getMessage(messageId);
+    const attachments = message.attachments || {};
+    if (!(attachmentId in attachments)) throw new Error(`Attachment "${attachmentId}" not found in fixture ${messageId}`);
+    return attachments[attachmentId];
+  }
+
+  async searchMessages(query: string, maxResults: number): Promise<string[]> {
+    const terms = parseQuery(query);
+    const messages = await Promise.all(
+      readdirSync(this.fixturesDir)
+        .filter(fileName => fileName.endsWith('.json'))
+        .map(fileName => this.getMessage(fileName.replace(/\.json$/, '')))
+    );
+
+    return messages
+      .filter(message => terms.every(term => matchesTerm(message, term)))
+      .sort((a, b) => Number(b.internalDate || 0) - Number(a.internalDate || 0))
+      .slice(0, maxResults)
+      .map(message => message.id!);
+  }
+}
+
+interface QueryTerm {
+  field?: 'from' | 'subject';
+  value: string;
+}
+
+// INTERNAL: 'from:news@x.com subject:"Spring sale" promo' -> three terms.
+function parseQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  for (const match of query.matchAll(/(?:(from|subject):)?(?:"([^"]*)"|(\S+))/gi)) {
+    const field = match[1]?.toLowerCase() as QueryTerm['field'];
+    terms.push({ field, value: (match[2] ?? match[3]).toLowerCase() });
+  }
+  return terms;
+}
+
+function matchesTerm(message: GmailMessage, term: QueryTerm): boolean {
+  const header = (name: string) =>
+    (message.payload?.headers || []).find(item => item.name?.toLowerCase() === name)?.value?.toLowerCase() || '';
+
+  if (term.field) return header(term.field).includes(term.value);
+  return [header('from'), header('subject'), (message.snippet || '').toLowerCase()].some(text =>
+    text.includes(term.value)
+  );
+}
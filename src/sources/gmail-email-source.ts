@@ -0,0 +1,92 @@
+// PURPOSE: Reads the email under test straight from a Gmail mailbox (e.g. a seed inbox):
+// 1) By message ID, or the newest message matching a Gmail search query ("subject:... from:...").
+// 2) Takes the first text/html part and the message headers.
+// The Gmail calls go through a GmailClient, so tests can use FixtureGmailClient offline.
+
+import { EmailOrigin, FetchedEmail, IEmailSource } from '../interfaces/i-email-source';
+import { GmailClient, GmailMessage } from './gmail-client';
+
+type MessagePart = NonNullable<GmailMessage['payload']>;
+
+export interface GmailSelector {
+  messageId?: string;
+  query?: string;
+}
+
+export class GmailEmailSource implements IEmailSource {
+  readonly description: string;
+  private readonly client: GmailClient;
+  private readonly selector: GmailSelector;
+
+  constructor(client: GmailClient, selector: GmailSelector) {
+    if (!selector.messageId && !selector.query) {
+      throw new Error('GmailEmailSource: a message ID or a search query is required.');
+    }
+    this.client = client;
+    this.selector = selector;
+    this.description = selector.messageId
+      ? `Gmail message ${selector.messageId}`
+      : `newest Gmail message matching "${selector.query}"`;
+  }
+
+  async fetchEmail(): Promise<FetchedEmail> {
+    const messageId = this.selector.messageId || (await this.findNewestMessage(this.selector.query!));
+    const message = await this.client.getMessage(messageId);
+    if (!message.payload) {
+      throw new Error(`Gmail message "${messageId}" has no payload.`);
+    }
+
+    const html = await this.getHtml(messageId, message.payload);
+    if (html === null) {
+      throw new Error(`Gmail message "${messageId}" does not contain HTML content.`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of message.payload.headers || []) {
+      if (header.name) headers[header.name] = header.value || '';
+    }
+
+    const origin: EmailOrigin = {
+      type: 'gmail',
+      messageId,
+      ...(this.selector.query && !this.selector.messageId ? { query: this.selector.query } : {}),
+    };
+    return {
+      html,
+      ...(headers.Subject ? { subject: headers.Subject } : {}),
+      headers,
+      receivedAt: getReceivedAt(headers.Date, message.internalDate),
+      origin,
+    };
+  }
+
+  // INTERNAL: Newest message matching the query.
+  private async findNewestMessage(query: string): Promise<string> {
+    const [messageId] = await this.client.searchMessages(query, 1);
+    if (!messageId) throw new Error(`No Gmail message matches "${query}".`);
+    return messageId;
+  }
+
+  // INTERNAL: First text/html part, depth first (multipart/alternative puts it after text/plain).
+  private async getHtml(messageId: string, part: MessagePart): Promise<string | null> {
+    if (part.mimeType === 'text/html') {
+      const data = part.body?.data
+        || (part.body?.attachmentId ? await this.client.getAttachment(messageId, part.body.attachmentId) : '');
+      // Gmail encodes bodies as base64url.
+      if (data) return Buffer.from(data, 'base64url').toString('utf8');
+    }
+
+    for (const child of part.parts || []) {
+      const html = await this.getHtml(messageId, child);
+      if (html !== null) return html;
+    }
+    return null;
+  }
+}
+
+// INTERNAL: Date header if it parses, else Gmail's internal timestamp (ms since epoch).
+function getReceivedAt(dateHeader: string | undefined, internalDate?: string | null): string | undefined {
+  const fromHeader = dateHeader ? new Date(dateHeader) : undefined;
+  if (fromHeader && !Number.isNaN(fromHeader.getTime())) return fromHeader.toISOString();
+  return internalDate ? new Date(Number(internalDate)).toISOString() : undefined;
+}
@@ -0,0 +1,196 @@
+// PURPOSE: Versioned baselines. Every approved baseline image is kept with who approved it,
+// when, and which provider test / HTML produced it, so any client can be rolled back.
+//
+// LAYOUT (next to the live baselines Playwright compares against):
+//   visual-baselines/<project>/<client>.png                       <- current baseline
+//   visual-baselines/<project>/.history/<client>/v<N>.png          <- every approved version
+//   visual-baselines/<project>/.history/<client>/history.json      <- metadata + decisions log
+
+import { copyFileSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { execSync } from 'child_process';
+import { userInfo } from 'os';
+import { basename, resolve } from 'path';
+import { getRunConfig } from './run-config';
+
+// Run config "paths.baselines" (default visual-baselines/).
+export const BASELINES_DIR = getRunConfig().paths.baselines;
+
+export interface BaselineVersion {
+  version: number;
+  /** Image file name inside the client's history folder. */
+  file: string;
+  approvedBy: string;
+  approvedAt: string;
+  testId?: string;
+  htmlHash?: string;
+  /** "approve" for a new image, "initial" for a baseline that existed before history was kept. */
+  source: 'approve' | 'initial';
+}
+
+export interface BaselineDecision {
+  action: 'approve' | 'reject' | 'rollback';
+  version?: number;
+  by: string;
+  at: string;
+  testId?: string;
+  note?: string;
+}
+
+export interface BaselineHistory {
+  clientId: string;
+  screenshotName: string;
+  /** Version currently copied to the live baseline file. */
+  currentVersion?: number;
+  versions: BaselineVersion[];
+  decisions: BaselineDecision[];
+}
+
+export interface ApprovalDetails {
+  clientId: string;
+  testId?: string;
+  htmlHash?: string;
+  approvedBy?: string;
+}
+
+export function getBaselineFile(project: string, screenshotName: string): string {
+  return resolve(BASELINES_DIR, project, screenshotName);
+}
+
+export function getHistoryDir(project: string, screenshotName: string): string {
+  return resolve(BASELINES_DIR, project, '.history', basename(screenshotName, '.png'));
+}
+
+export function loadHistory(project: string, screenshotName: string, clientId: string): BaselineHistory {
+  const historyFile = resolve(getHistoryDir(project, screenshotName), 'history.json');
+  if (!existsSync(historyFile)) {
+    return { clientId, screenshotName, versions: [], decisions: [] };
+  }
+  return JSON.parse(readFileSync(historyFile, 'utf-8'));
+}
+
+// Makes `imageFile` the new baseline and records it as a new version.
+export function approveBaseline(
+  project: string,
+  screenshotName: string,
+  imageFile: string,
+  details: ApprovalDetails
+): BaselineVersion {
+  const history = loadHistory(project, screenshotName, details.clientId);
+  const approvedBy = details.approvedBy || getApprover();
+  const approvedAt = new Date().toISOString();
+
+  // Keep a baseline that predates history so the first approval can still be rolled back.
+  recordInitialBaseline(project, screenshotName, history);
+
+  const version = nextVersion(history);
+  const entry: BaselineVersion = {
+    version,
+    file: `v${version}.png`,
+    approvedBy,
+    approvedAt,
+    ...(details.testId ? { testId: details.testId } : {}),
+    ...(details.htmlHash ? { htmlHash: details.htmlHash } : {}),
+    source: 'approve',
+  };
+
+  const historyDir = getHistoryDir(project, screenshotName);
+  mkdirSync(historyDir, { recursive: true });
+  copyFileSync(imageFile, resolve(historyDir, entry.file));
+  copyFileSync(imageFile, getBaselineFile(project, screenshotName));
+
+  history.versions.push(entry);
+  history.currentVersion = version;
+  history.decisions.push({ action: 'approve', version, by: approvedBy, at: approvedAt, testId: details.testId });
+  saveHistory(project, screenshotName, history);
+  return entry;
+}
+
+// Records that a changed screenshot was looked at and NOT accepted (baseline untouched).
+export function rejectBaseline(
+  project: string,
+  screenshotName: string,
+  details: ApprovalDetails & { note?: string }
+): void {
+  const history = loadHistory(project, screenshotName, details.clientId);
+  history.decisions.push({
+    action: 'reject',
+    by: details.approvedBy || getApprover(),
+    at: new Date().toISOString(),
+    testId: details.testId,
+    ...(details.note ? { note: details.note } : {}),
+  });
+  saveHistory(project, screenshotName, history);
+}
+
+// Restores an earlier approved version (default: the one before the current version).
+export function rollbackBaseline(
+  project: string,
+  screenshotName: string,
+  clientId: string,
+  toVersion?: number,
+  by: string = getApprover()
+): BaselineVersion {
+  const history = loadHistory(project, screenshotName, clientId);
+  if (history.versions.length === 0) {
+    throw new Error(`No baseline history for ${clientId} in "${project}".`);
+  }
+
+  const target = toVersion !== undefined
+    ? history.versions.find(version => version.version === toVersion)
+    : [...history.versions].reverse().find(version => version.version < (history.currentVersion ?? Infinity));
+
+  if (!target) {
+    throw new Error(
+      toVersion !== undefined
+        ? `Version ${toVersion} not found for ${clientId}. Available: ${history.versions.map(v => v.version).join(', ')}`
+        : `No earlier version to roll back to for ${clientId}.`
+    );
+  }
+
+  copyFileSync(resolve(getHistoryDir(project, screenshotName), target.file), getBaselineFile(project, screenshotName));
+  history.currentVersion = target.version;
+  history.decisions.push({ action: 'rollback', version: target.version, by, at: new Date().toISOString() });
+  saveHistory(project, screenshotName, history);
+  return target;
+}
+
+// Who is approving: BASELINE_APPROVER (run config "approver"), else git user.name, else the OS user.
+export function getApprover(approver: string | undefined = getRunConfig().approver): string {
+  if (approver) return approver;
+  try {
+    const gitUser = execSync('git config user.name', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    if (gitUser) return gitUser;
+  } catch {
+    // Not a git checkout or git not installed; fall through.
+  }
+  return userInfo().username;
+}
+
+// INTERNAL: Snapshot a pre-existing baseline as version 0 before the first recorded approval.
+function recordInitialBaseline(project: string, screenshotName: string, history: BaselineHistory): void {
+  const baselineFile = getBaselineFile(project, screenshotName);
+  if (history.versions.length > 0 || !existsSync(baselineFile)) return;
+
+  const historyDir = getHistoryDir(project, screenshotName);
+  mkdirSync(historyDir, { recursive: true });
+  copyFileSync(baselineFile, resolve(historyDir, 'v0.png'));
+  history.versions.push({
+    version: 0,
+    file: 'v0.png',
+    approvedBy: 'unknown',
+    // Best guess for when it was accepted: the last time the baseline file changed.
+    approvedAt: statSync(baselineFile).mtime.toISOString(),
+    source: 'initial',
+  });
+  history.currentVersion = 0;
+}
+
+function nextVersion(history: BaselineHistory): number {
+  return history.versions.reduce((max, version) => Math.max(max, version.version), 0) + 1;
+}
+
+function saveHistory(project: string, screenshotName: string, history: BaselineHistory): void {
+  const historyDir = getHistoryDir(project, screenshotName);
+  mkdirSync(historyDir, { recursive: true });
+  writeFileSync(resolve(historyDir, 'history.json'), JSON.stringify(history, null, 2));
+}
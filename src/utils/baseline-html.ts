@@ -0,0 +1,63 @@
+// PURPOSE: Keeps the HTML that produced each approved baseline, so a failed comparison can be
+// explained with a markup diff (see dom-diff.ts) against the current run's HTML.
+//
+// LAYOUT (stored by content hash, so one HTML shared by many clients is kept once):
+//   visual-baselines/<project>/.html/<sha256>.html   <- every HTML a baseline was made from
+//   visual-baselines/<project>/.html/baselines.json  <- client ID -> hash, for first-run baselines
+// Approved baselines take their hash from the baseline history (current version), so a rollback
+// also rolls back the HTML the diff is made against.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { BASELINES_DIR, loadHistory } from './baseline-history';
+import { hashContent } from './hash';
+
+export interface BaselineHtml {
+  htmlHash: string;
+  html: string;
+}
+
+export function getBaselineHtmlDir(project: string): string {
+  return resolve(BASELINES_DIR, project, '.html');
+}
+
+// Saves the HTML (once per content) and returns its hash.
+export function storeBaselineHtml(project: string, html: string): string {
+  const htmlHash = hashContent(html);
+  const dir = getBaselineHtmlDir(project);
+  const file = resolve(dir, `${htmlHash}.html`);
+  if (!existsSync(file)) {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(file, html);
+  }
+  return htmlHash;
+}
+
+// Records the HTML of a baseline written without approval (first run, --update-snapshots).
+export function recordBaselineHtml(project: string, clientId: string, html: string): void {
+  const htmlHash = storeBaselineHtml(project, html);
+  const index = loadIndex(project);
+  index[clientId] = htmlHash;
+  writeFileSync(getIndexFile(project), JSON.stringify(index, null, 2));
+}
+
+// HTML of the client's current baseline, when it is known and still stored.
+export function loadBaselineHtml(project: string, screenshotName: string, clientId: string): BaselineHtml | undefined {
+  const history = loadHistory(project, screenshotName, clientId);
+  const current = history.versions.find(version => version.version === history.currentVersion);
+  // Without approvals (or back at the pre-history version) the baseline is the first-run one.
+  const htmlHash = current && current.source !== 'initial' ? current.htmlHash : loadIndex(project)[clientId];
+  if (!htmlHash) return undefined;
+
+  const file = resolve(getBaselineHtmlDir(project), `${htmlHash}.html`);
+  return existsSync(file) ? { htmlHash, html: readFileSync(file, 'utf-8') } : undefined;
+}
+
+function getIndexFile(project: string): string {
+  return resolve(getBaselineHtmlDir(project), 'baselines.json');
+}
+
+function loadIndex(project: string): Record<string, string> {
+  const file = getIndexFile(project);
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : {};
+}
@@ -0,0 +1,174 @@
+// PURPOSE: Loads the per-provider client catalogs (default-clients-*.json).
+// Shared by global setup (which clients to request) and the blueprint test (which tests to create).
+// The catalog sync (src/cli/clients.ts) compares them with the provider's current client list.
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { SupportedClient } from '../interfaces/preview-job';
+import { getRunConfig } from './run-config';
+
+// What a test should do when the provider gave no screenshot for a client:
+// - fail: the test fails with the provider's reason (default).
+// - flaky: the test is skipped and tagged "flaky/provider-error" with the reason; reports, results
+//   and run history list it as a provider error (see last-run.ts).
+export type ProviderErrorPolicy = 'fail' | 'flaky';
+
+export interface ClientCatalogEntry {
+  id: string;
+  client: string;
+  os: string;
+  category: string;
+  browser?: string;
+  default?: boolean;
+  image_blocking?: boolean;
+  onProviderError?: ProviderErrorPolicy;
+  // Light-mode counterpart of a dark-mode client, when its ID does not follow the usual pattern.
+  darkModeOf?: string;
+  // Set by the catalog sync when the provider stopped offering the client; never requested.
+  retired?: boolean;
+}
+
+// Differences between a catalog and the provider's client list.
+export interface CatalogSyncReport {
+  /** Catalog clients the provider no longer offers (not yet marked retired). */
+  retired: ClientCatalogEntry[];
+  /** Clients marked retired that the provider offers again. */
+  restored: ClientCatalogEntry[];
+  /** Provider clients missing from the catalog. */
+  added: SupportedClient[];
+  /** Catalog details the provider now describes differently. */
+  changed: { id: string; field: 'client' | 'os' | 'category' | 'browser'; from?: string; to: string }[];
+}
+
+// A client rendered in light and in dark mode (same app/OS), analysed together.
+export interface DarkModePair {
+  light: ClientCatalogEntry;
+  dark: ClientCatalogEntry;
+}
+
+// Each provider names its clients differently, so each has its own client catalog.
+export const CLIENT_CATALOG_FILES: Record<string, string> = {
+  emailonacid: resolve(__dirname, '..', '..', 'default-clients-eoa.json'),
+  litmus: resolve(__dirname, '..', '..', 'default-clients-litmus.json'),
+  local: resolve(__dirname, '..', '..', 'default-clients-local.json'),
+};
+
+// Reads the catalog for a provider as a list, in file order.
+export function loadClientCatalog(serviceName: string): ClientCatalogEntry[] {
+  const clientsFile = CLIENT_CATALOG_FILES[serviceName];
+  if (!clientsFile || !existsSync(clientsFile)) {
+    throw new Error(`Missing default clients config for "${serviceName}": ${clientsFile}`);
+  }
+  const clientsConfig: Record<string, ClientCatalogEntry> = JSON.parse(
+    readFileSync(clientsFile, 'utf-8')
+  );
+  return Object.values(clientsConfig);
+}
+
+// Writes a provider's catalog back in the file's own format (keyed by ID, in list order).
+export function saveClientCatalog(serviceName: string, catalog: ClientCatalogEntry[]): void {
+  const clientsFile = CLIENT_CATALOG_FILES[serviceName];
+  if (!clientsFile) throw new Error(`No client catalog for "${serviceName}".`);
+  const clientsConfig = Object.fromEntries(catalog.map(entry => [entry.id, entry]));
+  writeFileSync(clientsFile, `${JSON.stringify(clientsConfig, null, 2)}\n`);
+}
+
+// Compares a catalog with the provider's client list. Details are only compared where the
+// provider reports them (Litmus only lists IDs); whitespace differences do not count.
+export function diffClientCatalog(catalog: ClientCatalogEntry[], supported: SupportedClient[]): CatalogSyncReport {
+  const offered = new Map(supported.map(client => [client.id, client]));
+  const known = new Set(catalog.map(entry => entry.id));
+  const normalize = (value?: string) => value?.replace(/\s+/g, ' ').trim() || undefined;
+  const report: CatalogSyncReport = {
+    retired: catalog.filter(entry => !entry.retired && !offered.has(entry.id)),
+    restored: catalog.filter(entry => entry.retired && offered.has(entry.id)),
+    added: supported.filter(client => !known.has(client.id)),
+    changed: [],
+  };
+
+  for (const entry of catalog) {
+    const current = offered.get(entry.id);
+    if (!current) continue;
+    for (const field of ['client', 'os', 'category', 'browser'] as const) {
+      const to = normalize(current[field]);
+      if (to && to !== normalize(entry[field])) report.changed.push({ id: entry.id, field, from: entry[field], to });
+    }
+  }
+  return report;
+}
+
+// The catalog with a sync report applied: retired clients marked, restored ones unmarked and details
+// refreshed; new provider clients appended (not in the default set) when `addNew` is set.
+export function applyCatalogSync(
+  catalog: ClientCatalogEntry[],
+  report: CatalogSyncReport,
+  addNew: boolean = false
+): ClientCatalogEntry[] {
+  const retiredIds = new Set(report.retired.map(entry => entry.id));
+  const restoredIds = new Set(report.restored.map(entry => entry.id));
+  const updated = catalog.map(entry => {
+    const next: ClientCatalogEntry = { ...entry };
+    if (retiredIds.has(entry.id)) next.retired = true;
+    if (restoredIds.has(entry.id)) delete next.retired;
+    report.changed.filter(change => change.id === entry.id).forEach(change => { next[change.field] = change.to; });
+    return next;
+  });
+
+  if (addNew) {
+    report.added.forEach(client => updated.push({
+      id: client.id,
+      client: client.client || formatPreviewName(client.id).replace(/ Preview$/, ''),
+      os: client.os || '',
+      category: client.category || 'Uncategorized',
+      ...(client.browser ? { browser: client.browser } : {}),
+      default: false,
+    }));
+  }
+  return updated;
+}
+
+// Per-client policy wins; otherwise the run config's providerErrorPolicy (PROVIDER_ERROR_POLICY); otherwise "fail".
+export function getProviderErrorPolicy(
+  entry?: ClientCatalogEntry,
+  fallback: ProviderErrorPolicy = getRunConfig().providerErrorPolicy || 'fail'
+): ProviderErrorPolicy {
+  return entry?.onProviderError || fallback;
+}
+
+// Links each dark-mode client to its light-mode counterpart, in catalog order:
+// "darkModeOf" if set, else the ID with its "dm" part swapped for "lm" or removed
+// ("applemail16_dm" -> "applemail16", "gmailcom-dm_chrcurrent_win10" -> "gmailcom-lm_chrcurrent_win10",
+// "iphone15dm" -> "iphone15"). Clients without a counterpart in the catalog are not paired.
+export function findDarkModePairs(catalog: ClientCatalogEntry[]): DarkModePair[] {
+  const byId = new Map(catalog.map(entry => [entry.id, entry]));
+  const pairs: DarkModePair[] = [];
+
+  for (const dark of catalog) {
+    const candidates = dark.darkModeOf
+      ? [dark.darkModeOf]
+      : [
+          dark.id.replace(/(^|[_-])dm(?=$|[_-])/, '$1lm'),
+          dark.id.replace(/(^|[_-])dm(?=$|[_-])/, '').replace(/^[_-]|[_-]$/g, ''),
+          dark.id.replace(/dm$/, ''),
+        ].filter(id => id && id !== dark.id);
+
+    const light = candidates.map(id => byId.get(id)).find(Boolean);
+    if (light) pairs.push({ light, dark });
+  }
+  return pairs;
+}
+
+// Human-readable client name for reports, e.g. "Gmail.com · Windows 10 (Dark Mode) · Chrome".
+export function formatClientDisplayName(entry: ClientCatalogEntry): string {
+  return [entry.client, entry.os.replace(/\s+/g, ' ').trim(), entry.browser].filter(Boolean).join(' · ');
+}
+
+// Test-friendly name derived from the client ID, e.g. "applemail16_dm" -> "Applemail16 Dm Preview".
+export function formatPreviewName(clientId: string): string {
+  return `${clientId.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase())} Preview`;
+}
+
+// Baseline file name for a client, e.g. "gmailcom-lm_chrcurrent_win10" -> "gmailcom-lm-chrcurrent-win10.png".
+export function getScreenshotName(clientId: string): string {
+  return `${clientId.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.png`;
+}
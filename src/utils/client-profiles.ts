@@ -0,0 +1,96 @@
+// PURPOSE: Named client profiles: which part of a provider's client catalog a run requests and tests.
+// Built-in profiles work on every catalog (they read the "category" and "default" fields and the
+// light/dark pairing); more can be defined in the run config's "profiles" section.
+//   full         every client (the default when no profile is selected)
+//   smoke        the catalog's "default": true clients, light mode only
+//   mobile-only  clients in the "Mobile" category, light and dark
+//   dark-mode    clients with a light and a dark variant, both sides (what the dark-mode checks need)
+// A run selects one with "profile" in the run config (per task too), EMAIL_CLIENT_PROFILE or --profile.
+// "clients" patterns then narrow the profile further. Clients marked "retired" by the catalog sync
+// are never requested.
+//
+// EXAMPLE (run config):
+//   "profiles": { "outlook": { "include": ["ol*", "m365*", "outlookcom*"], "colorScheme": "light" } },
+//   "profile": "smoke",
+//   "tasks": { "eb-21397-*": { "profile": "outlook" } }
+
+import { ClientCatalogEntry, findDarkModePairs } from './client-catalog';
+import { matchesGlob } from './glob';
+import { getRunConfig } from './run-config';
+
+export interface ClientProfile {
+  description?: string;
+  /** Client ID patterns ("*" wildcards); without it, every client. */
+  include?: string[];
+  /** Client ID patterns left out. */
+  exclude?: string[];
+  /** Catalog categories, e.g. ["Mobile", "Web"]. */
+  categories?: string[];
+  /** Only clients marked "default": true in the catalog. */
+  defaultOnly?: boolean;
+  /** light: no dark-mode clients; dark: only dark-mode ones; pairs: only clients with a light/dark counterpart. */
+  colorScheme?: 'light' | 'dark' | 'pairs';
+}
+
+export const DEFAULT_PROFILE = 'full';
+
+export const BUILT_IN_PROFILES: Record<string, ClientProfile> = {
+  full: { description: 'Every client in the catalog' },
+  smoke: { description: 'The catalog\'s default clients, light mode only', defaultOnly: true, colorScheme: 'light' },
+  'mobile-only': { description: 'Mobile clients, light and dark', categories: ['Mobile'] },
+  'dark-mode': { description: 'Clients with a light and a dark variant, both sides', colorScheme: 'pairs' },
+};
+
+// Built-in profiles plus the run config's own (which may redefine a built-in one).
+export function getClientProfiles(custom: Record<string, ClientProfile> = getRunConfig().profiles || {}): Record<string, ClientProfile> {
+  return { ...BUILT_IN_PROFILES, ...custom };
+}
+
+export function getClientProfile(name: string, profiles: Record<string, ClientProfile> = getClientProfiles()): ClientProfile {
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(`Unknown client profile "${name}". Available: ${Object.keys(profiles).join(', ')}`);
+  }
+  return profile;
+}
+
+// The catalog entries a run requests: not retired, in the profile, and matching the "clients" patterns.
+export function selectRunClients(
+  catalog: ClientCatalogEntry[],
+  selection: { profile?: string; clients?: string[] },
+  profiles: Record<string, ClientProfile> = getClientProfiles()
+): ClientCatalogEntry[] {
+  const profileName = selection.profile || DEFAULT_PROFILE;
+  let selected = applyClientProfile(catalog.filter(entry => !entry.retired), getClientProfile(profileName, profiles));
+  if (selected.length === 0) {
+    throw new Error(`Client profile "${profileName}" selects no client of the catalog.`);
+  }
+
+  const patterns = selection.clients;
+  if (patterns && patterns.length > 0) {
+    selected = selected.filter(entry => patterns.some(pattern => matchesGlob(pattern, entry.id)));
+    if (selected.length === 0) {
+      throw new Error(`Client set "${patterns.join(', ')}" matches no client of profile "${profileName}".`);
+    }
+  }
+  return selected;
+}
+
+// Entries of the catalog in the profile, in catalog order.
+export function applyClientProfile(catalog: ClientCatalogEntry[], profile: ClientProfile): ClientCatalogEntry[] {
+  const pairs = findDarkModePairs(catalog);
+  const darkIds = new Set(pairs.map(pair => pair.dark.id));
+  const pairedIds = new Set(pairs.flatMap(pair => [pair.light.id, pair.dark.id]));
+  const isDark = (entry: ClientCatalogEntry) => darkIds.has(entry.id) || /dark mode/i.test(entry.os);
+  const categories = profile.categories?.map(category => category.toLowerCase());
+
+  return catalog.filter(entry =>
+    (!profile.include || profile.include.some(pattern => matchesGlob(pattern, entry.id)))
+    && !profile.exclude?.some(pattern => matchesGlob(pattern, entry.id))
+    && (!categories || categories.includes(entry.category.toLowerCase()))
+    && (!profile.defaultOnly || entry.default === true)
+    && (profile.colorScheme !== 'light' || !isDark(entry))
+    && (profile.colorScheme !== 'dark' || isDark(entry))
+    && (profile.colorScheme !== 'pairs' || pairedIds.has(entry.id))
+  );
+}
@@ -0,0 +1,48 @@
+// PURPOSE: Small helpers shared by all preview services to build and summarize ClientResults.
+
+import { ClientResult, ClientStatus } from '../interfaces/preview-job';
+
+// Builds a finished ClientResult and fills in the timing fields.
+export function createClientResult(
+  clientId: string,
+  status: ClientStatus,
+  requestedAt: Date,
+  details: { screenshots?: Record<string, string>; reason?: string; raw?: unknown } = {}
+): ClientResult {
+  const finishedAt = new Date();
+  return {
+    clientId,
+    status,
+    screenshots: details.screenshots || {},
+    ...(details.reason ? { reason: details.reason } : {}),
+    timing: {
+      requestedAt: requestedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - requestedAt.getTime(),
+    },
+    ...(details.raw !== undefined ? { raw: details.raw } : {}),
+  };
+}
+
+// The screenshot tests compare against (the provider's main variant).
+export function getPrimaryScreenshot(result: ClientResult): string {
+  return result.screenshots.default || Object.values(result.screenshots)[0] || '';
+}
+
+// Prints the end-of-polling summary: how many succeeded and why the rest did not.
+export function logResultSummary(results: ClientResult[]): void {
+  const complete = results.filter(result => result.status === 'complete');
+
+  if (complete.length === results.length) {
+    console.log(`\n✅ All ${complete.length} screenshot(s) ready.\n`);
+    return;
+  }
+
+  console.warn(`\n⚠️ Captured ${complete.length}/${results.length}.`);
+  for (const result of results) {
+    if (result.status !== 'complete') {
+      console.warn(`   ${result.status.toUpperCase()}: ${result.clientId} - ${result.reason || 'no reason given'}`);
+    }
+  }
+  console.warn('');
+}
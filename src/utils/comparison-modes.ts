@@ -0,0 +1,337 @@
+// PURPOSE: The comparison modes a client can be checked with besides Playwright's pixel ratio
+// ("mode" of the comparison options, per client in the email config). Each mode returns a verdict,
+// a one-line summary and its own heatmap:
+// - ssim: structural similarity (brightness, contrast, structure) of 8x8 blocks. Tolerates the
+//   anti-aliasing differences between two renders, but notices a changed word in a paragraph.
+// - perceptual: CIEDE2000 color distance; only pixels a reader can tell apart count as different.
+// - layout-shift: finds the vertical offset that best aligns both images (an ad banner above the
+//   email, Gmail clipping below it) and diffs the overlapping content only.
+// The pixel mode is here too (same rule as image-compare.ts), so every mode can be checked alike.
+//
+// EXAMPLE:
+//   const result = compareWithMode(current, baseline, { mode: 'ssim', minSsim: 0.98 });
+//   result.passed -> false; result.summary -> "SSIM 0.9712 (minimum 0.98), 3.10% of the area dissimilar"
+//   result.heatmap -> faded baseline, dissimilar blocks from yellow (slightly) to red (completely)
+
+import { PNG } from 'pngjs';
+import { COMPARISON_MODES, ComparisonMode, ComparisonOptions } from './email-config';
+import { blend, compareImages, formatDiffPercent, luminance } from './image-compare';
+
+export interface ModeComparison {
+  mode: ComparisonMode;
+  passed: boolean;
+  /** Share of the compared area counted as different (ssim: the area of blocks below minSsim). */
+  diffRatio: number;
+  /** ssim: mean similarity of all blocks, up to 1 (identical). */
+  ssim?: number;
+  /** layout-shift: rows the content of the actual image sits below the expected one (negative: above). */
+  offsetY?: number;
+  summary: string;
+  /** Size differences and rows without a counterpart. */
+  notes: string[];
+  heatmap: PNG;
+}
+
+const DEFAULT_MIN_SSIM = 0.98;
+const DEFAULT_MAX_DELTA_E = 2.3;
+const DEFAULT_MAX_SHIFT = 300;
+const SSIM_BLOCK = 8;
+// SSIM's stabilizing constants for 8-bit values.
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+// Each row is summarized as the mean brightness of this many horizontal bands to align two images.
+const ROW_BANDS = 8;
+// Rows without a counterpart in the other image (layout-shift).
+const UNMATCHED_COLOR = [90, 140, 255, 255];
+
+export function compareWithMode(actual: PNG, expected: PNG, options: ComparisonOptions = {}): ModeComparison {
+  switch (options.mode || 'pixel') {
+    case 'pixel':
+      return comparePixels(actual, expected, options);
+    case 'ssim':
+      return compareSsim(actual, expected, options);
+    case 'perceptual':
+      return comparePerceptual(actual, expected, options);
+    case 'layout-shift':
+      return compareLayoutShift(actual, expected, options);
+    default:
+      throw new Error(`Unknown comparison mode "${options.mode}" (use one of ${COMPARISON_MODES.join(', ')}).`);
+  }
+}
+
+// Playwright's rule: a size difference fails, otherwise the differing pixels must stay within the limits.
+function comparePixels(actual: PNG, expected: PNG, options: ComparisonOptions): ModeComparison {
+  const { width, height, diffPixels, diffRatio, sizeMismatch, diffImage } = compareImages(actual, expected, options);
+  return {
+    mode: 'pixel',
+    passed: !sizeMismatch && withinPixelLimits(diffPixels, width * height, options),
+    diffRatio,
+    summary: `${formatDiffPercent(diffRatio)} of the pixels differ (${diffPixels})`,
+    notes: sizeMismatch ? [sizeMismatch] : [],
+    heatmap: diffImage,
+  };
+}
+
+// Blocks reaching past either image count as completely dissimilar.
+function compareSsim(actual: PNG, expected: PNG, options: ComparisonOptions): ModeComparison {
+  const minSsim = options.minSsim ?? DEFAULT_MIN_SSIM;
+  const width = Math.max(actual.width, expected.width);
+  const height = Math.max(actual.height, expected.height);
+  const heatmap = new PNG({ width, height });
+  let weightedSum = 0;
+  let dissimilarArea = 0;
+
+  for (let top = 0; top < height; top += SSIM_BLOCK) {
+    for (let left = 0; left < width; left += SSIM_BLOCK) {
+      const blockWidth = Math.min(SSIM_BLOCK, width - left);
+      const blockHeight = Math.min(SSIM_BLOCK, height - top);
+      const similarity = blockSsim(actual, expected, left, top, blockWidth, blockHeight);
+      weightedSum += similarity * blockWidth * blockHeight;
+
+      const dissimilar = similarity < minSsim;
+      if (dissimilar) dissimilarArea += blockWidth * blockHeight;
+      for (let y = top; y < top + blockHeight; y++) {
+        for (let x = left; x < left + blockWidth; x++) {
+          paintPixel(heatmap, x, y, expected, dissimilar ? Math.max(0.1, Math.min(1, (1 - similarity) * 2)) : undefined);
+        }
+      }
+    }
+  }
+
+  const area = width * height;
+  const ssim = area === 0 ? 1 : weightedSum / area;
+  const diffRatio = area === 0 ? 0 : dissimilarArea / area;
+  return {
+    mode: 'ssim',
+    passed: ssim >= minSsim,
+    diffRatio,
+    ssim,
+    summary: `SSIM ${ssim.toFixed(4)} (minimum ${minSsim}), ${formatDiffPercent(diffRatio)} of the area dissimilar`,
+    notes: sizeNotes(actual, expected),
+    heatmap,
+  };
+}
+
+// Pixels outside either image count as different.
+function comparePerceptual(actual: PNG, expected: PNG, options: ComparisonOptions): ModeComparison {
+  const maxDeltaE = options.maxDeltaE ?? DEFAULT_MAX_DELTA_E;
+  const width = Math.max(actual.width, expected.width);
+  const height = Math.max(actual.height, expected.height);
+  const heatmap = new PNG({ width, height });
+  let diffPixels = 0;
+  let largest = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = x < actual.width && y < actual.height && x < expected.width && y < expected.height;
+      const distance = inside
+        ? deltaE2000(toLab(blend(actual.data, (y * actual.width + x) * 4)), toLab(blend(expected.data, (y * expected.width + x) * 4)))
+        : Infinity;
+      if (inside) largest = Math.max(largest, distance);
+
+      const different = distance > maxDeltaE;
+      if (different) diffPixels++;
+      // Five times the allowed distance and more is full red.
+      paintPixel(heatmap, x, y, expected, different ? Math.max(0.1, Math.min(1, distance / (maxDeltaE * 5))) : undefined);
+    }
+  }
+
+  const diffRatio = width * height === 0 ? 0 : diffPixels / (width * height);
+  return {
+    mode: 'perceptual',
+    passed: withinPixelLimits(diffPixels, width * height, options),
+    diffRatio,
+    summary: `${formatDiffPercent(diffRatio)} of the pixels beyond ΔE ${maxDeltaE} (${diffPixels}, largest ΔE ${largest.toFixed(1)})`,
+    notes: sizeNotes(actual, expected),
+    heatmap,
+  };
+}
+
+// Rows only one image has (the banner, the clipped end) are left out of the comparison; the heatmap
+// is drawn over the actual image, with its unmatched rows in blue.
+function compareLayoutShift(actual: PNG, expected: PNG, options: ComparisonOptions): ModeComparison {
+  const offsetY = findVerticalOffset(actual, expected, options.maxShift ?? DEFAULT_MAX_SHIFT);
+  const top = Math.max(0, -offsetY);
+  const bottom = Math.min(expected.height, actual.height - offsetY);
+  const rows = Math.max(0, bottom - top);
+  const overlap = compareImages(cropRows(actual, top + offsetY, rows), cropRows(expected, top, rows), options);
+
+  const heatmap = new PNG({ width: overlap.width, height: actual.height });
+  for (let y = 0; y < actual.height; y++) {
+    const overlapRow = y - offsetY - top;
+    if (overlapRow >= 0 && overlapRow < rows) {
+      overlap.diffImage.data.copy(heatmap.data, y * overlap.width * 4, overlapRow * overlap.width * 4, (overlapRow + 1) * overlap.width * 4);
+    } else {
+      for (let x = 0; x < overlap.width; x++) heatmap.data.set(UNMATCHED_COLOR, (y * overlap.width + x) * 4);
+    }
+  }
+
+  const notes: string[] = [];
+  if (offsetY !== 0) notes.push(`Content shifted ${Math.abs(offsetY)}px ${offsetY > 0 ? 'down' : 'up'} against the baseline.`);
+  if (actual.height > rows) notes.push(`${actual.height - rows} row(s) of the screenshot have no counterpart in the baseline (blue).`);
+  if (expected.height > rows) notes.push(`${expected.height - rows} row(s) of the baseline are missing from the screenshot.`);
+  if (actual.width !== expected.width) notes.push(`Image width ${actual.width} differs from the expected ${expected.width}.`);
+
+  return {
+    mode: 'layout-shift',
+    passed: rows > 0 && withinPixelLimits(overlap.diffPixels, overlap.width * rows, options),
+    diffRatio: overlap.diffRatio,
+    offsetY,
+    summary: `${formatDiffPercent(overlap.diffRatio)} of the aligned pixels differ (${overlap.diffPixels}, offset ${offsetY}px)`,
+    notes,
+    heatmap,
+  };
+}
+
+// INTERNAL: Playwright's limit: the lower of maxDiffPixels and maxDiffPixelRatio of the area (none set: 0).
+function withinPixelLimits(diffPixels: number, area: number, options: ComparisonOptions): boolean {
+  const limits = [options.maxDiffPixels, options.maxDiffPixelRatio !== undefined ? options.maxDiffPixelRatio * area : undefined]
+    .filter((limit): limit is number => limit !== undefined);
+  return diffPixels <= (limits.length > 0 ? Math.min(...limits) : 0);
+}
+
+function sizeNotes(actual: PNG, expected: PNG): string[] {
+  return actual.width !== expected.width || actual.height !== expected.height
+    ? [`Image size ${actual.width}x${actual.height} differs from the expected ${expected.width}x${expected.height}.`]
+    : [];
+}
+
+// INTERNAL: SSIM of one block's brightness in both images (0 when it reaches past either image).
+function blockSsim(actual: PNG, expected: PNG, left: number, top: number, blockWidth: number, blockHeight: number): number {
+  const right = left + blockWidth;
+  const bottom = top + blockHeight;
+  if (right > actual.width || right > expected.width || bottom > actual.height || bottom > expected.height) return 0;
+
+  const count = blockWidth * blockHeight;
+  let sumA = 0, sumE = 0, sumAA = 0, sumEE = 0, sumAE = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const a = luminance(actual.data, (y * actual.width + x) * 4);
+      const e = luminance(expected.data, (y * expected.width + x) * 4);
+      sumA += a;
+      sumE += e;
+      sumAA += a * a;
+      sumEE += e * e;
+      sumAE += a * e;
+    }
+  }
+
+  const meanA = sumA / count;
+  const meanE = sumE / count;
+  const varianceA = sumAA / count - meanA * meanA;
+  const varianceE = sumEE / count - meanE * meanE;
+  const covariance = sumAE / count - meanA * meanE;
+  return ((2 * meanA * meanE + SSIM_C1) * (2 * covariance + SSIM_C2))
+    / ((meanA * meanA + meanE * meanE + SSIM_C1) * (varianceA + varianceE + SSIM_C2));
+}
+
+// INTERNAL: The offset with the closest row profiles over the overlap (at least half of the shorter
+// image). Offsets are tried from 0 outwards and only a better score wins, so blank areas move nothing.
+function findVerticalOffset(actual: PNG, expected: PNG, maxShift: number): number {
+  const bandWidth = Math.min(actual.width, expected.width) / ROW_BANDS;
+  const actualProfile = rowProfile(actual, bandWidth);
+  const expectedProfile = rowProfile(expected, bandWidth);
+  const minOverlap = Math.ceil(Math.min(actual.height, expected.height) / 2);
+  let best = { offset: 0, score: Infinity };
+
+  for (let shift = 0; shift <= maxShift; shift++) {
+    for (const offset of shift === 0 ? [0] : [shift, -shift]) {
+      const top = Math.max(0, -offset);
+      const bottom = Math.min(expected.height, actual.height - offset);
+      if (bottom - top < Math.max(1, minOverlap)) continue;
+
+      let score = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let band = 0; band < ROW_BANDS; band++) {
+          score += Math.abs(actualProfile[(y + offset) * ROW_BANDS + band] - expectedProfile[y * ROW_BANDS + band]);
+        }
+      }
+      score /= bottom - top;
+      if (score < best.score - 1e-9) best = { offset, score };
+    }
+  }
+  return best.offset;
+}
+
+// INTERNAL: Mean brightness of each row's bands (bands of the narrower image's width).
+function rowProfile(image: PNG, bandWidth: number): Float64Array {
+  const profile = new Float64Array(image.height * ROW_BANDS);
+  if (bandWidth === 0) return profile;
+  for (let y = 0; y < image.height; y++) {
+    for (let band = 0; band < ROW_BANDS; band++) {
+      const from = Math.floor(band * bandWidth);
+      const to = Math.max(from + 1, Math.floor((band + 1) * bandWidth));
+      let sum = 0;
+      for (let x = from; x < to; x++) sum += luminance(image.data, (y * image.width + x) * 4);
+      profile[y * ROW_BANDS + band] = sum / (to - from);
+    }
+  }
+  return profile;
+}
+
+function cropRows(image: PNG, start: number, rows: number): PNG {
+  const cropped = new PNG({ width: image.width, height: rows });
+  image.data.copy(cropped.data, 0, start * image.width * 4, (start + rows) * image.width * 4);
+  return cropped;
+}
+
+// INTERNAL: Heat from yellow (0) to red (1) for flagged pixels, otherwise the expected pixel faded to
+// gray (as in image-compare's diff image).
+function paintPixel(heatmap: PNG, x: number, y: number, expected: PNG, heat?: number): void {
+  const target = (y * heatmap.width + x) * 4;
+  if (heat !== undefined) {
+    heatmap.data.set([255, Math.round(220 * (1 - heat)), 0, 255], target);
+    return;
+  }
+  const gray = x < expected.width && y < expected.height
+    ? 255 + (luminance(expected.data, (y * expected.width + x) * 4) - 255) * 0.1
+    : 255;
+  heatmap.data.set([gray, gray, gray, 255], target);
+}
+
+// INTERNAL: sRGB (0-255) to CIELAB under the D65 white point.
+function toLab([red, green, blue]: [number, number, number]): [number, number, number] {
+  const [r, g, b] = [red, green, blue].map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f((0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047);
+  const fy = f(0.2126729 * r + 0.7151522 * g + 0.072175 * b);
+  const fz = f((0.0193339 * r + 0.119192 * g + 0.9503041 * b) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+// INTERNAL: CIEDE2000 color difference (Sharma, Wu and Dalal's formulation). About 2.3 is just noticeable.
+function deltaE2000([l1, a1, b1]: [number, number, number], [l2, a2, b2]: [number, number, number]): number {
+  if (l1 === l2 && a1 === a2 && b1 === b2) return 0;
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const hue = (b: number, a: number) => (a === 0 && b === 0 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360);
+  const pow7 = (value: number) => value ** 7 / (value ** 7 + 25 ** 7);
+
+  const g = 0.5 * (1 - Math.sqrt(pow7((Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2)));
+  const c1 = Math.hypot(a1 * (1 + g), b1);
+  const c2 = Math.hypot(a2 * (1 + g), b2);
+  const h1 = hue(b1, a1 * (1 + g));
+  const h2 = hue(b2, a2 * (1 + g));
+
+  let deltaH = 0;
+  let meanH = h1 + h2;
+  if (c1 * c2 !== 0) {
+    deltaH = h2 - h1;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+    if (Math.abs(h1 - h2) > 180) meanH += meanH < 360 ? 360 : -360;
+    meanH /= 2;
+  }
+
+  const meanL = (l1 + l2) / 2;
+  const meanC = (c1 + c2) / 2;
+  const t = 1 - 0.17 * Math.cos(radians(meanH - 30)) + 0.24 * Math.cos(radians(2 * meanH))
+    + 0.32 * Math.cos(radians(3 * meanH + 6)) - 0.2 * Math.cos(radians(4 * meanH - 63));
+  const rotation = -Math.sin(radians(60 * Math.exp(-(((meanH - 275) / 25) ** 2)))) * 2 * Math.sqrt(pow7(meanC));
+  const lightness = (l2 - l1) / (1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2));
+  const chroma = (c2 - c1) / (1 + 0.045 * meanC);
+  const hueDifference = (2 * Math.sqrt(c1 * c2) * Math.sin(radians(deltaH / 2))) / (1 + 0.015 * meanC * t);
+  return Math.sqrt(lightness ** 2 + chroma ** 2 + hueDifference ** 2 + rotation * chroma * hueDifference);
+}
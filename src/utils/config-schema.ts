@@ -0,0 +1,76 @@
+// PURPOSE: The minimal schema language both config files are checked with: the run config
+// (email-tester.config.json, env vars and flags, see run-config.ts) and the per-email config
+// (emails/<task>.config.json, see email-config.ts). Unknown keys and wrong types are errors with
+// the key path, not silently ignored values that make a run fall back to defaults.
+//
+// EXAMPLE:
+//   const errors: string[] = [];
+//   validate({ maxDiffPixelRatio: '3%' }, { type: 'object', properties: { maxDiffPixelRatio: RATIO } }, '', errors);
+//   errors -> ['maxDiffPixelRatio: expected a number']
+
+export type SchemaNode =
+  | { type: 'string'; enum?: readonly string[]; pattern?: RegExp; hint?: string; secret?: boolean }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: SchemaNode }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[] }
+  | { type: 'record'; values: SchemaNode }
+  // The first option without errors wins; otherwise the value is reported as "expected <hint>".
+  | { type: 'anyOf'; options: SchemaNode[]; hint: string };
+
+export const RATIO: SchemaNode = { type: 'number', min: 0, max: 1 };
+export const SECONDS: SchemaNode = { type: 'number', min: 0 };
+export const COUNT: SchemaNode = { type: 'number', min: 0, integer: true };
+
+// Appends one message per problem ("<path>: <problem>") to `errors`.
+export function validate(value: unknown, node: SchemaNode, path: string, errors: string[]): void {
+  const at = path || '(root)';
+  switch (node.type) {
+    case 'string':
+      if (typeof value !== 'string') return void errors.push(`${at}: expected a string`);
+      if (node.enum && !node.enum.includes(value)) errors.push(`${at}: "${value}" is not one of ${node.enum.join(', ')}`);
+      if (node.pattern && !node.pattern.test(value)) {
+        // A value in a credential field may be a pasted secret: never echo it.
+        errors.push(`${at}: expected ${node.hint || node.pattern}${node.secret ? '' : `, got "${value}"`}`);
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return void errors.push(`${at}: expected a number`);
+      if (node.integer && !Number.isInteger(value)) errors.push(`${at}: expected a whole number, got ${value}`);
+      if (node.min !== undefined && value < node.min) errors.push(`${at}: must be at least ${node.min}, got ${value}`);
+      if (node.max !== undefined && value > node.max) errors.push(`${at}: must be at most ${node.max}, got ${value}`);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${at}: expected true or false`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) return void errors.push(`${at}: expected an array`);
+      value.forEach((item, index) => validate(item, node.items, `${path}[${index}]`, errors));
+      return;
+    case 'anyOf':
+      if (!node.options.some(option => findErrors(value, option, path).length === 0)) errors.push(`${at}: expected ${node.hint}`);
+      return;
+    case 'object':
+    case 'record':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return void errors.push(`${at}: expected an object`);
+      for (const [name, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${name}` : name;
+        const childNode = node.type === 'record' ? node.values : node.properties[name];
+        if (!childNode) {
+          errors.push(`${childPath}: unknown setting (allowed: ${Object.keys((node as { properties: object }).properties).join(', ')})`);
+        } else {
+          validate(child, childNode, childPath, errors);
+        }
+      }
+      if (node.type === 'object') {
+        node.required?.filter(name => !(name in value)).forEach(name => errors.push(`${path ? `${path}.${name}` : name}: missing`));
+      }
+      return;
+  }
+}
+
+function findErrors(value: unknown, node: SchemaNode, path: string): string[] {
+  const errors: string[] = [];
+  validate(value, node, path, errors);
+  return errors;
+}
@@ -0,0 +1,271 @@
+// PURPOSE: Compares a client's light-mode and dark-mode screenshots of the same email and flags
+// what dark mode broke. Both images are split into 16px tiles at the same positions:
+// - vanished-content: the light tile shows something (text, logo) and the dark tile is flat
+//   (typical: a dark logo on a transparent background, now on a dark background).
+// - low-contrast: the dark tile still shows it, but below the minimum contrast ratio (WCAG-style).
+// - inverted-image: a colorful tile (photo, illustration) whose brightness is flipped, i.e. the
+//   client force-inverted an image.
+// Adjacent flagged tiles are merged into one region per finding.
+//
+// Severities, the contrast threshold and failOn are set per email in emails/<task>.config.json:
+//   "darkMode": { "minContrast": 3, "rules": { "inverted-image": "error" }, "failOn": "error" }
+
+import { PNG } from 'pngjs';
+import { DarkModeConfig, LintSeverity, PixelRegion, SEVERITY_ICONS, isAtLeast } from './email-config';
+
+export type DarkModeRule = 'vanished-content' | 'low-contrast' | 'inverted-image';
+
+export interface DarkModeFinding {
+  rule: DarkModeRule;
+  severity: LintSeverity;
+  message: string;
+  /** Affected area, in screenshot pixels (same for both images). */
+  region: PixelRegion;
+  /** Highest contrast ratio in the region's light tiles. */
+  lightContrast: number;
+  /** Lowest contrast ratio in the region's dark tiles. */
+  darkContrast: number;
+}
+
+export interface DarkModeReport {
+  findings: DarkModeFinding[];
+  failOn: LintSeverity | 'never';
+  failed: boolean;
+  /** Area both screenshots cover; only this part is analyzed. */
+  comparedSize: { width: number; height: number };
+  /** Set when the screenshots differ in size, so positions may not line up exactly. */
+  sizeWarning?: string;
+}
+
+export const DARK_MODE_RULES: Record<DarkModeRule, LintSeverity> = {
+  'vanished-content': 'error',
+  'low-contrast': 'warning',
+  'inverted-image': 'warning',
+};
+
+const TILE_SIZE = 16;
+// A light tile "shows something" from this contrast ratio on (anti-aliased text reaches ~4 and more).
+const CONTENT_CONTRAST = 3;
+// Below this the dark tile is practically one color.
+const VANISHED_CONTRAST = 1.25;
+const DEFAULT_MIN_CONTRAST = 3;
+// Single tiles are mostly noise (scrollbars, anti-aliasing); a finding needs this many.
+const MIN_REGION_TILES = 2;
+
+interface TileStats {
+  contrast: number;
+  colorful: boolean;
+  luminance: Float64Array;
+}
+
+interface FlaggedTile {
+  column: number;
+  row: number;
+  rule: DarkModeRule;
+  lightContrast: number;
+  darkContrast: number;
+}
+
+// Analyzes the area both screenshots cover. `ignoreRegions` (masked dynamic content) are skipped.
+export function analyzeDarkModePair(
+  light: PNG,
+  dark: PNG,
+  config: DarkModeConfig = {},
+  ignoreRegions: PixelRegion[] = []
+): DarkModeReport {
+  const width = Math.min(light.width, dark.width);
+  const height = Math.min(light.height, dark.height);
+  const minContrast = config.minContrast ?? DEFAULT_MIN_CONTRAST;
+  const flagged: FlaggedTile[] = [];
+
+  for (let row = 0; row * TILE_SIZE < height; row++) {
+    for (let column = 0; column * TILE_SIZE < width; column++) {
+      const tile = {
+        x: column * TILE_SIZE,
+        y: row * TILE_SIZE,
+        width: Math.min(TILE_SIZE, width - column * TILE_SIZE),
+        height: Math.min(TILE_SIZE, height - row * TILE_SIZE),
+      };
+      if (ignoreRegions.some(region => overlaps(region, tile))) continue;
+
+      const rule = checkTile(getTileStats(light, tile), getTileStats(dark, tile), minContrast);
+      if (rule) flagged.push({ column, row, ...rule });
+    }
+  }
+
+  const findings: DarkModeFinding[] = [];
+  for (const ruleId of Object.keys(DARK_MODE_RULES) as DarkModeRule[]) {
+    const severity = config.rules?.[ruleId] ?? DARK_MODE_RULES[ruleId];
+    if (severity === 'off') continue;
+
+    for (const group of groupTiles(flagged.filter(tile => tile.rule === ruleId))) {
+      if (group.length < MIN_REGION_TILES) continue;
+      findings.push(toFinding(ruleId, severity, group, width, height, minContrast));
+    }
+  }
+  findings.sort((a, b) => a.region.y - b.region.y || a.region.x - b.region.x);
+
+  const failOn = config.failOn || 'error';
+  const failed = failOn !== 'never' && findings.some(finding => isAtLeast(finding.severity, failOn));
+  const sizeWarning = light.width !== dark.width || light.height !== dark.height
+    ? `Screenshots differ in size (light ${light.width}x${light.height}, dark ${dark.width}x${dark.height}); only the common ${width}x${height} area was compared.`
+    : undefined;
+
+  return { findings, failOn, failed, comparedSize: { width, height }, ...(sizeWarning ? { sizeWarning } : {}) };
+}
+
+// Console/annotation lines for a report (one per finding).
+export function formatDarkModeReport(report: DarkModeReport): string[] {
+  const lines = report.sizeWarning ? [`⚠️ ${report.sizeWarning}`] : [];
+  if (report.findings.length === 0) return [...lines, '✅ Dark mode: no findings.'];
+
+  lines.push(`Dark mode: ${report.findings.length} finding(s):`);
+  for (const finding of report.findings) {
+    const { x, y, width, height } = finding.region;
+    lines.push(
+      `   ${SEVERITY_ICONS[finding.severity]} ${finding.severity.toUpperCase()} ${finding.rule} at ${x},${y} (${width}x${height}): ${finding.message}`
+    );
+  }
+  return lines;
+}
+
+// INTERNAL: Which rule (if any) a tile pair breaks. Colorful tiles are images: only inversion
+// matters there (their contrast is not text contrast). Everything else is text, logos, lines.
+function checkTile(
+  light: TileStats,
+  dark: TileStats,
+  minContrast: number
+): Omit<FlaggedTile, 'column' | 'row'> | undefined {
+  const contrasts = { lightContrast: light.contrast, darkContrast: dark.contrast };
+
+  if (light.colorful) {
+    return correlation(light.luminance, dark.luminance) < -0.5 ? { rule: 'inverted-image', ...contrasts } : undefined;
+  }
+  if (light.contrast < CONTENT_CONTRAST) return undefined;
+  if (dark.contrast < VANISHED_CONTRAST) return { rule: 'vanished-content', ...contrasts };
+  if (dark.contrast < minContrast && dark.contrast < light.contrast) return { rule: 'low-contrast', ...contrasts };
+  return undefined;
+}
+
+// INTERNAL: Contrast between the tile's darkest and lightest 5% (robust to anti-aliasing),
+// whether it is colorful (saturated and varied: an image), and per-pixel luminance.
+function getTileStats(image: PNG, tile: PixelRegion): TileStats {
+  const count = tile.width * tile.height;
+  const luminance = new Float64Array(count);
+  let saturationSum = 0;
+
+  let index = 0;
+  for (let y = tile.y; y < tile.y + tile.height; y++) {
+    for (let x = tile.x; x < tile.x + tile.width; x++) {
+      const offset = (y * image.width + x) * 4;
+      const [red, green, blue] = [image.data[offset], image.data[offset + 1], image.data[offset + 2]];
+      luminance[index++] = relativeLuminance(red, green, blue);
+      const max = Math.max(red, green, blue);
+      saturationSum += max === 0 ? 0 : (max - Math.min(red, green, blue)) / max;
+    }
+  }
+
+  const sorted = Float64Array.from(luminance).sort();
+  const low = sorted[Math.floor(count * 0.05)];
+  const high = sorted[Math.min(count - 1, Math.floor(count * 0.95))];
+  const mean = luminance.reduce((sum, value) => sum + value, 0) / count;
+  const deviation = Math.sqrt(luminance.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count);
+
+  return {
+    contrast: (high + 0.05) / (low + 0.05),
+    colorful: saturationSum / count > 0.25 && deviation > 0.08,
+    luminance,
+  };
+}
+
+// INTERNAL: WCAG relative luminance of an sRGB color (0 = black, 1 = white).
+function relativeLuminance(red: number, green: number, blue: number): number {
+  const channel = (value: number) => {
+    const normalized = value / 255;
+    return normalized <= 0.03928 ? normalized / 12.92 : ((normalized + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(red) + 0.7152 * channel(green) + 0.0722 * channel(blue);
+}
+
+// INTERNAL: Pearson correlation; strongly negative = one image is the other with brightness flipped.
+function correlation(a: Float64Array, b: Float64Array): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let index = 0; index < a.length; index++) {
+    covariance += (a[index] - meanA) * (b[index] - meanB);
+    varianceA += (a[index] - meanA) ** 2;
+    varianceB += (b[index] - meanB) ** 2;
+  }
+  return varianceA === 0 || varianceB === 0 ? 0 : covariance / Math.sqrt(varianceA * varianceB);
+}
+
+// INTERNAL: Connected groups of tiles (including diagonal neighbors).
+function groupTiles(tiles: FlaggedTile[]): FlaggedTile[][] {
+  const byPosition = new Map(tiles.map(tile => [`${tile.column},${tile.row}`, tile]));
+  const seen = new Set<FlaggedTile>();
+  const groups: FlaggedTile[][] = [];
+
+  for (const start of tiles) {
+    if (seen.has(start)) continue;
+    const group: FlaggedTile[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const tile = queue.pop()!;
+      group.push(tile);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighbor = byPosition.get(`${tile.column + dx},${tile.row + dy}`);
+          if (neighbor && !seen.has(neighbor)) {
+            seen.add(neighbor);
+            queue.push(neighbor);
+          }
+        }
+      }
+    }
+    groups.push(group);
+  }
+  return groups;
+}
+
+function toFinding(
+  rule: DarkModeRule,
+  severity: LintSeverity,
+  group: FlaggedTile[],
+  width: number,
+  height: number,
+  minContrast: number
+): DarkModeFinding {
+  const left = Math.min(...group.map(tile => tile.column)) * TILE_SIZE;
+  const top = Math.min(...group.map(tile => tile.row)) * TILE_SIZE;
+  const right = Math.min(width, (Math.max(...group.map(tile => tile.column)) + 1) * TILE_SIZE);
+  const bottom = Math.min(height, (Math.max(...group.map(tile => tile.row)) + 1) * TILE_SIZE);
+  const lightContrast = round(Math.max(...group.map(tile => tile.lightContrast)));
+  const darkContrast = round(Math.min(...group.map(tile => tile.darkContrast)));
+
+  const messages: Record<DarkModeRule, string> = {
+    'vanished-content': `content visible in light mode (contrast ${lightContrast}:1) disappears in dark mode (${darkContrast}:1); e.g. a dark logo on a transparent background`,
+    'low-contrast': `contrast drops from ${lightContrast}:1 to ${darkContrast}:1 in dark mode (minimum ${minContrast}:1)`,
+    'inverted-image': 'image colors are inverted in dark mode (the client forced inversion)',
+  };
+
+  return {
+    rule,
+    severity,
+    message: messages[rule],
+    region: { name: rule, x: left, y: top, width: right - left, height: bottom - top },
+    lightContrast,
+    darkContrast,
+  };
+}
+
+function overlaps(a: PixelRegion, b: PixelRegion): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,292 @@
+// PURPOSE: Structural diff of two versions of an email's HTML, to point a failed screenshot
+// comparison at the markup change that likely caused it. Both documents are normalized first
+// (whitespace collapsed, style declarations sorted, tracking parameters dropped from links), then
+// compared as trees: at each level the children are matched in order (longest common subsequence
+// of elements with the same tag and mostly the same content), and matched elements are compared.
+// Reported:
+// - added / removed elements (the outermost one only, not everything inside it),
+// - changed inline styles (per CSS property),
+// - changed links (href) and image sources (src),
+// - other changed layout attributes (width, height, align, bgcolor...) and changed text.
+//
+// EXAMPLE:
+//   ~ style     body > table > tr > td.hero padding: "20px" -> "12px"
+//   + added     body > table > tr:nth-of-type(2) > td > p "New promo"
+
+import { HTMLElement, Node, NodeType, parse } from 'node-html-parser';
+
+export type DomChangeKind = 'added' | 'removed' | 'style' | 'link' | 'image' | 'attribute' | 'text';
+
+export interface DomChange {
+  kind: DomChangeKind;
+  /** CSS-like path of the element, e.g. "body > table > tr:nth-of-type(2) > td.hero". */
+  path: string;
+  /** Changed CSS property or attribute name. */
+  property?: string;
+  before?: string;
+  after?: string;
+}
+
+export interface DomDiff {
+  changes: DomChange[];
+  /** Set when a very long list of siblings was matched by tag only (moved content may show as removed + added). */
+  approximate?: boolean;
+}
+
+// Compared besides style/href/src; other attributes (ids, data-*, tracking) are noise for rendering.
+const LAYOUT_ATTRIBUTES = ['class', 'width', 'height', 'align', 'valign', 'bgcolor', 'background', 'border', 'cellpadding', 'cellspacing', 'color', 'face', 'size', 'dir'];
+// Query parameters that change with every send and never affect the rendering.
+const TRACKING_PARAMETER = /^(utm_[a-z]+|mc_[a-z]+|_hsenc|_hsmi|gclid|fbclid)$/i;
+// Elements whose content is not compared as text.
+const NON_TEXT_TAGS = ['style', 'script', 'head', 'title'];
+// Two elements with the same tag are "the same element, changed" from this content similarity on.
+const MIN_SIMILARITY = 0.5;
+// Sibling lists longer than this (product of both lengths) are matched by tag only.
+const MAX_SIMILARITY_CELLS = 250_000;
+const MAX_TEXT_LENGTH = 80;
+
+interface TreeElement {
+  tag: string;
+  path: string;
+  styles: Map<string, string>;
+  attributes: Map<string, string>;
+  text: string;
+  /** All text inside the element (shown for added/removed elements). */
+  content: string;
+  children: TreeElement[];
+  /** Tags, classes, words and URLs of the element and everything inside it (for matching). */
+  fingerprint: Set<string>;
+}
+
+export function diffHtml(beforeHtml: string, afterHtml: string): DomDiff {
+  const state = { changes: [] as DomChange[], approximate: false };
+  diffChildren(toTree(beforeHtml), toTree(afterHtml), state);
+  return { changes: state.changes, ...(state.approximate ? { approximate: true } : {}) };
+}
+
+// One line per change (at most `limit`), for annotations and the attached diff file. Long values are
+// shortened here only (the changes keep the full text), around the first difference.
+export function formatDomDiff(diff: DomDiff, limit = 50): string[] {
+  if (diff.changes.length === 0) return ['No structural HTML changes (the difference is not in the markup: fonts, images, client updates).'];
+
+  const symbols: Record<DomChangeKind, string> = { added: '+', removed: '-', style: '~', link: '~', image: '~', attribute: '~', text: '~' };
+  const lines = diff.changes.slice(0, limit).map(change => {
+    const content = change.after ?? change.before;
+    const start = change.before !== undefined && change.after !== undefined ? excerptStart(change.before, change.after) : 0;
+    const detail = change.kind === 'added' || change.kind === 'removed'
+      ? (content ? ` ${quote(shorten(content))}` : '')
+      : `${change.property ? ` ${change.property}` : ''}: ${quote(excerpt(change.before, start))} -> ${quote(excerpt(change.after, start))}`;
+    return `${symbols[change.kind]} ${change.kind.padEnd(9)} ${change.path}${detail}`;
+  });
+  if (diff.changes.length > limit) lines.push(`... and ${diff.changes.length - limit} more change(s)`);
+  if (diff.approximate) lines.push('(Very long element lists were matched by tag only, so moved content may show as removed + added.)');
+  return lines;
+}
+
+// Counts per kind, e.g. "3 style, 1 link, 2 added".
+export function summarizeDomDiff(diff: DomDiff): string {
+  const counts = new Map<DomChangeKind, number>();
+  diff.changes.forEach(change => counts.set(change.kind, (counts.get(change.kind) || 0) + 1));
+  return [...counts].map(([kind, count]) => `${count} ${kind}`).join(', ') || 'no markup changes';
+}
+
+// INTERNAL: Top-level elements of the document, normalized.
+function toTree(html: string): TreeElement[] {
+  const root = parse(html, { comment: false, lowerCaseTagName: true });
+
+  const build = (element: HTMLElement, siblings: HTMLElement[], parentPath: string): TreeElement => {
+    const tag = element.rawTagName.toLowerCase();
+    const sameTag = siblings.filter(sibling => sibling.rawTagName.toLowerCase() === tag);
+    const classes = (element.getAttribute('class') || '').trim().split(/\s+/).filter(Boolean).slice(0, 2);
+    const nth = sameTag.length > 1 ? `:nth-of-type(${sameTag.indexOf(element) + 1})` : '';
+    const step = `${tag}${classes.map(name => `.${name}`).join('')}${nth}`;
+    const path = parentPath ? `${parentPath} > ${step}` : step;
+
+    const childElements = element.childNodes.filter(isElement);
+    const children = childElements.map(child => build(child, childElements, path));
+    const attributes = getAttributes(element);
+    const text = NON_TEXT_TAGS.includes(tag) ? '' : ownText(element);
+
+    const fingerprint = new Set([tag, ...classes.map(name => `${tag}.${name}`), ...text.toLowerCase().split(' ').filter(Boolean)]);
+    ['href', 'src'].forEach(name => attributes.has(name) && fingerprint.add(attributes.get(name)!));
+    children.forEach(child => child.fingerprint.forEach(token => fingerprint.add(token)));
+
+    const content = NON_TEXT_TAGS.includes(tag) ? '' : collapse(element.text);
+    return { tag, path, styles: parseStyle(element.getAttribute('style') || ''), attributes, text, content, children, fingerprint };
+  };
+
+  const topLevel = root.childNodes.filter(isElement);
+  return topLevel.map(element => build(element, topLevel, ''));
+}
+
+// INTERNAL: Matches two sibling lists, reports what was added/removed, and recurses into the pairs.
+// Output follows the new document's order; removed elements appear where they used to be (with
+// their path in the old document).
+function diffChildren(before: TreeElement[], after: TreeElement[], state: { changes: DomChange[]; approximate: boolean }): void {
+  const bySimilarity = before.length * after.length <= MAX_SIMILARITY_CELLS;
+  if (!bySimilarity) state.approximate = true;
+  const same = (a: TreeElement, b: TreeElement) =>
+    a.tag === b.tag && (!bySimilarity || similarity(a.fingerprint, b.fingerprint) >= MIN_SIMILARITY);
+
+  // LCS table, filled from the end so the walk below goes forward.
+  const columns = after.length + 1;
+  const table = new Uint32Array((before.length + 1) * columns);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i * columns + j] = same(before[i], after[j])
+        ? table[(i + 1) * columns + j + 1] + 1
+        : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && same(before[i], after[j])
+      && table[i * columns + j] === table[(i + 1) * columns + j + 1] + 1) {
+      state.changes.push(...compareElements(before[i], after[j]));
+      diffChildren(before[i++].children, after[j++].children, state);
+    } else if (j >= after.length || (i < before.length && table[(i + 1) * columns + j] >= table[i * columns + j + 1])) {
+      state.changes.push(describeElement('removed', before[i++]));
+    } else {
+      state.changes.push(describeElement('added', after[j++]));
+    }
+  }
+}
+
+// Dice coefficient of two fingerprints (1 = same content).
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size + b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(token => b.has(token) && shared++);
+  return (2 * shared) / (a.size + b.size);
+}
+
+function compareElements(before: TreeElement, after: TreeElement): DomChange[] {
+  const changes: DomChange[] = [];
+  const path = after.path;
+
+  for (const property of new Set([...before.styles.keys(), ...after.styles.keys()])) {
+    const [old, now] = [before.styles.get(property), after.styles.get(property)];
+    if (old !== now) changes.push({ kind: 'style', path, property, ...value('before', old), ...value('after', now) });
+  }
+
+  const attributes: [string, DomChangeKind][] = [
+    ['href', 'link'],
+    ['src', 'image'],
+    ...LAYOUT_ATTRIBUTES.map(name => [name, 'attribute'] as [string, DomChangeKind]),
+  ];
+  for (const [name, kind] of attributes) {
+    const [old, now] = [before.attributes.get(name), after.attributes.get(name)];
+    if (old !== now) changes.push({ kind, path, property: name, ...value('before', old), ...value('after', now) });
+  }
+
+  if (before.text !== after.text) changes.push({ kind: 'text', path, before: before.text, after: after.text });
+  return changes;
+}
+
+function describeElement(kind: 'added' | 'removed', element: TreeElement): DomChange {
+  const content = element.attributes.get('src') || element.attributes.get('href') || element.content;
+  return { kind, path: element.path, ...(content ? (kind === 'added' ? { after: content } : { before: content }) : {}) };
+}
+
+// "Padding:20PX ; color: Red" -> padding=20px, color=red (sorted); shorthands are compared as written.
+function parseStyle(style: string): Map<string, string> {
+  const declarations = splitDeclarations(style)
+    .map(declaration => declaration.split(':'))
+    .filter(parts => parts.length >= 2 && parts[0].trim())
+    .map(([property, ...rest]) => [property.trim().toLowerCase(), normalizeCssValue(rest.join(':'))] as [string, string]);
+  return new Map(declarations.sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// INTERNAL: Splits at the ";" between declarations, not at those inside url(...) or quotes
+// (background:url(data:image/png;base64,...)).
+function splitDeclarations(style: string): string[] {
+  const declarations: string[] = [];
+  let current = '';
+  let quoteChar: string | undefined;
+  let depth = 0;
+  for (const char of style) {
+    if (quoteChar) {
+      if (char === quoteChar) quoteChar = undefined;
+    } else if (char === '"' || char === "'") {
+      quoteChar = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && depth === 0) {
+      declarations.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  return [...declarations, current];
+}
+
+// Case only matters in url(...) and quoted font names.
+function normalizeCssValue(value: string): string {
+  const normalized = /url\(|["']/i.test(value) ? value : value.toLowerCase();
+  return normalized
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s*!important$/i, ' !important');
+}
+
+function getAttributes(element: HTMLElement): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [name, raw] of Object.entries(element.attributes)) {
+    const key = name.toLowerCase();
+    const normalized = raw.trim().replace(/\s+/g, ' ');
+    attributes.set(key, key === 'href' || key === 'src' ? normalizeUrl(normalized) : normalized);
+  }
+  return attributes;
+}
+
+// INTERNAL: Drops per-send tracking parameters so only real link changes are reported.
+function normalizeUrl(url: string): string {
+  const [base, query] = url.split('?', 2);
+  if (query === undefined) return url;
+  const [params, hash] = query.split('#', 2);
+  const kept = params.split('&').filter(param => param && !TRACKING_PARAMETER.test(param.split('=')[0]));
+  return `${base}${kept.length > 0 ? `?${kept.join('&')}` : ''}${hash !== undefined ? `#${hash}` : ''}`;
+}
+
+// Text directly inside the element (not in child elements), whitespace collapsed.
+function ownText(element: HTMLElement): string {
+  return collapse(element.childNodes.filter(node => node.nodeType === NodeType.TEXT_NODE).map(node => node.text).join(' '));
+}
+
+function collapse(text: string): string {
+  return text.replace(/\u00a0/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function shorten(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
+
+// INTERNAL: Where both excerpts of a long changed value start: a little before the first difference.
+function excerptStart(before: string, after: string): number {
+  let common = 0;
+  while (common < before.length && common < after.length && before[common] === after[common]) common++;
+  return Math.max(0, Math.max(before.length, after.length) > MAX_TEXT_LENGTH ? common - 20 : 0);
+}
+
+function excerpt(text: string | undefined, start: number): string | undefined {
+  if (text === undefined || start === 0) return text === undefined ? text : shorten(text);
+  return `…${shorten(text.slice(start))}`;
+}
+
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function value(side: 'before' | 'after', text?: string): Partial<DomChange> {
+  return text !== undefined ? { [side]: text } : {};
+}
+
+function quote(text?: string): string {
+  return text === undefined ? '(none)' : `"${text}"`;
+}
@@ -0,0 +1,234 @@
+// PURPOSE: Loads the optional per-email config file that sits next to the HTML:
+//   emails/<task>.html (or .eml / .hbs)  ->  emails/<task>.config.json
+// It declares ignore regions (dynamic content to mask) and comparison thresholds,
+// globally and per client. Missing file = defaults (no masks, 5% pixel ratio).
+//
+// EXAMPLE:
+// {
+//   "maxDiffPixelRatio": 0.03,
+//   "ignoreRegions": [
+//     { "name": "timestamp", "x": 40, "y": 120, "width": 300, "height": 24 },
+//     { "name": "greeting", "selector": ".greeting" }
+//   ],
+//   "clients": {
+//     "m365_w11_lm_dt": { "maxDiffPixelRatio": 0.08 },
+//     "gmail_*": { "mode": "layout-shift" },
+//     "*_dm": { "ignoreRegions": [{ "name": "hero", "selector": "#hero img" }] }
+//   },
+//   "lint": { "rules": { "css-grid": "error" }, "failOn": "error" },
+//   "darkMode": { "minContrast": 3, "rules": { "inverted-image": "error" } }
+// }
+
+import { existsSync, readFileSync } from 'fs';
+import { COUNT, RATIO, SchemaNode, validate } from './config-schema';
+import { matchesGlob } from './glob';
+
+// A rectangle in screenshot pixels (origin = top-left of the provider's image).
+export interface PixelRegion {
+  name?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Elements of the email HTML; their boxes are measured in a local render and mapped onto the screenshot.
+export interface SelectorRegion {
+  name?: string;
+  selector: string;
+}
+
+export type IgnoreRegion = PixelRegion | SelectorRegion;
+
+// How a screenshot is compared with its baseline (see comparison-modes.ts):
+// - pixel: Playwright's toMatchSnapshot (share of pixels beyond the YIQ color threshold).
+// - ssim: structural similarity of 8x8 blocks; fails below minSsim.
+// - perceptual: CIEDE2000 color distance per pixel; pixels beyond maxDeltaE count as different.
+// - layout-shift: aligns the content vertically first (ad banners, Gmail clipping), then diffs the overlap.
+export type ComparisonMode = 'pixel' | 'ssim' | 'perceptual' | 'layout-shift';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['pixel', 'ssim', 'perceptual', 'layout-shift'];
+
+// Options of the screenshot comparison; the first three are Playwright's own.
+export interface ComparisonOptions {
+  maxDiffPixelRatio?: number;
+  maxDiffPixels?: number;
+  threshold?: number;
+  mode?: ComparisonMode;
+  // ssim: lowest mean similarity that passes, 0 to 1 (default 0.98).
+  minSsim?: number;
+  // perceptual: largest CIEDE2000 distance of a matching pixel (default 2.3, a just noticeable difference).
+  maxDeltaE?: number;
+  // layout-shift: largest vertical offset searched, in pixels (default 300).
+  maxShift?: number;
+}
+
+// How boxes from the local render map onto a client's screenshot (client UI offset, device scale).
+export interface SelectorTransform {
+  offsetX?: number;
+  offsetY?: number;
+  scale?: number;
+}
+
+export interface ClientConfig extends ComparisonOptions {
+  ignoreRegions?: IgnoreRegion[];
+  selectorTransform?: SelectorTransform;
+}
+
+// Severity of an HTML lint finding; "off" disables the rule.
+export type LintSeverity = 'info' | 'warning' | 'error';
+
+// Least to most severe, shared by the HTML lint and the dark-mode analysis.
+export const SEVERITY_ORDER: LintSeverity[] = ['info', 'warning', 'error'];
+
+export const SEVERITY_ICONS: Record<LintSeverity, string> = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+
+// Whether a finding of `severity` reaches a failOn `threshold`.
+export function isAtLeast(severity: LintSeverity, threshold: LintSeverity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+}
+
+// Pre-flight HTML checks (see html-lint.ts). failOn defaults to "error".
+export interface LintConfig {
+  rules?: Record<string, LintSeverity | 'off'>;
+  failOn?: LintSeverity | 'never';
+}
+
+// Light/dark screenshot pair checks (see dark-mode-analysis.ts). failOn defaults to "error".
+export interface DarkModeConfig {
+  // false skips the dark-mode tests for this email.
+  enabled?: boolean;
+  // Minimum contrast ratio in the dark render (default 3, WCAG's large-text level).
+  minContrast?: number;
+  rules?: Record<string, LintSeverity | 'off'>;
+  failOn?: LintSeverity | 'never';
+}
+
+export interface EmailConfig extends ClientConfig {
+  // Viewport used to render the HTML locally when measuring selector regions.
+  selectorViewport?: { width: number; height?: number };
+  // Keys are client IDs; "*" matches any characters (e.g. "*_dm" for every dark-mode client).
+  clients?: Record<string, ClientConfig>;
+  lint?: LintConfig;
+  darkMode?: DarkModeConfig;
+}
+
+// Everything the blueprint test needs for one client, with defaults filled in.
+export interface ResolvedClientConfig {
+  comparison: ComparisonOptions;
+  ignoreRegions: IgnoreRegion[];
+  selectorTransform: Required<SelectorTransform>;
+  selectorViewport: { width: number; height: number };
+}
+
+const DEFAULT_COMPARISON: ComparisonOptions = { maxDiffPixelRatio: 0.05 };
+const COMPARISON_KEYS: (keyof ComparisonOptions)[] = [
+  'maxDiffPixelRatio', 'maxDiffPixels', 'threshold', 'mode', 'minSsim', 'maxDeltaE', 'maxShift',
+];
+const DEFAULT_SELECTOR_VIEWPORT = { width: 600, height: 800 };
+
+// Comparison options, here and in the run config's "comparison".
+export const COMPARISON_SCHEMA: Record<string, SchemaNode> = {
+  maxDiffPixelRatio: RATIO,
+  maxDiffPixels: COUNT,
+  threshold: RATIO,
+  mode: { type: 'string', enum: COMPARISON_MODES },
+  minSsim: RATIO,
+  maxDeltaE: { type: 'number', min: 0 },
+  maxShift: COUNT,
+};
+
+const PIXEL: SchemaNode = { type: 'number', min: 0 };
+const RULE_SEVERITIES: SchemaNode = { type: 'record', values: { type: 'string', enum: [...SEVERITY_ORDER, 'off'] } };
+const FAIL_ON: SchemaNode = { type: 'string', enum: [...SEVERITY_ORDER, 'never'] };
+
+const CLIENT_CONFIG_SCHEMA: Record<string, SchemaNode> = {
+  ...COMPARISON_SCHEMA,
+  ignoreRegions: {
+    type: 'array',
+    items: {
+      type: 'anyOf',
+      hint: 'a pixel region { "x", "y", "width", "height" } or a selector region { "selector" }',
+      options: [
+        { type: 'object', properties: { name: { type: 'string' }, x: PIXEL, y: PIXEL, width: PIXEL, height: PIXEL }, required: ['x', 'y', 'width', 'height'] },
+        { type: 'object', properties: { name: { type: 'string' }, selector: { type: 'string' } }, required: ['selector'] },
+      ],
+    },
+  },
+  selectorTransform: {
+    type: 'object',
+    properties: { offsetX: { type: 'number' }, offsetY: { type: 'number' }, scale: { type: 'number', min: 0 } },
+  },
+};
+
+const EMAIL_CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    ...CLIENT_CONFIG_SCHEMA,
+    selectorViewport: { type: 'object', properties: { width: { type: 'number', min: 1 }, height: { type: 'number', min: 1 } }, required: ['width'] },
+    clients: { type: 'record', values: { type: 'object', properties: CLIENT_CONFIG_SCHEMA } },
+    lint: { type: 'object', properties: { rules: RULE_SEVERITIES, failOn: FAIL_ON } },
+    darkMode: {
+      type: 'object',
+      properties: { enabled: { type: 'boolean' }, minContrast: { type: 'number', min: 1 }, rules: RULE_SEVERITIES, failOn: FAIL_ON },
+    },
+  },
+};
+
+export function getEmailConfigFile(htmlFile: string): string {
+  return htmlFile.replace(/\.(html?|eml|hbs)$/i, '') + '.config.json';
+}
+
+// Reads the config next to the HTML file. Invalid JSON, unknown keys and wrong types are errors
+// (better than silently unmasked tests or default thresholds).
+export function loadEmailConfig(htmlFile: string): EmailConfig {
+  const configFile = getEmailConfigFile(htmlFile);
+  if (!existsSync(configFile)) return {};
+
+  let config: EmailConfig;
+  try {
+    config = JSON.parse(readFileSync(configFile, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid email config ${configFile}: ${error.message}`);
+  }
+  const errors: string[] = [];
+  validate(config, EMAIL_CONFIG_SCHEMA, '', errors);
+  if (errors.length > 0) throw new Error(`Invalid email config ${configFile}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  return config;
+}
+
+// Merges global settings with every matching "clients" entry (in file order), on top of the
+// comparison defaults (the run config's "comparison" for the task, then 5% pixel ratio).
+export function resolveClientConfig(
+  config: EmailConfig,
+  clientId: string,
+  defaultComparison: ComparisonOptions = {}
+): ResolvedClientConfig {
+  const matching = Object.entries(config.clients || {})
+    .filter(([pattern]) => matchesGlob(pattern, clientId))
+    .map(([, clientConfig]) => clientConfig);
+
+  const layers: ClientConfig[] = [config, ...matching];
+  const comparison: ComparisonOptions = { ...DEFAULT_COMPARISON, ...defaultComparison };
+  const selectorTransform: Required<SelectorTransform> = { offsetX: 0, offsetY: 0, scale: 1 };
+  const ignoreRegions: IgnoreRegion[] = [];
+
+  for (const layer of layers) {
+    for (const key of COMPARISON_KEYS) {
+      if (layer[key] !== undefined) Object.assign(comparison, { [key]: layer[key] });
+    }
+    Object.assign(selectorTransform, layer.selectorTransform);
+    ignoreRegions.push(...(layer.ignoreRegions || []));
+  }
+
+  return {
+    comparison,
+    ignoreRegions,
+    selectorTransform,
+    selectorViewport: { ...DEFAULT_SELECTOR_VIEWPORT, ...config.selectorViewport },
+  };
+}
+
+export function isSelectorRegion(region: IgnoreRegion): region is SelectorRegion {
+  return typeof (region as SelectorRegion).selector === 'string';
+}
@@ -0,0 +1,45 @@
+// PURPOSE: Saves an email fetched from a source where the rest of the pipeline expects it:
+//   emails/<task>.html        <- the HTML (what global setup uploads)
+//   emails/<task>.meta.json   <- subject, headers and where the email came from
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { EmailOrigin, FetchedEmail } from '../interfaces/i-email-source';
+import { hashContent } from './hash';
+
+export interface EmailMetadata {
+  subject?: string;
+  headers: Record<string, string>;
+  receivedAt?: string;
+  origin: EmailOrigin;
+  fetchedAt: string;
+  htmlHash: string;
+}
+
+export function getEmailMetadataFile(htmlFile: string): string {
+  return htmlFile.replace(/\.html?$/i, '') + '.meta.json';
+}
+
+// Writes the HTML and its metadata next to each other (overwriting a previous fetch).
+export function saveFetchedEmail(htmlFile: string, email: FetchedEmail): EmailMetadata {
+  const metadata: EmailMetadata = {
+    ...(email.subject ? { subject: email.subject } : {}),
+    headers: email.headers,
+    ...(email.receivedAt ? { receivedAt: email.receivedAt } : {}),
+    origin: email.origin,
+    fetchedAt: new Date().toISOString(),
+    htmlHash: hashContent(email.html),
+  };
+
+  mkdirSync(dirname(htmlFile), { recursive: true });
+  writeFileSync(htmlFile, email.html);
+  writeFileSync(getEmailMetadataFile(htmlFile), JSON.stringify(metadata, null, 2));
+  return metadata;
+}
+
+// Metadata saved with the HTML, if the email was fetched from a source.
+export function loadEmailMetadata(htmlFile: string): EmailMetadata | undefined {
+  const metadataFile = getEmailMetadataFile(htmlFile);
+  if (!existsSync(metadataFile)) return undefined;
+  return JSON.parse(readFileSync(metadataFile, 'utf-8'));
+}
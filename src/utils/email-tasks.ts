@@ -0,0 +1,189 @@
+// PURPOSE: Decides which emails a run covers.
+// - Single mode (default): TASK_NAME (run config "task") selects emails/<sanitized task>.html.
+// - Batch mode: EMAIL_BATCH (run config "batch") selects several emails from emails/:
+//     EMAIL_BATCH=all                    -> every .html / .eml / .hbs file
+//     EMAIL_BATCH="eb-19999-staging-*"   -> file names matching a glob (* and ?)
+//     EMAIL_BATCH="EB-1 Staging,eb-2-*"  -> a list of task names and globs
+//     EMAIL_BATCH=batches/campaign.json  -> a manifest: JSON array or one name per line (.txt)
+// An emails/<name>.eml next to (or instead of) <name>.html is the raw message the HTML is
+// extracted from at setup; both count as one task.
+// An emails/<name>.hbs template expands into one task per data fixture in emails/<name>.fixtures/
+// ("<name> [long-name]", sanitized "<name>--long-name"), rendered at setup into temp/rendered/.
+// EMAIL_FIXTURES="short-name,empty-cart" (run config "fixtures") limits the fixtures used.
+// Each resolved task becomes its own Playwright project, baseline folder and preview-URL file.
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import { sanitizeFilename } from './filename';
+import { matchesGlob } from './glob';
+import { RunConfig, getRunConfig } from './run-config';
+
+export const ROOT_DIR = resolve(__dirname, '..', '..');
+// Folders from the run config ("paths"); by default emails/, temp/ and reports/ in the project.
+export const EMAILS_DIR = getRunConfig().paths.emails;
+export const TEMP_DIR = getRunConfig().paths.temp;
+export const REPORTS_DIR = getRunConfig().paths.reports;
+export const RENDERED_DIR = resolve(TEMP_DIR, 'rendered');
+
+const EMAIL_FILE_PATTERN = /\.(html|eml|hbs)$/i;
+
+export interface EmailTask {
+  /** Name shown in logs and test titles (TASK_NAME, or the file name in batch mode). */
+  taskName: string;
+  /** Filesystem-safe name: Playwright project, baseline folder and preview file suffix. */
+  sanitizedTaskName: string;
+  /** Absolute path of the email HTML (may not exist when reusing an existing provider test). */
+  htmlFile: string;
+  /** Raw message (emails/<name>.eml) that htmlFile is extracted from, when there is one. */
+  emlFile?: string;
+  /** Template (emails/<name>.hbs) and data fixture that htmlFile is rendered from, for template variants. */
+  template?: TemplateVariant;
+}
+
+export interface TemplateVariant {
+  templateFile: string;
+  /** emails/<name>.fixtures/<variant>.json; absent when the template has no fixtures. */
+  fixtureFile?: string;
+  variant?: string;
+}
+
+// Resolves the run's tasks from TASK_NAME / EMAIL_BATCH. Empty when neither is set.
+export function resolveEmailTasks(selection: Pick<RunConfig, 'task' | 'batch' | 'fixtures'> = getRunConfig()): EmailTask[] {
+  const { batch, task: taskName, fixtures } = selection;
+  if (batch) {
+    return resolveBatch(batch, fixtures);
+  }
+
+  if (!taskName) return [];
+
+  const sanitizedTaskName = sanitizeFilename(taskName);
+  return toTasks(taskName, sanitizedTaskName, fixtures);
+}
+
+export function isBatchMode(): boolean {
+  return !!getRunConfig().batch;
+}
+
+// The file people edit for this task (template, .eml or HTML); per-email config sits next to it.
+export function getTaskSourceFile(task: EmailTask): string {
+  return task.template?.templateFile || task.emlFile || task.htmlFile;
+}
+
+// Preview list written by global setup and read by the blueprint test.
+export function getGeneratedPreviewFile(sanitizedTaskName: string): string {
+  return resolve(TEMP_DIR, `generated-preview-urls-${sanitizedTaskName}.json`);
+}
+
+// Tag put on a task's tests so each Playwright project only runs its own email.
+export function getTaskTag(sanitizedTaskName: string): string {
+  return `@${sanitizedTaskName}`;
+}
+
+// Project "grep" matching exactly one task tag (a tag for "eb-1" must not match "eb-1-es").
+export function getTaskGrep(sanitizedTaskName: string): RegExp {
+  return new RegExp(`${escapeRegExp(getTaskTag(sanitizedTaskName))}(\\s|$)`);
+}
+
+// INTERNAL: Turn an EMAIL_BATCH value into tasks.
+function resolveBatch(batch: string, fixtures?: string[]): EmailTask[] {
+  let fileNames: string[];
+
+  if (batch.toLowerCase() === 'all') {
+    fileNames = listEmailFiles();
+  } else if (/\.(json|txt)$/i.test(batch)) {
+    fileNames = readManifest(resolve(ROOT_DIR, batch));
+  } else {
+    // Task names ("EB-1 Staging") match by their sanitized file name.
+    const patterns = batch.split(',').map(entry => entry.trim()).filter(Boolean)
+      .flatMap(entry => (/[*?]/.test(entry) ? [entry] : [entry, sanitizeFilename(entry)]))
+      .map(glob => (EMAIL_FILE_PATTERN.test(glob) ? glob : `${glob}.*`));
+    fileNames = listEmailFiles().filter(fileName => patterns.some(pattern => matchesGlob(pattern, fileName)));
+  }
+
+  // "eb-1.html", "eb-1.eml" and "eb-1.hbs" are the same email.
+  const taskNames = [...new Set(fileNames.map(fileName => basename(fileName, extname(fileName))))];
+  if (taskNames.length === 0) {
+    throw new Error(`EMAIL_BATCH "${batch}" did not match any .html, .eml or .hbs file in ${EMAILS_DIR}.`);
+  }
+
+  return taskNames.flatMap(taskName => toTasks(taskName, sanitizeFilename(taskName), fixtures, taskName));
+}
+
+// INTERNAL: Tasks for emails/<fileStem>.*: one per fixture for a template, else the HTML
+// (with the .eml it comes from, if present).
+function toTasks(taskName: string, sanitizedTaskName: string, fixtures?: string[], fileStem: string = sanitizedTaskName): EmailTask[] {
+  const templateFile = resolve(EMAILS_DIR, `${fileStem}.hbs`);
+  if (existsSync(templateFile)) {
+    return expandTemplate(taskName, sanitizedTaskName, templateFile, fixtures);
+  }
+
+  const emlFile = resolve(EMAILS_DIR, `${fileStem}.eml`);
+  return [{
+    taskName,
+    sanitizedTaskName,
+    htmlFile: resolve(EMAILS_DIR, `${fileStem}.html`),
+    ...(existsSync(emlFile) ? { emlFile } : {}),
+  }];
+}
+
+// INTERNAL: A template without fixtures is a single task rendered with empty data.
+function expandTemplate(taskName: string, sanitizedTaskName: string, templateFile: string, selected?: string[]): EmailTask[] {
+  const fixturesDir = templateFile.replace(/\.hbs$/i, '.fixtures');
+  const fixtureNames = existsSync(fixturesDir)
+    ? readdirSync(fixturesDir).filter(fileName => fileName.toLowerCase().endsWith('.json')).sort()
+    : [];
+
+  if (fixtureNames.length === 0) {
+    return [{
+      taskName,
+      sanitizedTaskName,
+      htmlFile: resolve(RENDERED_DIR, `${sanitizedTaskName}.html`),
+      template: { templateFile },
+    }];
+  }
+
+  const variants = fixtureNames
+    .map(fileName => basename(fileName, extname(fileName)))
+    .filter(variant => !selected || selected.includes(variant));
+  if (variants.length === 0) {
+    throw new Error(`EMAIL_FIXTURES "${selected!.join(',')}" matches no fixture in ${fixturesDir}.`);
+  }
+
+  return variants.map(variant => {
+    const variantTaskName = `${sanitizedTaskName}--${sanitizeFilename(variant)}`;
+    return {
+      taskName: `${taskName} [${variant}]`,
+      sanitizedTaskName: variantTaskName,
+      htmlFile: resolve(RENDERED_DIR, `${variantTaskName}.html`),
+      template: { templateFile, fixtureFile: resolve(fixturesDir, `${variant}.json`), variant },
+    };
+  });
+}
+
+// INTERNAL: All .html, .eml and .hbs files directly inside emails/, sorted for stable project order.
+function listEmailFiles(): string[] {
+  if (!existsSync(EMAILS_DIR)) return [];
+  return readdirSync(EMAILS_DIR)
+    .filter(fileName => EMAIL_FILE_PATTERN.test(fileName))
+    .sort();
+}
+
+// INTERNAL: Manifest entries may be file names ("eb-1.html", "eb-1.hbs") or task names ("EB-1 Staging").
+function readManifest(manifestFile: string): string[] {
+  if (!existsSync(manifestFile)) {
+    throw new Error(`EMAIL_BATCH manifest not found: ${manifestFile}`);
+  }
+
+  const content = readFileSync(manifestFile, 'utf-8');
+  const entries: string[] = manifestFile.toLowerCase().endsWith('.json')
+    ? JSON.parse(content)
+    : content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+  return entries.map(entry =>
+    EMAIL_FILE_PATTERN.test(entry) ? entry : `${sanitizeFilename(entry)}.html`
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,14 @@
+// PURPOSE: The one wildcard matcher behind client IDs, "tasks" keys and EMAIL_BATCH file names.
+// "*" matches any run of characters, "?" a single character; everything else is literal and
+// the match is case-insensitive.
+//
+// EXAMPLE:
+//   matchesGlob("ol*", "ol2021")                                -> true
+//   matchesGlob("eb-1999?-staging.*", "eb-19991-staging.html") -> true
+export function matchesGlob(pattern: string, value: string): boolean {
+  const regex = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${regex}$`, 'i').test(value);
+}
@@ -0,0 +1,6 @@
+// PURPOSE: Stable content fingerprints (SHA-256, hex) used to tie baselines and runs to the exact HTML.
+import { createHash } from 'crypto';
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,240 @@
+// PURPOSE: Pre-flight checks on the email HTML, run before anything is sent to a provider.
+// Catches problems that are known to break in specific clients (and would only cost credits
+// to discover): div layouts in Outlook, background images without VML, flexbox/grid,
+// images without alt/width, and Gmail's 102KB clipping limit.
+//
+// Which clients each rule affects comes from the local support matrix (email-support-matrix.json),
+// written against the client IDs in default-clients-eoa.json. Litmus and local runs get the same
+// lists, labeled as Email on Acid IDs. Severities can be changed, and the run failed early, per
+// email in emails/<task>.config.json:
+//   "lint": { "rules": { "css-grid": "error", "img-width": "off" }, "failOn": "error" }
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { HTMLElement, parse } from 'node-html-parser';
+import { ClientCatalogEntry, loadClientCatalog } from './client-catalog';
+import { LintConfig, LintSeverity, SEVERITY_ICONS, isAtLeast } from './email-config';
+import { matchesGlob } from './glob';
+
+export const SUPPORT_MATRIX_FILE = resolve(__dirname, '..', '..', 'email-support-matrix.json');
+// The provider whose client IDs the support matrix uses.
+export const SUPPORT_MATRIX_PROVIDER = 'emailonacid';
+
+// Gmail clips messages whose HTML is larger than this.
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+
+export interface SupportMatrixEntry {
+  name: string;
+  /** Client ID patterns ("*" wildcards) that do not support the feature. */
+  unsupported: string[];
+  /** Client ID patterns with partial or inconsistent support. */
+  partial: string[];
+  notes?: string;
+}
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  /** How many elements/declarations triggered the rule. */
+  occurrences: number;
+  /** 1-based line of the first occurrence, when known. */
+  line?: number;
+  /** Start of the first offending markup, shortened. */
+  example?: string;
+  /** Affected client IDs, from the support matrix. */
+  unsupportedClients: string[];
+  partialClients: string[];
+}
+
+export interface LintReport {
+  findings: LintFinding[];
+  /** Severity that makes the run fail ('never' = report only). */
+  failOn: LintSeverity | 'never';
+  failed: boolean;
+}
+
+// A rule returns the positions (offset + snippet) of each violation; empty = passed.
+interface Violation {
+  offset?: number;
+  example?: string;
+}
+
+interface LintRule {
+  id: string;
+  defaultSeverity: LintSeverity;
+  describe: (count: number) => string;
+  check: (html: string, root: HTMLElement) => Violation[];
+}
+
+const MSO_CONDITIONAL = /<!--\[if [^\]]*mso/i;
+const VML_BACKGROUND = /<v:(rect|fill|roundrect|image)\b/i;
+const LAYOUT_DIV_STYLE = /(^|;)\s*(width|max-width|float|display\s*:\s*inline-block)/i;
+const BACKGROUND_IMAGE_STYLE = /background(-image)?\s*:[^;]*url\(/i;
+const FLEX_DISPLAY = /display\s*:\s*(inline-)?flex\b/gi;
+const GRID_DISPLAY = /display\s*:\s*(inline-)?grid\b|grid-template(-columns|-rows|-areas)?\s*:/gi;
+
+const RULES: LintRule[] = [
+  {
+    id: 'div-layout',
+    defaultSeverity: 'warning',
+    describe: count => `${count} <div> element(s) sized or floated with CSS and no Outlook ghost tables in the email`,
+    check: (html, root) =>
+      MSO_CONDITIONAL.test(html)
+        ? []
+        : root
+            .querySelectorAll('div')
+            .filter(div => LAYOUT_DIV_STYLE.test(div.getAttribute('style') || ''))
+            .map(toViolation),
+  },
+  {
+    id: 'background-image',
+    defaultSeverity: 'warning',
+    describe: count => `${count} background image(s) without a VML fallback for Outlook`,
+    check: (html, root) =>
+      VML_BACKGROUND.test(html)
+        ? []
+        : root
+            .querySelectorAll('[style], [background]')
+            .filter(
+              element =>
+                element.hasAttribute('background') || BACKGROUND_IMAGE_STYLE.test(element.getAttribute('style') || '')
+            )
+            .map(toViolation),
+  },
+  {
+    id: 'css-flexbox',
+    defaultSeverity: 'warning',
+    describe: count => `${count} use(s) of display:flex`,
+    check: html => findCss(html, FLEX_DISPLAY),
+  },
+  {
+    id: 'css-grid',
+    defaultSeverity: 'warning',
+    describe: count => `${count} use(s) of CSS grid`,
+    check: html => findCss(html, GRID_DISPLAY),
+  },
+  {
+    id: 'img-alt',
+    defaultSeverity: 'warning',
+    describe: count => `${count} image(s) without an alt attribute (use alt="" for decorative images)`,
+    check: (_, root) => root.querySelectorAll('img').filter(img => !img.hasAttribute('alt')).map(toViolation),
+  },
+  {
+    id: 'img-width',
+    defaultSeverity: 'info',
+    describe: count => `${count} image(s) without a width attribute`,
+    check: (_, root) => root.querySelectorAll('img').filter(img => !img.hasAttribute('width')).map(toViolation),
+  },
+  {
+    id: 'gmail-clipping',
+    defaultSeverity: 'warning',
+    describe: () => `HTML is over Gmail's ${GMAIL_CLIP_BYTES / 1024}KB limit and will be clipped`,
+    check: html => {
+      const bytes = Buffer.byteLength(html, 'utf-8');
+      return bytes > GMAIL_CLIP_BYTES ? [{ example: `${(bytes / 1024).toFixed(1)}KB` }] : [];
+    },
+  },
+];
+
+export const LINT_RULE_IDS = RULES.map(rule => rule.id);
+
+export function loadSupportMatrix(matrixFile: string = SUPPORT_MATRIX_FILE): Record<string, SupportMatrixEntry> {
+  if (!existsSync(matrixFile)) {
+    throw new Error(`Missing email support matrix: ${matrixFile}`);
+  }
+  return JSON.parse(readFileSync(matrixFile, 'utf-8'));
+}
+
+// Runs every enabled rule. `clients` limits the affected-client lists (defaults to the EOA catalog,
+// whose IDs the support matrix uses).
+export function lintEmailHtml(
+  html: string,
+  config: LintConfig = {},
+  clients: ClientCatalogEntry[] = loadClientCatalog(SUPPORT_MATRIX_PROVIDER),
+  matrix: Record<string, SupportMatrixEntry> = loadSupportMatrix()
+): LintReport {
+  const root = parse(html, { comment: false });
+  const lineStarts = getLineStarts(html);
+  const findings: LintFinding[] = [];
+
+  for (const rule of RULES) {
+    const severity = config.rules?.[rule.id] ?? rule.defaultSeverity;
+    if (severity === 'off') continue;
+
+    const violations = rule.check(html, root);
+    if (violations.length === 0) continue;
+
+    const support = matrix[rule.id];
+    const affected = (patterns: string[] = []) =>
+      clients.filter(client => patterns.some(pattern => matchesGlob(pattern, client.id))).map(client => client.id);
+    const first = violations[0];
+
+    findings.push({
+      rule: rule.id,
+      severity,
+      message: `${rule.describe(violations.length)}.${support?.notes ? ` ${support.notes}` : ''}`,
+      occurrences: violations.length,
+      ...(first.offset !== undefined ? { line: getLine(lineStarts, first.offset) } : {}),
+      ...(first.example ? { example: first.example } : {}),
+      unsupportedClients: affected(support?.unsupported),
+      partialClients: affected(support?.partial),
+    });
+  }
+
+  const failOn = config.failOn || 'error';
+  const failed = failOn !== 'never' && findings.some(finding => isAtLeast(finding.severity, failOn));
+  return { findings, failOn, failed };
+}
+
+// Console lines for a report (one per finding, plus affected clients). For another provider's run the
+// client lists say they are Email on Acid IDs: they need not be clients of the run.
+export function formatLintReport(report: LintReport, provider: string = SUPPORT_MATRIX_PROVIDER): string[] {
+  if (report.findings.length === 0) return ['✅ HTML lint: no findings.'];
+
+  const lines = [`HTML lint: ${report.findings.length} finding(s):`];
+  const idLabel = provider === SUPPORT_MATRIX_PROVIDER ? '' : ' (Email on Acid client IDs)';
+  for (const finding of report.findings) {
+    const location = finding.line ? ` [line ${finding.line}]` : '';
+    lines.push(`   ${SEVERITY_ICONS[finding.severity]} ${finding.severity.toUpperCase()} ${finding.rule}${location}: ${finding.message}`);
+    if (finding.example) lines.push(`      e.g. ${finding.example}`);
+    if (finding.unsupportedClients.length > 0) {
+      lines.push(`      Breaks in${idLabel}: ${finding.unsupportedClients.join(', ')}`);
+    }
+    if (finding.partialClients.length > 0) {
+      lines.push(`      Partial support${idLabel}: ${finding.partialClients.join(', ')}`);
+    }
+  }
+  return lines;
+}
+
+// INTERNAL: The element's opening tag (shortened) and where it starts.
+function toViolation(element: HTMLElement): Violation {
+  const [start] = element.range;
+  const openingTag = element.outerHTML.slice(0, element.outerHTML.indexOf('>') + 1);
+  return { offset: start, example: shorten(openingTag) };
+}
+
+// INTERNAL: CSS matches anywhere in the document (style blocks and inline styles).
+function findCss(html: string, pattern: RegExp): Violation[] {
+  return [...html.matchAll(pattern)].map(match => ({ offset: match.index, example: match[0] }));
+}
+
+function shorten(text: string, maxLength: number = 120): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine;
+}
+
+function getLineStarts(html: string): number[] {
+  const starts = [0];
+  for (let index = html.indexOf('\n'); index !== -1; index = html.indexOf('\n', index + 1)) {
+    starts.push(index + 1);
+  }
+  return starts;
+}
+
+function getLine(lineStarts: number[], offset: number): number {
+  let line = 0;
+  while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+  return line + 1;
+}
@@ -0,0 +1,71 @@
+// PURPOSE: Turns configured ignore regions into rectangles in screenshot pixels.
+// 1) Pixel regions are used as they are.
+// 2) Selector regions are measured in a local render of the email HTML and mapped to screenshot pixels.
+// The blueprint test paints the rectangles over the downloaded screenshot before comparing it.
+
+import type { Page } from '@playwright/test';
+import { PixelRegion, ResolvedClientConfig, isSelectorRegion } from './email-config';
+
+// Converts every configured region to screenshot pixels. Problems (no HTML, selector not found)
+// are returned as warnings so the test can report them instead of failing.
+export async function resolvePixelRegions(
+  page: Page,
+  htmlContent: string | null,
+  clientConfig: ResolvedClientConfig
+): Promise<{ regions: PixelRegion[]; warnings: string[] }> {
+  const regions: PixelRegion[] = [];
+  const warnings: string[] = [];
+  const selectorRegions = clientConfig.ignoreRegions.filter(isSelectorRegion);
+
+  for (const region of clientConfig.ignoreRegions) {
+    if (!isSelectorRegion(region)) regions.push(region);
+  }
+
+  if (selectorRegions.length === 0) return { regions, warnings };
+  if (!htmlContent) {
+    warnings.push('Selector regions skipped: the email HTML file is not available locally.');
+    return { regions, warnings };
+  }
+
+  // Measure in a separate page so the test page is untouched.
+  const renderPage = await page.context().newPage();
+  try {
+    await renderPage.setViewportSize(clientConfig.selectorViewport);
+    // Remote images may be slow or unreachable; layout is usually settled without them.
+    await renderPage.setContent(htmlContent, { waitUntil: 'load', timeout: 15000 }).catch(() => undefined);
+
+    const { offsetX, offsetY, scale } = clientConfig.selectorTransform;
+    for (const region of selectorRegions) {
+      const boxes = await Promise.all(
+        (await renderPage.locator(region.selector).all()).map(element => element.boundingBox())
+      );
+      const found = boxes.filter((box): box is NonNullable<typeof box> => !!box);
+
+      if (found.length === 0) {
+        warnings.push(`Selector region "${region.name || region.selector}" matched no visible element.`);
+        continue;
+      }
+
+      for (const box of found) {
+        regions.push({
+          name: region.name || region.selector,
+          x: Math.round(box.x * scale + offsetX),
+          y: Math.round(box.y * scale + offsetY),
+          width: Math.round(box.width * scale),
+          height: Math.round(box.height * scale),
+        });
+      }
+    }
+  } finally {
+    await renderPage.close();
+  }
+
+  return { regions, warnings };
+}
+
+// One line per region, for report annotations.
+export function describeRegions(regions: PixelRegion[]): string {
+  return regions
+    .map(region => `${region.name || 'region'}: ${region.width}x${region.height} at (${region.x}, ${region.y})`)
+    .join('; ');
+}
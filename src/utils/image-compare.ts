@@ -0,0 +1,113 @@
+// PURPOSE: Pixel comparison of two screenshots, shared by the blueprint test (diff percentage
+// annotation) and the visual report (diff images). Uses the per-pixel rule of Playwright's
+// toMatchSnapshot (pixelmatch's YIQ color distance with `threshold`, default 0.2) but without its
+// anti-aliasing detection, so a percentage can be slightly higher than the assertion's count.
+//
+// EXAMPLE:
+//   const { diffRatio, diffImage } = compareImages(current, baseline);
+//   diffRatio -> 0.0132 (1.32% of the pixels differ); diffImage -> faded baseline, changes in red
+
+import { PNG } from 'pngjs';
+
+export interface ImageComparisonOptions {
+  /** Per-pixel color distance tolerance, 0 (exact) to 1. */
+  threshold?: number;
+}
+
+export interface ImageComparison {
+  /** Size of the compared area (the larger of the two images). */
+  width: number;
+  height: number;
+  diffPixels: number;
+  /** diffPixels / (width * height). */
+  diffRatio: number;
+  /** Set when the images differ in size; pixels outside the smaller one count as different. */
+  sizeMismatch?: string;
+  /** The expected image faded out, with differing pixels in red. */
+  diffImage: PNG;
+}
+
+const DEFAULT_THRESHOLD = 0.2;
+// Largest possible YIQ distance (pixelmatch).
+const MAX_YIQ_DELTA = 35215;
+const DIFF_COLOR = [255, 0, 0, 255];
+
+export function compareImages(actual: PNG, expected: PNG, options: ImageComparisonOptions = {}): ImageComparison {
+  const width = Math.max(actual.width, expected.width);
+  const height = Math.max(actual.height, expected.height);
+  const maxDelta = MAX_YIQ_DELTA * (options.threshold ?? DEFAULT_THRESHOLD) ** 2;
+  const diffImage = new PNG({ width, height });
+  let diffPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      const inActual = x < actual.width && y < actual.height;
+      const inExpected = x < expected.width && y < expected.height;
+      const actualOffset = (y * actual.width + x) * 4;
+      const expectedOffset = (y * expected.width + x) * 4;
+
+      const different = !inActual || !inExpected
+        || colorDelta(actual.data, actualOffset, expected.data, expectedOffset) > maxDelta;
+      if (different) {
+        diffPixels++;
+        diffImage.data.set(DIFF_COLOR, target);
+      } else {
+        // Faded grayscale of the expected pixel, so the changes stand out.
+        const gray = 255 + (luminance(expected.data, expectedOffset) - 255) * 0.1;
+        diffImage.data.set([gray, gray, gray, 255], target);
+      }
+    }
+  }
+
+  const sizeMismatch = actual.width !== expected.width || actual.height !== expected.height
+    ? `Image size ${actual.width}x${actual.height} differs from the expected ${expected.width}x${expected.height}.`
+    : undefined;
+  return {
+    width,
+    height,
+    diffPixels,
+    diffRatio: width * height === 0 ? 0 : diffPixels / (width * height),
+    ...(sizeMismatch ? { sizeMismatch } : {}),
+    diffImage,
+  };
+}
+
+// "1.32%" style label for a ratio (two decimals; tiny non-zero ratios are not shown as 0.00%).
+export function formatDiffPercent(ratio: number): string {
+  if (ratio > 0 && ratio < 0.0001) return '<0.01%';
+  return `${(ratio * 100).toFixed(2)}%`;
+}
+
+// INTERNAL: pixelmatch's YIQ distance, with both pixels blended over white by their alpha.
+function colorDelta(a: Buffer, aOffset: number, b: Buffer, bOffset: number): number {
+  const [r1, g1, b1] = blend(a, aOffset);
+  const [r2, g2, b2] = blend(b, bOffset);
+  const y = rgbToY(r1, g1, b1) - rgbToY(r2, g2, b2);
+  const i = rgbToI(r1, g1, b1) - rgbToI(r2, g2, b2);
+  const q = rgbToQ(r1, g1, b1) - rgbToQ(r2, g2, b2);
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+// The pixel's RGB blended over white by its alpha (also used by comparison-modes.ts).
+export function blend(data: Buffer, offset: number): [number, number, number] {
+  const alpha = data[offset + 3] / 255;
+  return [0, 1, 2].map(channel => 255 + (data[offset + channel] - 255) * alpha) as [number, number, number];
+}
+
+export function luminance(data: Buffer, offset: number): number {
+  const [red, green, blue] = blend(data, offset);
+  return rgbToY(red, green, blue);
+}
+
+function rgbToY(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgbToI(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgbToQ(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
@@ -0,0 +1,94 @@
+// PURPOSE: Keep a paid provider test when a run dies while polling. As soon as the test exists,
+// its state is written to temp/jobs/<task>.json (test ID, requested clients) and every client
+// captured while polling is added to it. The next run of the same task with the same HTML resumes
+// that test instead of submitting again, and only polls the clients still missing.
+// The file is removed once a run has written the email's results.
+
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { ClientResult } from '../interfaces/preview-job';
+import { TEMP_DIR } from './email-tasks';
+import { getCacheMaxAgeHours } from './submission-cache';
+
+export const JOB_STATE_DIR = resolve(TEMP_DIR, 'jobs');
+
+export interface JobState {
+  taskName: string;
+  provider: string;
+  testId: string;
+  /** SHA-256 of the submitted HTML. */
+  htmlHash: string;
+  /** Clients requested from the provider. */
+  clients: string[];
+  /** Clients captured so far (status complete, with their screenshot URLs). */
+  collected: Record<string, ClientResult>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function getJobStateFile(sanitizedTaskName: string): string {
+  return resolve(JOB_STATE_DIR, `${sanitizedTaskName}.json`);
+}
+
+export function loadJobState(sanitizedTaskName: string): JobState | undefined {
+  const stateFile = getJobStateFile(sanitizedTaskName);
+  if (!existsSync(stateFile)) return undefined;
+  try {
+    return JSON.parse(readFileSync(stateFile, 'utf-8'));
+  } catch (error: any) {
+    console.warn(`WARNING: Ignoring unreadable job state ${stateFile} (${error.message}).`);
+    return undefined;
+  }
+}
+
+// Written to a temporary file first, so a run killed mid-write cannot leave half a file behind.
+export function saveJobState(sanitizedTaskName: string, state: JobState): void {
+  const stateFile = getJobStateFile(sanitizedTaskName);
+  mkdirSync(JOB_STATE_DIR, { recursive: true });
+  writeFileSync(`${stateFile}.tmp`, JSON.stringify(state, null, 2));
+  renameSync(`${stateFile}.tmp`, stateFile);
+}
+
+export function clearJobState(sanitizedTaskName: string): void {
+  const stateFile = getJobStateFile(sanitizedTaskName);
+  if (existsSync(stateFile)) unlinkSync(stateFile);
+}
+
+// Starts the state of a test that was just created (or reused) and saves it.
+export function createJobState(
+  sanitizedTaskName: string,
+  job: { taskName: string; provider: string; testId: string; htmlHash: string; clients: string[] },
+  createdAt: string = new Date().toISOString()
+): JobState {
+  const state: JobState = { ...job, clients: [...job.clients], collected: {}, createdAt, updatedAt: new Date().toISOString() };
+  saveJobState(sanitizedTaskName, state);
+  return state;
+}
+
+// The interrupted job of the task, when it was created by the same provider for the same HTML,
+// requested (at least) these clients and is not older than the submission cache's maximum age.
+export function findResumableJob(
+  sanitizedTaskName: string,
+  provider: string,
+  htmlHash: string,
+  clients: string[],
+  maxAgeHours: number = getCacheMaxAgeHours()
+): JobState | undefined {
+  const state = loadJobState(sanitizedTaskName);
+  if (!state || state.provider !== provider || state.htmlHash !== htmlHash) return undefined;
+  if (!clients.every(clientId => state.clients.includes(clientId))) return undefined;
+  if (Date.now() - new Date(state.createdAt).getTime() > maxAgeHours * 60 * 60 * 1000) return undefined;
+  return state;
+}
+
+// Adds a captured client and saves the state right away (the provider payload is left out).
+export function recordCollectedClient(sanitizedTaskName: string, state: JobState, result: ClientResult): void {
+  state.collected[result.clientId] = { ...result, raw: undefined };
+  state.updatedAt = new Date().toISOString();
+  saveJobState(sanitizedTaskName, state);
+}
+
+// Requested clients the job has no screenshot for yet, in request order.
+export function getMissingClients(state: JobState, clients: string[]): string[] {
+  return clients.filter(clientId => state.collected[clientId]?.status !== 'complete');
+}
@@ -0,0 +1,123 @@
+// PURPOSE: Reads the machine-readable results of the last `playwright test` run
+// (test-results/last-run.json, written by Playwright's JSON reporter) as one entry per client test.
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { JSONReport, JSONReportSuite } from '@playwright/test/reporter';
+import { ROOT_DIR } from './email-tasks';
+
+export const LAST_RUN_FILE = resolve(ROOT_DIR, 'test-results', 'last-run.json');
+
+// A client without a screenshot under the "flaky" provider error policy is skipped in Playwright and
+// carries this annotation; reports, results and history list it as a provider error, not as a skip.
+export const PROVIDER_ERROR_ANNOTATION = 'flaky/provider-error';
+export const PROVIDER_ERROR_STATUS = 'provider-error';
+
+export interface ClientRunResult {
+  /** Playwright project = sanitized task name = baseline folder. */
+  project: string;
+  clientId: string;
+  title: string;
+  /**
+   * Final Playwright status of the last attempt: passed, failed, timedOut, skipped, interrupted,
+   * or provider-error for a client skipped under the "flaky" provider error policy.
+   */
+  status: string;
+  durationMs: number;
+  /** Annotations by type (client, testId, htmlHash, providerStatus, ...). */
+  annotations: Record<string, string>;
+  /** The image that was compared (masked), attached by every client test that got that far. */
+  currentFile?: string;
+  /** Screenshot comparison files produced on failure. */
+  actualFile?: string;
+  expectedFile?: string;
+  diffFile?: string;
+  /** Heatmap of the client's comparison mode (ssim, perceptual, layout-shift). */
+  heatmapFile?: string;
+  /** First error of the last attempt (ANSI colors removed). */
+  errorMessage?: string;
+}
+
+export function loadLastRun(reportFile: string = LAST_RUN_FILE): ClientRunResult[] {
+  if (!existsSync(reportFile)) {
+    throw new Error(`No results from a previous run found at ${reportFile}. Run the tests first.`);
+  }
+
+  const report: JSONReport = JSON.parse(readFileSync(reportFile, 'utf-8'));
+  const results: ClientRunResult[] = [];
+  report.suites.forEach(suite => collectSuite(suite, results));
+  return results;
+}
+
+// Failed comparisons that produced an "actual" image, i.e. candidates for a new baseline.
+export function getFailedComparisons(results: ClientRunResult[]): ClientRunResult[] {
+  return results.filter(result => result.status !== 'passed' && result.status !== 'skipped' && result.actualFile);
+}
+
+// One client test's result, from the pieces both the JSON report and a live reporter have.
+// Undefined for tests without a client annotation (e.g. the dark-mode pair tests).
+export function toClientRunResult(test: {
+  project: string;
+  title: string;
+  status?: string;
+  durationMs: number;
+  annotations: { type: string; description?: string }[];
+  attachments: { name: string; path?: string }[];
+  errors?: { message?: string }[];
+}): ClientRunResult | undefined {
+  const annotations: Record<string, string> = {};
+  for (const annotation of test.annotations) {
+    if (annotation.description !== undefined) annotations[annotation.type] = annotation.description;
+  }
+  if (!annotations.client) return undefined;
+
+  const findAttachment = (suffix: string) =>
+    test.attachments.find(attachment => attachment.path && attachment.name.endsWith(suffix))?.path;
+  const firstError = test.errors?.find(error => error.message)?.message;
+  const errorMessage = firstError ? stripAnsi(firstError) : undefined;
+
+  return {
+    project: test.project,
+    clientId: annotations.client,
+    title: test.title,
+    status: test.status === 'skipped' && annotations[PROVIDER_ERROR_ANNOTATION] !== undefined
+      ? PROVIDER_ERROR_STATUS
+      : test.status || 'skipped',
+    durationMs: test.durationMs,
+    annotations,
+    currentFile: findAttachment('current.png'),
+    actualFile: findAttachment('-actual.png'),
+    expectedFile: findAttachment('-expected.png'),
+    diffFile: findAttachment('-diff.png'),
+    heatmapFile: findAttachment('-heatmap.png'),
+    ...(errorMessage ? { errorMessage } : {}),
+  };
+}
+
+// Playwright error messages carry terminal color codes.
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+// INTERNAL: Walk nested describe blocks; only tests tagged with a client annotation are kept.
+function collectSuite(suite: JSONReportSuite, results: ClientRunResult[]): void {
+  for (const spec of suite.specs) {
+    for (const test of spec.tests) {
+      const lastResult = test.results[test.results.length - 1];
+      if (!lastResult) continue;
+
+      const result = toClientRunResult({
+        project: test.projectName,
+        title: spec.title,
+        status: lastResult.status,
+        durationMs: lastResult.duration,
+        annotations: [...test.annotations, ...(lastResult.annotations || [])],
+        attachments: lastResult.attachments,
+        errors: lastResult.errors,
+      });
+      if (result) results.push(result);
+    }
+  }
+
+  (suite.suites || []).forEach(child => collectSuite(child, results));
+}
@@ -0,0 +1,250 @@
+// PURPOSE: Minimal MIME (RFC 2045/2046/2047) reader for raw .eml files (ESP exports, seed-inbox captures):
+// 1) Splits the message into its part tree (multipart/* nested to any depth).
+// 2) Decodes transfer encodings (base64, quoted-printable, 7bit/8bit) and charsets.
+// 3) Decodes encoded-word headers ("=?UTF-8?B?...?=").
+// 4) Picks the HTML body and lists the inline parts its cid: references point to.
+//
+// EXAMPLE:
+//   const message = parseMimeMessage(readFileSync('emails/eb-1.eml'));
+//   message.headers['subject']   -> 'Spring Sale ☀️'
+//   findHtmlPart(message)        -> the text/html part (decoded via decodeText)
+
+export interface MimePart {
+  /** Header values by lowercase name, unfolded and decoded (last value wins for repeats). */
+  headers: Record<string, string>;
+  /** Media type in lowercase, e.g. 'text/html' (defaults to 'text/plain'). */
+  contentType: string;
+  /** Content-Type parameters by lowercase name (charset, boundary, name...). */
+  params: Record<string, string>;
+  /** Content-ID without the angle brackets, if any. */
+  contentId?: string;
+  /** 'inline', 'attachment', or undefined when the part has no Content-Disposition. */
+  disposition?: string;
+  /** File name from Content-Disposition or Content-Type. */
+  filename?: string;
+  /** Body after the transfer encoding is undone (still in the part's charset). */
+  body: Buffer;
+  /** Child parts of multipart/* parts. */
+  parts: MimePart[];
+}
+
+// Parses a raw message. Pass a Buffer when possible, so 8-bit bodies keep their exact bytes.
+export function parseMimeMessage(raw: Buffer | string): MimePart {
+  // INTERNAL: "latin1" maps bytes 1:1 to chars, so offsets and binary bodies survive the string handling.
+  const text = typeof raw === 'string' ? Buffer.from(raw, 'utf8').toString('latin1') : raw.toString('latin1');
+  return parsePart(text, 0);
+}
+
+// Decodes a text part's body using its charset (UTF-8 when missing or unknown).
+export function decodeText(part: MimePart): string {
+  return decodeCharset(part.body, part.params.charset);
+}
+
+// First text/html part that is not an attachment, depth first. multipart/alternative lists the
+// richest version last, but in practice there is only one HTML alternative.
+export function findHtmlPart(part: MimePart): MimePart | undefined {
+  if (part.contentType === 'text/html' && part.disposition !== 'attachment') return part;
+  for (const child of part.parts) {
+    const html = findHtmlPart(child);
+    if (html) return html;
+  }
+  return undefined;
+}
+
+// Every part in the tree that has a Content-ID, by ID (what "cid:<id>" in the HTML refers to).
+export function collectContentIdParts(part: MimePart, found: Map<string, MimePart> = new Map()): Map<string, MimePart> {
+  if (part.contentId) found.set(part.contentId, part);
+  part.parts.forEach(child => collectContentIdParts(child, found));
+  return found;
+}
+
+// Decodes RFC 2047 encoded words; whitespace between two encoded words is dropped, as the RFC requires.
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?[^?]*\?=)/gi, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (match, charset: string, encoding: string, encoded: string) => {
+      try {
+        const bytes = encoding.toLowerCase() === 'b'
+          ? Buffer.from(encoded, 'base64')
+          : decodeQuotedPrintable(encoded.replace(/_/g, ' '), true);
+        // "UTF-8*en" carries a language tag (RFC 2231); only the charset matters here.
+        return decodeCharset(bytes, charset.split('*')[0]);
+      } catch {
+        return match;
+      }
+    });
+}
+
+// INTERNAL: Parse one entity (headers + body). Depth guards against hostile nesting.
+function parsePart(text: string, depth: number): MimePart {
+  const { headerText, bodyText } = splitHeaders(text);
+  const headers = parseHeaders(headerText);
+  const [contentType, params] = parseHeaderParams(headers['content-type'] || 'text/plain');
+  const [disposition, dispositionParams] = headers['content-disposition']
+    ? parseHeaderParams(headers['content-disposition'])
+    : [undefined, {} as Record<string, string>];
+  const contentId = headers['content-id']?.trim().replace(/^<|>$/g, '') || undefined;
+  const filename = dispositionParams.filename || params.name;
+
+  const part: MimePart = {
+    headers,
+    contentType: contentType.toLowerCase(),
+    params,
+    ...(contentId ? { contentId } : {}),
+    ...(disposition ? { disposition: disposition.toLowerCase() } : {}),
+    ...(filename ? { filename } : {}),
+    body: Buffer.alloc(0),
+    parts: [],
+  };
+
+  if (part.contentType.startsWith('multipart/') && params.boundary && depth < 20) {
+    part.parts = splitMultipart(bodyText, params.boundary).map(child => parsePart(child, depth + 1));
+  } else {
+    part.body = decodeTransferEncoding(bodyText, headers['content-transfer-encoding']);
+  }
+  return part;
+}
+
+// INTERNAL: Headers end at the first empty line (CRLF or LF line endings).
+function splitHeaders(text: string): { headerText: string; bodyText: string } {
+  const match = /\r?\n\r?\n/.exec(text);
+  if (!match) return { headerText: text, bodyText: '' };
+  return { headerText: text.slice(0, match.index), bodyText: text.slice(match.index + match[0].length) };
+}
+
+function parseHeaders(headerText: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Unfold: a line starting with whitespace continues the previous header.
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Raw 8-bit headers are UTF-8 in practice (RFC 6532); encoded words cover the rest.
+    const value = Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf8');
+    headers[name] = decodeHeaderValue(value);
+  }
+  return headers;
+}
+
+// INTERNAL: 'text/html; charset="utf-8"' -> ['text/html', { charset: 'utf-8' }].
+// RFC 2231 extended values (filename*=utf-8''na%C3%AFve.png) are decoded; continuations are not joined.
+function parseHeaderParams(value: string): [string, Record<string, string>] {
+  const [type, ...rest] = splitOutsideQuotes(value, ';');
+  const params: Record<string, string> = {};
+  for (const item of rest) {
+    const equals = item.indexOf('=');
+    if (equals <= 0) continue;
+    let name = item.slice(0, equals).trim().toLowerCase();
+    let paramValue = item.slice(equals + 1).trim().replace(/^"(.*)"$/s, '$1').replace(/\\(.)/g, '$1');
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const extended = /^([^']*)'[^']*'(.*)$/.exec(paramValue);
+      if (extended) {
+        paramValue = decodeCharset(Buffer.from(decodePercent(extended[2]), 'latin1'), extended[1]);
+      }
+    }
+    params[name] = paramValue;
+  }
+  return [type.trim(), params];
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '"' && value[index - 1] !== '\\') quoted = !quoted;
+    if (char === separator && !quoted) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items;
+}
+
+// INTERNAL: Body parts between "--boundary" lines; the preamble and epilogue are ignored.
+function splitMultipart(bodyText: string, boundary: string): string[] {
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escapeRegExp(boundary)}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+  const parts: string[] = [];
+  let start: number | undefined;
+  let match: RegExpExecArray | null;
+
+  while ((match = delimiter.exec(bodyText))) {
+    if (start !== undefined) parts.push(bodyText.slice(start, match.index));
+    if (match[1]) break; // closing delimiter
+    start = match.index + match[0].length;
+    // Skip the line break that ends the delimiter line.
+    const lineBreak = /^\r?\n/.exec(bodyText.slice(start));
+    if (lineBreak) start += lineBreak[0].length;
+  }
+  return parts;
+}
+
+function decodeTransferEncoding(bodyText: string, encoding = '7bit'): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(bodyText.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(bodyText);
+    default:
+      // 7bit, 8bit, binary: the bytes are the content.
+      return Buffer.from(bodyText, 'latin1');
+  }
+}
+
+// INTERNAL: "=3D" -> "=", soft line breaks ("=" at end of line) removed. Input chars are bytes (latin1).
+function decodeQuotedPrintable(text: string, inHeader = false): Buffer {
+  const withoutSoftBreaks = inHeader ? text : text.replace(/[ \t]*=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let index = 0; index < withoutSoftBreaks.length; index++) {
+    const char = withoutSoftBreaks[index];
+    const hex = withoutSoftBreaks.slice(index + 1, index + 3);
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(withoutSoftBreaks.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodePercent(text: string): string {
+  return text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// INTERNAL: TextDecoder knows the WHATWG charsets (iso-8859-*, shift_jis...). Unknown labels fall
+// back to UTF-8 rather than failing the run.
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  const label = charset.trim().toLowerCase();
+  if (WINDOWS_1252_LABELS.has(label)) return decodeWindows1252(bytes);
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// Node decodes windows-1252 as plain latin1, losing 0x80-0x9F (€, curly quotes, dashes), which ESPs
+// use a lot. Per WHATWG, the latin1/ascii labels mean windows-1252 too.
+const WINDOWS_1252_LABELS = new Set(['windows-1252', 'cp1252', 'x-cp1252', 'iso-8859-1', 'latin1', 'us-ascii', 'ascii']);
+const WINDOWS_1252_HIGH =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+function decodeWindows1252(bytes: Buffer): string {
+  let text = '';
+  for (const byte of bytes) {
+    text += byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+  }
+  return text;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,211 @@
+// PURPOSE: Reusable polling engine for preview providers.
+// 1) Wait between attempts with exponential backoff + jitter, under a total wall-clock deadline.
+// 2) Retry single requests on HTTP 429/5xx and network errors, honoring Retry-After.
+// 3) Stop early (AbortError) when the caller's AbortSignal fires.
+// 4) Report everything as PollEvents; `createConsoleListener` turns them into the usual log lines.
+
+import axios from 'axios';
+import { PollEvent, PollListener, PollStopReason, PollingPolicy, PreviewResultsOptions } from '../interfaces/polling';
+import { PollingSettings, getRunConfig } from './run-config';
+
+// Everything one polling loop shares between its attempts and requests.
+export interface PollContext {
+  provider: string;
+  policy: PollingPolicy;
+  signal?: AbortSignal;
+  emit: PollListener;
+  startedAt: number;
+  deadlineAt: number;
+}
+
+export interface PollOutcome {
+  reason: PollStopReason;
+  attempts: number;
+  elapsedMs: number;
+}
+
+// Policy from the run config's "polling" settings (config file, then the <PREFIX>_* environment
+// variables: _WAIT_SECONDS (first delay), _MAX_WAIT_SECONDS, _BACKOFF, _JITTER, _DEADLINE_SECONDS,
+// _MAX_ATTEMPTS, _REQUEST_TIMEOUT_SECONDS, _REQUEST_RETRIES), falling back to the provider's defaults.
+export function getPollingPolicy(defaults: PollingPolicy, settings: PollingSettings = getRunConfig().polling): PollingPolicy {
+  const seconds = (value?: number) => (value === undefined ? undefined : value * 1000);
+
+  const policy: PollingPolicy = {
+    initialDelayMs: seconds(settings.waitSeconds) ?? defaults.initialDelayMs,
+    maxDelayMs: seconds(settings.maxWaitSeconds) ?? defaults.maxDelayMs,
+    backoffFactor: settings.backoff ?? defaults.backoffFactor,
+    jitter: settings.jitter ?? defaults.jitter,
+    deadlineMs: seconds(settings.deadlineSeconds) ?? defaults.deadlineMs,
+    maxAttempts: settings.maxAttempts ?? defaults.maxAttempts,
+    requestTimeoutMs: seconds(settings.requestTimeoutSeconds) ?? defaults.requestTimeoutMs,
+    maxRequestRetries: settings.requestRetries ?? defaults.maxRequestRetries,
+  };
+  // A first delay above the cap would make the cap meaningless.
+  policy.maxDelayMs = Math.max(policy.maxDelayMs, policy.initialDelayMs);
+  return policy;
+}
+
+export function createPollContext(
+  provider: string,
+  policy: PollingPolicy,
+  options: PreviewResultsOptions,
+  debug: boolean
+): PollContext {
+  const startedAt = Date.now();
+  return {
+    provider,
+    policy,
+    signal: options.signal,
+    emit: options.onProgress || createConsoleListener(debug),
+    startedAt,
+    deadlineAt: startedAt + policy.deadlineMs,
+  };
+}
+
+// Runs `attempt` until it returns true, the deadline passes or maxAttempts is reached.
+export async function poll(context: PollContext, attempt: (attemptNumber: number) => Promise<boolean>): Promise<PollOutcome> {
+  const { policy, provider, signal } = context;
+  const stop = (reason: PollStopReason, attempts: number): PollOutcome => {
+    const outcome = { reason, attempts, elapsedMs: Date.now() - context.startedAt };
+    context.emit({ type: 'stop', provider, ...outcome });
+    return outcome;
+  };
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    signal?.throwIfAborted();
+    context.emit({ type: 'attempt', provider, attempt: attemptNumber, elapsedMs: Date.now() - context.startedAt });
+
+    if (await attempt(attemptNumber)) return stop('done', attemptNumber);
+    if (policy.maxAttempts && attemptNumber >= policy.maxAttempts) return stop('max-attempts', attemptNumber);
+
+    const remaining = context.deadlineAt - Date.now();
+    if (remaining <= 0) return stop('deadline', attemptNumber);
+
+    // The last wait is cut short so one final attempt happens right at the deadline.
+    const delayMs = Math.min(getBackoffDelay(policy, attemptNumber), remaining);
+    context.emit({ type: 'wait', provider, attempt: attemptNumber, delayMs });
+    await sleep(delayMs, signal);
+  }
+}
+
+// Runs one HTTP request, retrying on 429/5xx/network errors. Any other error, or running out of
+// retries or time, is thrown to the caller. `request` receives the timeout to use.
+export async function requestWithRetry<T>(
+  context: PollContext,
+  label: string,
+  request: (timeoutMs: number) => Promise<T>
+): Promise<T> {
+  const { policy, provider, signal } = context;
+
+  for (let retry = 0; ; retry++) {
+    signal?.throwIfAborted();
+    const remaining = context.deadlineAt - Date.now();
+    try {
+      return await request(Math.max(1000, Math.min(policy.requestTimeoutMs, remaining)));
+    } catch (error: any) {
+      if (signal?.aborted || !isRetryableError(error) || retry >= policy.maxRequestRetries) throw error;
+
+      const status: number | undefined = error.response?.status;
+      const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+      const delayMs = retryAfterMs ?? getBackoffDelay(policy, retry + 1);
+      if (Date.now() + delayMs > context.deadlineAt) throw error;
+
+      context.emit({
+        type: 'retry',
+        provider,
+        request: label,
+        retry: retry + 1,
+        delayMs,
+        ...(status ? { status } : {}),
+        reason: status ? `HTTP ${status}` : error.code || error.message,
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+// Delay after the given attempt (1-based): initial * factor^(attempt-1), capped, +/- jitter.
+export function getBackoffDelay(policy: PollingPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1));
+  const spread = base * Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.max(0, Math.round(base - spread + random() * 2 * spread));
+}
+
+// Retry-After is either seconds or an HTTP date. Returns milliseconds, or undefined if absent/invalid.
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | undefined {
+  if (typeof header !== 'string' || header.trim() === '') return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Throttling, server errors and network failures are worth retrying; other client errors are not.
+export function isRetryableError(error: unknown): boolean {
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  if (status === undefined) return true;
+  return status === 429 || status >= 500;
+}
+
+// setTimeout as a promise that rejects with the signal's reason when aborted.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolvePromise();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Default listener: final client states and periodic progress always, everything else with debug.
+export function createConsoleListener(debug: boolean = false, prefix: string = ''): PollListener {
+  const log = (message: string) => console.log(`${prefix}${message}`);
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(ms < 10000 ? 1 : 0)}s`;
+
+  return (event: PollEvent) => {
+    switch (event.type) {
+      case 'start': {
+        const { policy } = event;
+        const backoff = policy.backoffFactor > 1 ? `, backing off to ${seconds(policy.maxDelayMs)}` : '';
+        log(`\n⏳ Gathering ${event.clients} screenshot(s)...`);
+        log(`   Checking every ${seconds(policy.initialDelayMs)}${backoff} (for up to ${seconds(policy.deadlineMs)})\n`);
+        break;
+      }
+      case 'client':
+        if (event.status === 'complete') log(`   ✅ ${event.clientId}`);
+        else if (event.status !== 'pending') log(`   ❌ ${event.clientId} - ${event.detail || event.status}`);
+        else if (debug) log(`   ⏳ ${event.clientId} - ${event.detail || 'not ready yet'}`);
+        break;
+      case 'progress':
+        if (event.attempt % 5 === 0 || debug) {
+          log(`   Progress: ${event.completed}/${event.total} captured`);
+          if (debug && event.pending.length > 0) log(`   Pending: ${event.pending.join(', ')}`);
+        }
+        break;
+      case 'retry':
+        if (debug) log(`   ⚠️ ${event.request} - ${event.reason}, retry ${event.retry} in ${seconds(event.delayMs)}`);
+        break;
+      case 'attempt-failed':
+        if (debug) log(`   ⚠️ ${event.request} - ${event.reason}, will retry...`);
+        break;
+      case 'attempt':
+        if (debug) log(`\n  📊 Attempt ${event.attempt} (${seconds(event.elapsedMs)} elapsed)`);
+        break;
+      case 'wait':
+        if (debug) log(`   Next check in ${seconds(event.delayMs)}`);
+        break;
+      case 'stop':
+        if (event.reason === 'done') log('\n✅ Finished collecting available screenshots.');
+        else if (event.reason === 'deadline') log(`\n⚠️ Polling deadline reached after ${seconds(event.elapsedMs)} (${event.attempts} attempts).`);
+        else log(`\n⚠️ Stopped after ${event.attempts} attempts (${seconds(event.elapsedMs)}).`);
+        break;
+    }
+  };
+}
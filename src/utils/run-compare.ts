@@ -0,0 +1,347 @@
+// PURPOSE: Compares two sets of provider screenshots with each other instead of with the approved
+// baselines ("build 2 vs. build 1", "staging vs. production HTML"). Each side is one of:
+//   run:<project>[/<runId>]    an archived run (temp/archives; runId, prefix, "latest" or "previous")
+//   <file>.json                an archive or generated-preview file
+//   test:<testId>              an existing provider test (EMAIL_PREVIEW_SERVICE)
+//   <file>.html | <file>.eml   HTML submitted to the provider as a new test
+// Screenshots are compared per client with the same engine as the tests (image-compare.ts).
+// Everything is written to the output folder; visual-baselines/ is never read or written.
+//
+// OUTPUT (reports/compare/<timestamp>/ by default):
+//   before/<client>.png, after/<client>.png   <- the compared images (decoded to PNG, masks applied)
+//   compare.json                              <- per-client result
+//   report.html                               <- visual report with before / after / diff
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import { chromium, Browser, Page } from 'playwright';
+import { PNG } from 'pngjs';
+import type { GeneratedPreview, GeneratedPreviewFile } from '../global-setup';
+import { ClientResult, ClientStatus } from '../interfaces/preview-job';
+import { EmlEmailSource } from '../sources/eml-email-source';
+import { REPORTS_DIR, ROOT_DIR } from './email-tasks';
+import { getScreenshotName, loadClientCatalog } from './client-catalog';
+import { getPrimaryScreenshot } from './client-results';
+import { EmailConfig, PixelRegion, resolveClientConfig } from './email-config';
+import { matchesGlob } from './glob';
+import { compareImages } from './image-compare';
+import { resolvePixelRegions } from './ignore-regions';
+import { findRun, loadRunHistory } from './run-history';
+import { detectImageFormat, downloadScreenshot, verifyArtifact } from './screenshot-artifacts';
+import { decodeScreenshot, encodePng, maskRegions } from './screenshot-image';
+import { getEmailPreviewService, getServiceCredentials } from './service-factory';
+import { hashContent } from './hash';
+
+export const COMPARE_DIR = resolve(REPORTS_DIR, 'compare');
+
+export interface CompareScreenshot {
+  clientId: string;
+  status: ClientStatus;
+  reason?: string;
+  /** Local image file (downloaded or from the run folder); absent without a screenshot. */
+  file?: string;
+}
+
+export interface CompareSide {
+  /** The input as given, e.g. "run:eb-21397-staging/latest". */
+  spec: string;
+  description: string;
+  provider?: string;
+  testId?: string;
+  htmlHash?: string;
+  screenshots: CompareScreenshot[];
+}
+
+export interface CompareSideOptions {
+  /** Folder for downloaded screenshots. */
+  workDir: string;
+  /** Only these clients ("*" wildcards); also limits what is requested from the provider. */
+  clientPatterns?: string[];
+}
+
+export interface ClientComparison {
+  clientId: string;
+  beforeStatus: ClientStatus | 'missing';
+  afterStatus: ClientStatus | 'missing';
+  /** Absent when one side has no screenshot. */
+  diffRatio?: number;
+  /** diffRatio above maxDiffRatio; undefined when there was nothing to compare. */
+  changed?: boolean;
+  note?: string;
+  beforeFile?: string;
+  afterFile?: string;
+}
+
+export interface CompareOptions {
+  outputDir: string;
+  /** Per-pixel color tolerance (default 0.2, as in the tests). */
+  threshold?: number;
+  /** Share of differing pixels up to which a client counts as unchanged (default 0). */
+  maxDiffRatio?: number;
+  /** Email config whose ignore regions are masked on both sides, and the HTML for selector regions. */
+  emailConfig?: EmailConfig;
+  htmlContent?: string | null;
+}
+
+// Resolves one input into local screenshot files.
+export async function loadCompareSide(spec: string, options: CompareSideOptions): Promise<CompareSide> {
+  const side = await resolveSide(spec, options);
+  side.screenshots = side.screenshots.filter(screenshot => isSelected(screenshot.clientId, options));
+  return side;
+}
+
+// INTERNAL: Which kind of input, by prefix or file extension.
+async function resolveSide(spec: string, options: CompareSideOptions): Promise<CompareSide> {
+  if (spec.startsWith('run:')) return loadArchivedRun(spec, options);
+  if (spec.startsWith('test:')) return loadProviderTest(spec, options);
+
+  const file = resolve(spec);
+  if (!existsSync(file)) {
+    throw new Error(`"${spec}" is neither run:<project>[/<runId>], test:<id>, nor an existing file.`);
+  }
+  const extension = extname(file).toLowerCase();
+  if (extension === '.json') return loadPreviewFile(spec, file, options);
+  if (['.html', '.htm', '.eml'].includes(extension)) return submitHtml(spec, file, options);
+  throw new Error(`Unsupported compare input ${spec} (expected .json, .html, .htm or .eml).`);
+}
+
+// Compares the two sides client by client and writes compare.json and the PNG copies.
+export async function compareSides(before: CompareSide, after: CompareSide, options: CompareOptions): Promise<ClientComparison[]> {
+  const pages = new LazyPage();
+  const results: ClientComparison[] = [];
+  const clientIds = [...new Set([...before.screenshots, ...after.screenshots].map(screenshot => screenshot.clientId))];
+
+  try {
+    for (const clientId of clientIds) {
+      const beforeShot = before.screenshots.find(screenshot => screenshot.clientId === clientId);
+      const afterShot = after.screenshots.find(screenshot => screenshot.clientId === clientId);
+      const result: ClientComparison = {
+        clientId,
+        beforeStatus: beforeShot?.status || 'missing',
+        afterStatus: afterShot?.status || 'missing',
+      };
+      results.push(result);
+
+      // Masks come from the email config, resolved per client like in the tests.
+      const regions = await getIgnoreRegions(pages, clientId, options);
+      const beforeImage = beforeShot?.file ? await decode(pages, beforeShot.file, regions) : undefined;
+      const afterImage = afterShot?.file ? await decode(pages, afterShot.file, regions) : undefined;
+      if (beforeImage) result.beforeFile = writeImage(options.outputDir, 'before', clientId, beforeImage);
+      if (afterImage) result.afterFile = writeImage(options.outputDir, 'after', clientId, afterImage);
+
+      if (!beforeImage || !afterImage) {
+        // "No before screenshot (bounced), no after screenshot"
+        const describe = (side: string, shot?: CompareScreenshot) => `${side} screenshot${shot?.reason ? ` (${shot.reason})` : ''}`;
+        const missing = [!beforeImage && describe('before', beforeShot), !afterImage && describe('after', afterShot)].filter(Boolean);
+        result.note = `No ${missing.join(', no ')}`;
+        continue;
+      }
+
+      const comparison = compareImages(afterImage, beforeImage, { threshold: options.threshold });
+      result.diffRatio = comparison.diffRatio;
+      result.changed = comparison.diffRatio > (options.maxDiffRatio ?? 0);
+      if (comparison.sizeMismatch) result.note = comparison.sizeMismatch;
+    }
+  } finally {
+    await pages.close();
+  }
+
+  mkdirSync(options.outputDir, { recursive: true });
+  writeFileSync(
+    resolve(options.outputDir, 'compare.json'),
+    JSON.stringify({ comparedAt: new Date().toISOString(), before: describeSide(before), after: describeSide(after), clients: results }, null, 2)
+  );
+  return results;
+}
+
+// INTERNAL: run:<project>[/<runId>] from the run history (defaults to the latest run). Older runs
+// without local copies are downloaded again, as long as the provider's URLs have not expired.
+async function loadArchivedRun(spec: string, options: CompareSideOptions): Promise<CompareSide> {
+  const [project, selector = 'latest'] = spec.slice('run:'.length).split('/');
+  const history = loadRunHistory(project);
+  const entry = findRun(history, selector);
+  if (!entry) {
+    throw new Error(`No archived run "${selector}" for "${project}" (${history.length} run(s) archived).`);
+  }
+  const previewFile = readPreviewFile(entry.file);
+  return downloadMissing(toSide(spec, `run ${entry.runId} of ${project}`, previewFile), previewFile.previews, options.workDir);
+}
+
+// INTERNAL: Archive or generated-preview file; screenshots that were never downloaded are fetched now.
+async function loadPreviewFile(spec: string, file: string, options: CompareSideOptions): Promise<CompareSide> {
+  const previewFile = readPreviewFile(file);
+  return downloadMissing(toSide(spec, `preview file ${basename(file)}`, previewFile), previewFile.previews, options.workDir);
+}
+
+async function loadProviderTest(spec: string, options: CompareSideOptions): Promise<CompareSide> {
+  const testId = spec.slice('test:'.length).trim();
+  if (!testId) throw new Error('test: needs a provider test ID, e.g. test:abc123.');
+  const { serviceToUse, apiKey, accountPassword } = getServiceCredentials();
+  const service = getEmailPreviewService(serviceToUse, apiKey, accountPassword);
+  const clients = getRequestedClients(serviceToUse, options);
+
+  console.log(`Polling ${serviceToUse} test ${testId} for ${clients.length} client(s)...`);
+  const results = await service.getPreviewResults({ provider: serviceToUse, testId }, clients);
+  return downloadResults(spec, `${serviceToUse} test ${testId}`, serviceToUse, testId, undefined, results, options.workDir);
+}
+
+// INTERNAL: New provider test from an HTML (or .eml) file. This uses provider credits.
+async function submitHtml(spec: string, file: string, options: CompareSideOptions): Promise<CompareSide> {
+  const html = extname(file).toLowerCase() === '.eml'
+    ? (await new EmlEmailSource(file).fetchEmail()).html
+    : readFileSync(file, 'utf-8');
+  const { serviceToUse, apiKey, accountPassword } = getServiceCredentials();
+  const service = getEmailPreviewService(serviceToUse, apiKey, accountPassword);
+  const clients = getRequestedClients(serviceToUse, options);
+
+  console.log(`Submitting ${basename(file)} to ${serviceToUse} for ${clients.length} client(s)...`);
+  const job = await service.injectHtml(html, `Compare: ${basename(file)} - ${new Date().toLocaleString()}`, { clients });
+  console.log(`Test created: ${job.testId}`);
+  const results = await service.getPreviewResults(job, clients);
+  return downloadResults(spec, `${basename(file)} (${serviceToUse} test ${job.testId})`, serviceToUse, job.testId, hashContent(html), results, options.workDir);
+}
+
+async function downloadResults(
+  spec: string,
+  description: string,
+  provider: string,
+  testId: string,
+  htmlHash: string | undefined,
+  results: ClientResult[],
+  workDir: string
+): Promise<CompareSide> {
+  const previews = results.map(result => ({
+    client: result.clientId,
+    status: result.status,
+    reason: result.reason,
+    url: getPrimaryScreenshot(result),
+  }));
+  const side: CompareSide = {
+    spec,
+    description,
+    provider,
+    testId,
+    ...(htmlHash ? { htmlHash } : {}),
+    screenshots: previews.map(preview => ({
+      clientId: preview.client,
+      status: preview.status,
+      ...(preview.reason ? { reason: preview.reason } : {}),
+    })),
+  };
+  return downloadMissing(side, previews, workDir);
+}
+
+function getRequestedClients(provider: string, options: CompareSideOptions): string[] {
+  const clients = loadClientCatalog(provider).map(client => client.id).filter(clientId => isSelected(clientId, options));
+  if (clients.length === 0) throw new Error(`No ${provider} catalog client matches ${options.clientPatterns?.join(', ')}.`);
+  return clients;
+}
+
+function isSelected(clientId: string, options: CompareSideOptions): boolean {
+  return !options.clientPatterns || options.clientPatterns.some(pattern => matchesGlob(pattern, clientId));
+}
+
+// INTERNAL: Fills in `file` for every screenshot that only has a URL.
+async function downloadMissing(
+  side: CompareSide,
+  previews: Pick<GeneratedPreview, 'client' | 'url'>[],
+  workDir: string
+): Promise<CompareSide> {
+  for (const screenshot of side.screenshots) {
+    const url = previews.find(preview => preview.client === screenshot.clientId)?.url;
+    if (screenshot.file || !url) continue;
+    try {
+      const artifact = await downloadScreenshot(url, workDir, getScreenshotName(screenshot.clientId).replace(/\.png$/, ''));
+      screenshot.file = resolve(ROOT_DIR, artifact.file);
+    } catch (error: any) {
+      screenshot.reason = `Download failed: ${error.message}`;
+    }
+  }
+  return side;
+}
+
+// INTERNAL: Both preview file shapes; older archives are a bare array of successful previews.
+function readPreviewFile(file: string): GeneratedPreviewFile {
+  const data: GeneratedPreviewFile | GeneratedPreview[] = JSON.parse(readFileSync(file, 'utf-8'));
+  if (!Array.isArray(data)) return data;
+  return {
+    taskName: basename(file, '.json'),
+    generatedAt: '',
+    job: { provider: '', testId: '' },
+    previews: data.map(preview => ({ ...preview, status: 'complete' as ClientStatus, screenshots: {}, timing: { requestedAt: '' } })),
+  };
+}
+
+// INTERNAL: Local copies from the run folder are used when they still match their checksum.
+function toSide(spec: string, description: string, previewFile: GeneratedPreviewFile): CompareSide {
+  return {
+    spec,
+    description,
+    ...(previewFile.job.provider ? { provider: previewFile.job.provider } : {}),
+    ...(previewFile.job.testId ? { testId: previewFile.job.testId } : {}),
+    ...(previewFile.htmlHash ? { htmlHash: previewFile.htmlHash } : {}),
+    screenshots: previewFile.previews.map(preview => {
+      const status = preview.status || (preview.url ? 'complete' : 'failed');
+      let file: string | undefined;
+      try {
+        file = preview.artifact ? verifyArtifact(preview.artifact) : undefined;
+      } catch {
+        // Moved or changed since the run; the URL is tried instead (if it has not expired).
+      }
+      return {
+        clientId: preview.client,
+        status,
+        ...(preview.reason ? { reason: preview.reason } : {}),
+        ...(file ? { file } : {}),
+      };
+    }),
+  };
+}
+
+async function getIgnoreRegions(pages: LazyPage, clientId: string, options: CompareOptions): Promise<PixelRegion[]> {
+  if (!options.emailConfig) return [];
+  const clientConfig = resolveClientConfig(options.emailConfig, clientId);
+  if (clientConfig.ignoreRegions.length === 0) return [];
+  const { regions, warnings } = await resolvePixelRegions(await pages.get(), options.htmlContent ?? null, clientConfig);
+  warnings.forEach(warning => console.warn(`⚠️ ${clientId}: ${warning}`));
+  return regions;
+}
+
+async function decode(pages: LazyPage, file: string, regions: PixelRegion[]): Promise<PNG> {
+  // PNGs are read directly; only JPEG/GIF screenshots need the browser.
+  const data = readFileSync(file);
+  const image = detectImageFormat(data) === 'png' ? PNG.sync.read(data) : await decodeScreenshot(await pages.get(), file);
+  maskRegions(image, regions);
+  return image;
+}
+
+function writeImage(outputDir: string, side: 'before' | 'after', clientId: string, image: PNG): string {
+  const dir = resolve(outputDir, side);
+  mkdirSync(dir, { recursive: true });
+  const file = resolve(dir, getScreenshotName(clientId));
+  writeFileSync(file, encodePng(image));
+  return file;
+}
+
+function describeSide(side: CompareSide): Omit<CompareSide, 'screenshots'> {
+  const { screenshots, ...rest } = side;
+  return rest;
+}
+
+// INTERNAL: A browser page, launched only when something needs one (JPEG decoding, selector regions).
+class LazyPage {
+  private browser?: Browser;
+  private page?: Page;
+
+  async get(): Promise<Page> {
+    if (!this.page) {
+      this.browser = await chromium.launch();
+      this.page = await this.browser.newPage();
+    }
+    return this.page;
+  }
+
+  async close(): Promise<void> {
+    await this.browser?.close();
+  }
+}
@@ -0,0 +1,541 @@
+// PURPOSE: One typed run configuration instead of settings scattered over env vars and modules.
+// Layers, lowest first (a later layer overrides an earlier one, property by property):
+//   1. built-in defaults
+//   2. email-tester.config.json in the project root (or the file named by EMAIL_TESTER_CONFIG / --config),
+//      validated against RUN_CONFIG_SCHEMA: unknown keys and wrong types are errors, not silently ignored
+//   3. its "tasks" entries for the email being tested (task name, sanitized name or a "*" pattern)
+//   4. environment variables, .env included (TASK_NAME, EMAIL_PREVIEW_SERVICE, ... see ENV_VARIABLES)
+//   5. CLI flags, passed by the command as `flags`
+// `email-visual-tester config show` prints the merged result and where each value came from.
+//
+// EXAMPLE (email-tester.config.json):
+// {
+//   "provider": "emailonacid",
+//   "credentials": { "emailonacid": { "apiKey": "env:EOA_KEY_TEAM_A", "accountPassword": "env:EOA_PASSWORD_TEAM_A" } },
+//   "profile": "smoke",
+//   "clients": ["ol*", "gmail*", "iphone*"],
+//   "comparison": { "maxDiffPixelRatio": 0.03 },
+//   "polling": { "deadlineSeconds": 900, "maxAttempts": 40 },
+//   "paths": { "baselines": "visual-baselines" },
+//   "tasks": { "eb-21397-*": { "clients": ["ol*"], "comparison": { "maxDiffPixelRatio": 0.08 } } },
+//   "profiles": { "outlook": { "include": ["ol*", "m365*", "outlookcom*"], "colorScheme": "light" } }
+// }
+// Credentials are references to environment variables ("env:NAME"); secrets never go in the file.
+
+import * as dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import type { ProviderErrorPolicy } from './client-catalog';
+import type { ClientProfile } from './client-profiles';
+import { COUNT, RATIO, SECONDS, SchemaNode, validate } from './config-schema';
+import { COMPARISON_SCHEMA, ComparisonOptions } from './email-config';
+import { matchesGlob } from './glob';
+
+// Same as email-tasks' ROOT_DIR (which reads its folders from here, so it cannot be imported).
+const ROOT_DIR = resolve(__dirname, '..', '..');
+
+export const RUN_CONFIG_FILE = resolve(ROOT_DIR, 'email-tester.config.json');
+
+export type ProviderName = 'emailonacid' | 'litmus' | 'local';
+export const PROVIDERS: readonly ProviderName[] = ['emailonacid', 'litmus', 'local'];
+
+export type EmailSourceType = 'file' | 'gmail';
+export const EMAIL_SOURCE_TYPES: readonly EmailSourceType[] = ['file', 'gmail'];
+
+export interface ProviderCredentials {
+  /** "env:NAME" reference to the variable holding the API key. */
+  apiKey?: string;
+  /** "env:NAME" reference to the account password (Email on Acid). */
+  accountPassword?: string;
+  /** API URL override (e.g. a local mock server). */
+  baseUrl?: string;
+}
+
+// Polling timing in the units of the <PREFIX>_* env vars (see getPollingPolicy).
+export interface PollingSettings {
+  waitSeconds?: number;
+  maxWaitSeconds?: number;
+  backoff?: number;
+  jitter?: number;
+  deadlineSeconds?: number;
+  maxAttempts?: number;
+  requestTimeoutSeconds?: number;
+  requestRetries?: number;
+  debug?: boolean;
+}
+
+// Where the email HTML comes from (see source-factory.ts).
+export interface EmailSourceSettings {
+  /** "file" (emails/<task>.html, .eml or .hbs) or "gmail" (a Gmail message). */
+  type: EmailSourceType;
+  gmail: {
+    messageId?: string;
+    /** Gmail search; the newest match is tested (when no message ID is set). */
+    query?: string;
+    /** OAuth client file (default email-html-extractor/credentials.json). */
+    credentialsFile?: string;
+    /** Saved Gmail API messages read instead of Gmail (offline runs and tests). */
+    fixturesDir?: string;
+  };
+  /** Hosts the inline images of emails/<task>.eml instead of embedding them as data URIs. */
+  eml: { assetBaseUrl?: string; assetDir?: string };
+}
+
+export interface RunPaths {
+  emails: string;
+  baselines: string;
+  reports: string;
+  temp: string;
+}
+
+// Settings a "tasks" entry can override for one email.
+export interface TaskSettings {
+  /** Reuse this provider test instead of submitting the HTML. */
+  existingTestId?: string;
+  /** Named client profile (see client-profiles.ts); default "full". */
+  profile?: string;
+  /** Client ID patterns ("*" wildcards) narrowing the profile's clients; default all. */
+  clients?: string[];
+  /** Comparison defaults, below the email's own config (emails/<task>.config.json). */
+  comparison?: ComparisonOptions;
+  providerErrorPolicy?: ProviderErrorPolicy;
+  skipLint?: boolean;
+}
+
+// Shape of email-tester.config.json.
+export interface RunConfigFile extends TaskSettings {
+  $schema?: string;
+  provider?: ProviderName;
+  task?: string;
+  batch?: string;
+  credentials?: Partial<Record<ProviderName, ProviderCredentials>>;
+  polling?: PollingSettings;
+  cache?: { maxAgeHours?: number; forceNewTest?: boolean };
+  paths?: Partial<RunPaths>;
+  emailSource?: Partial<EmailSourceSettings>;
+  /** Template fixtures to render (default all), e.g. ["short-name", "empty-cart"]. */
+  fixtures?: string[];
+  /** Name recorded with baseline decisions (default: git user.name, else the OS user). */
+  approver?: string;
+  tasks?: Record<string, TaskSettings>;
+  /** Custom client profiles by name (may redefine a built-in one). */
+  profiles?: Record<string, ClientProfile>;
+}
+
+// The merged configuration of a run.
+export interface RunConfig extends TaskSettings {
+  /** Config file that was read (absent when there is none). */
+  file?: string;
+  provider?: ProviderName;
+  task?: string;
+  batch?: string;
+  credentials: Record<ProviderName, ProviderCredentials>;
+  polling: PollingSettings;
+  cache: { maxAgeHours: number; forceNewTest: boolean };
+  /** Absolute folders. */
+  paths: RunPaths;
+  emailSource: EmailSourceSettings;
+  fixtures?: string[];
+  approver?: string;
+  tasks: Record<string, TaskSettings>;
+  profiles: Record<string, ClientProfile>;
+  /** Where each value that is not a default came from, by dotted key ("polling.maxAttempts"). */
+  sources: Record<string, ConfigSource>;
+}
+
+export interface ConfigSource {
+  layer: 'file' | 'env' | 'flag';
+  /** File name, env var or flag. */
+  name: string;
+}
+
+// Overrides from a command's flags (highest layer).
+export interface RunConfigFlags {
+  config?: string;
+  provider?: string;
+  task?: string;
+  batch?: string;
+  profile?: string;
+  clients?: string[];
+  existingTestId?: string;
+}
+
+export interface LoadRunConfigOptions {
+  flags?: RunConfigFlags;
+  env?: NodeJS.ProcessEnv;
+}
+
+const SECRET_REFERENCE: SchemaNode = {
+  type: 'string',
+  pattern: /^env:[A-Za-z_][A-Za-z0-9_]*$/,
+  hint: 'a reference like "env:EMAILONACID_API_KEY" (keep secrets out of the config file)',
+  secret: true,
+};
+
+const TASK_SETTINGS_SCHEMA: Record<string, SchemaNode> = {
+  existingTestId: { type: 'string' },
+  profile: { type: 'string', pattern: /^[A-Za-z0-9_-]+$/, hint: 'a profile name (letters, digits, "-", "_")' },
+  clients: { type: 'array', items: { type: 'string' } },
+  comparison: { type: 'object', properties: COMPARISON_SCHEMA },
+  providerErrorPolicy: { type: 'string', enum: ['fail', 'flaky'] },
+  skipLint: { type: 'boolean' },
+};
+
+const RUN_CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    provider: { type: 'string', enum: PROVIDERS },
+    task: { type: 'string' },
+    batch: { type: 'string' },
+    credentials: {
+      type: 'object',
+      properties: Object.fromEntries(PROVIDERS.map(provider => [provider, {
+        type: 'object',
+        properties: { apiKey: SECRET_REFERENCE, accountPassword: SECRET_REFERENCE, baseUrl: { type: 'string' } },
+      } as SchemaNode])),
+    },
+    polling: {
+      type: 'object',
+      properties: {
+        waitSeconds: SECONDS,
+        maxWaitSeconds: SECONDS,
+        backoff: { type: 'number', min: 1 },
+        jitter: RATIO,
+        deadlineSeconds: SECONDS,
+        maxAttempts: COUNT,
+        requestTimeoutSeconds: SECONDS,
+        requestRetries: COUNT,
+        debug: { type: 'boolean' },
+      },
+    },
+    cache: {
+      type: 'object',
+      properties: { maxAgeHours: { type: 'number', min: 0 }, forceNewTest: { type: 'boolean' } },
+    },
+    paths: {
+      type: 'object',
+      properties: { emails: { type: 'string' }, baselines: { type: 'string' }, reports: { type: 'string' }, temp: { type: 'string' } },
+    },
+    emailSource: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: EMAIL_SOURCE_TYPES },
+        gmail: {
+          type: 'object',
+          properties: { messageId: { type: 'string' }, query: { type: 'string' }, credentialsFile: { type: 'string' }, fixturesDir: { type: 'string' } },
+        },
+        eml: {
+          type: 'object',
+          properties: { assetBaseUrl: { type: 'string' }, assetDir: { type: 'string' } },
+        },
+      },
+    },
+    fixtures: { type: 'array', items: { type: 'string' } },
+    approver: { type: 'string' },
+    ...TASK_SETTINGS_SCHEMA,
+    tasks: { type: 'record', values: { type: 'object', properties: TASK_SETTINGS_SCHEMA } },
+    profiles: {
+      type: 'record',
+      values: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          include: { type: 'array', items: { type: 'string' } },
+          exclude: { type: 'array', items: { type: 'string' } },
+          categories: { type: 'array', items: { type: 'string' } },
+          defaultOnly: { type: 'boolean' },
+          colorScheme: { type: 'string', enum: ['light', 'dark', 'pairs'] },
+        },
+      },
+    },
+  },
+};
+
+// How an env var's text becomes a setting ("name" = lowercased, "list" = comma-separated).
+type EnvValueKind = 'string' | 'name' | 'number' | 'boolean' | 'list';
+
+// Environment variables and the setting each one overrides. "{POLL}" is the provider's polling
+// prefix (EOA, LITMUS); "existingTestId" reads the provider's own variable(s).
+const ENV_VARIABLES: { env: string; key: string; kind: EnvValueKind }[] = [
+  { env: 'EMAIL_PREVIEW_SERVICE', key: 'provider', kind: 'name' },
+  { env: 'TASK_NAME', key: 'task', kind: 'string' },
+  { env: 'EMAIL_BATCH', key: 'batch', kind: 'string' },
+  { env: 'EMAIL_CLIENT_PROFILE', key: 'profile', kind: 'name' },
+  { env: 'EMAIL_CLIENTS', key: 'clients', kind: 'list' },
+  { env: 'PROVIDER_ERROR_POLICY', key: 'providerErrorPolicy', kind: 'name' },
+  { env: 'SKIP_LINT', key: 'skipLint', kind: 'boolean' },
+  { env: 'SUBMISSION_CACHE_MAX_AGE_HOURS', key: 'cache.maxAgeHours', kind: 'number' },
+  { env: 'FORCE_NEW_TEST', key: 'cache.forceNewTest', kind: 'boolean' },
+  { env: 'LITMUS_API_BASE_URL', key: 'credentials.litmus.baseUrl', kind: 'string' },
+  { env: 'EMAIL_SOURCE', key: 'emailSource.type', kind: 'name' },
+  { env: 'GMAIL_MESSAGE_ID', key: 'emailSource.gmail.messageId', kind: 'string' },
+  { env: 'GMAIL_QUERY', key: 'emailSource.gmail.query', kind: 'string' },
+  { env: 'GMAIL_CREDENTIALS_FILE', key: 'emailSource.gmail.credentialsFile', kind: 'string' },
+  { env: 'GMAIL_FIXTURES_DIR', key: 'emailSource.gmail.fixturesDir', kind: 'string' },
+  { env: 'EML_ASSET_BASE_URL', key: 'emailSource.eml.assetBaseUrl', kind: 'string' },
+  { env: 'EML_ASSET_DIR', key: 'emailSource.eml.assetDir', kind: 'string' },
+  { env: 'EMAIL_FIXTURES', key: 'fixtures', kind: 'list' },
+  { env: 'BASELINE_APPROVER', key: 'approver', kind: 'string' },
+  { env: '{POLL}_WAIT_SECONDS', key: 'polling.waitSeconds', kind: 'number' },
+  { env: '{POLL}_MAX_WAIT_SECONDS', key: 'polling.maxWaitSeconds', kind: 'number' },
+  { env: '{POLL}_BACKOFF', key: 'polling.backoff', kind: 'number' },
+  { env: '{POLL}_JITTER', key: 'polling.jitter', kind: 'number' },
+  { env: '{POLL}_DEADLINE_SECONDS', key: 'polling.deadlineSeconds', kind: 'number' },
+  { env: '{POLL}_MAX_ATTEMPTS', key: 'polling.maxAttempts', kind: 'number' },
+  { env: '{POLL}_REQUEST_TIMEOUT_SECONDS', key: 'polling.requestTimeoutSeconds', kind: 'number' },
+  { env: '{POLL}_REQUEST_RETRIES', key: 'polling.requestRetries', kind: 'number' },
+  { env: '{POLL}_DEBUG', key: 'polling.debug', kind: 'boolean' },
+];
+
+const POLLING_ENV_PREFIXES: Partial<Record<ProviderName, string>> = { emailonacid: 'EOA', litmus: 'LITMUS' };
+
+// Variables that reuse an existing provider test, first one set wins.
+const EXISTING_TEST_ENV: Record<ProviderName, string[]> = {
+  emailonacid: ['EXISTING_EOA_TEST_ID', 'EOA_TEST_ID'],
+  litmus: ['EXISTING_LITMUS_EMAIL_GUID'],
+  local: ['EXISTING_LOCAL_RENDER_ID'],
+};
+
+let cachedConfig: RunConfig | undefined;
+
+// The run's configuration from defaults, the config file and the environment (read once per process).
+export function getRunConfig(): RunConfig {
+  if (!cachedConfig) cachedConfig = loadRunConfig();
+  return cachedConfig;
+}
+
+// Builds the configuration; throws with every problem found when the file or a value is invalid.
+export function loadRunConfig(options: LoadRunConfigOptions = {}): RunConfig {
+  // Settings are read while modules load, before a command's own dotenv.config() has run.
+  if (!options.env) dotenv.config({ quiet: true });
+  const env = options.env || process.env;
+  const flags = options.flags || {};
+
+  const config: RunConfig = {
+    credentials: {
+      emailonacid: { apiKey: 'env:EMAILONACID_API_KEY', accountPassword: 'env:EMAILONACID_ACCOUNT_PASSWORD' },
+      litmus: { apiKey: 'env:LITMUS_API_KEY' },
+      local: {},
+    },
+    polling: {},
+    cache: { maxAgeHours: 24 * 7, forceNewTest: false },
+    paths: { emails: 'emails', baselines: 'visual-baselines', reports: 'reports', temp: 'temp' },
+    emailSource: { type: 'file', gmail: {}, eml: {} },
+    tasks: {},
+    profiles: {},
+    sources: {},
+  };
+  const errors: string[] = [];
+
+  // STEP 1: The config file (an explicitly named file must exist).
+  const explicitFile = flags.config || readEnv(env, 'EMAIL_TESTER_CONFIG');
+  const file = explicitFile ? resolve(ROOT_DIR, explicitFile) : RUN_CONFIG_FILE;
+  if (explicitFile && !existsSync(file)) throw new Error(`Run config not found: ${file}`);
+  if (existsSync(file)) {
+    let content: RunConfigFile;
+    try {
+      content = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid run config ${file}: ${error.message}`);
+    }
+    validate(content, RUN_CONFIG_SCHEMA, '', errors);
+    if (errors.length > 0) throw new Error(`Invalid run config ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+
+    const { $schema, tasks, profiles, paths, ...settings } = content;
+    config.file = file;
+    config.tasks = tasks || {};
+    config.profiles = profiles || {};
+    // Relative folders in the file are relative to the file.
+    const filePaths = Object.fromEntries(Object.entries(paths || {}).map(([name, path]) => [name, resolve(dirname(file), path!)]));
+    applyLayer(config, { ...settings, paths: filePaths }, { layer: 'file', name: basename(file) });
+  }
+
+  // STEP 2: Environment variables (the provider first: it decides which polling / test ID variables apply).
+  const provider = (flags.provider || readEnv(env, 'EMAIL_PREVIEW_SERVICE') || config.provider)?.toLowerCase();
+  const pollPrefix = POLLING_ENV_PREFIXES[provider as ProviderName];
+  for (const { env: pattern, key, kind } of ENV_VARIABLES) {
+    if (pattern.includes('{POLL}') && !pollPrefix) continue;
+    const name = pattern.replace('{POLL}', pollPrefix || '');
+    const raw = readEnv(env, name);
+    if (raw === undefined) continue;
+    const value = parseEnvValue(raw, kind);
+    if (checkValue(value, key, name, errors)) applyValue(config, key, value, { layer: 'env', name });
+  }
+  const testIdVariable = EXISTING_TEST_ENV[provider as ProviderName]?.find(name => readEnv(env, name) !== undefined);
+  if (testIdVariable) applyValue(config, 'existingTestId', readEnv(env, testIdVariable)!.trim(), { layer: 'env', name: testIdVariable });
+
+  // STEP 3: Flags.
+  const flagValues: [string, string, unknown][] = [
+    ['provider', '--provider', flags.provider?.toLowerCase()],
+    ['task', '--task', flags.task],
+    ['batch', '--batch', flags.batch],
+    ['profile', '--profile', flags.profile?.toLowerCase()],
+    ['clients', '--clients', flags.clients],
+    ['existingTestId', '--test-id', flags.existingTestId],
+  ];
+  for (const [key, name, value] of flagValues) {
+    if (value !== undefined && checkValue(value, key, name, errors)) applyValue(config, key, value, { layer: 'flag', name });
+  }
+
+  // "task" and "batch" both choose the emails, so a layer that sets the task replaces a lower
+  // layer's batch (within one layer the batch wins).
+  const layerRank = (key: string) => ['file', 'env', 'flag'].indexOf(config.sources[key]?.layer ?? '');
+  if (config.task && config.batch && layerRank('task') > layerRank('batch')) {
+    delete config.batch;
+    delete config.sources.batch;
+  }
+
+  if (errors.length > 0) throw new Error(`Invalid run settings:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+
+  config.paths = Object.fromEntries(
+    Object.entries(config.paths).map(([name, path]) => [name, resolve(ROOT_DIR, path)])
+  ) as unknown as RunPaths;
+  return config;
+}
+
+// Env vars carrying a command's flags to the processes it starts (Playwright runs global setup and
+// the tests in processes of its own, which only see the environment). Empty values unset the
+// other email selection, so a task flag is not overruled by an EMAIL_BATCH from .env.
+export function toEnvironment(flags: RunConfigFlags, provider?: ProviderName): Record<string, string> {
+  const env: Record<string, string> = {};
+  if (flags.config) env.EMAIL_TESTER_CONFIG = flags.config;
+  if (flags.provider) env.EMAIL_PREVIEW_SERVICE = flags.provider;
+  if (flags.task) Object.assign(env, { TASK_NAME: flags.task, EMAIL_BATCH: '' });
+  if (flags.batch) Object.assign(env, { EMAIL_BATCH: flags.batch, TASK_NAME: '' });
+  if (flags.profile) env.EMAIL_CLIENT_PROFILE = flags.profile;
+  if (flags.clients) env.EMAIL_CLIENTS = flags.clients.join(',');
+  if (flags.existingTestId) {
+    if (!provider) throw new Error('A test ID needs a provider: pass --provider or set EMAIL_PREVIEW_SERVICE.');
+    env[EXISTING_TEST_ENV[provider][0]] = flags.existingTestId;
+  }
+  return env;
+}
+
+// The settings for one email: the run's settings, then every matching "tasks" entry (in file order).
+// Values set by env vars or flags stay in force for every email.
+export function resolveTaskSettings(config: RunConfig, task: { taskName: string; sanitizedTaskName: string }): TaskSettings {
+  const settings: TaskSettings = {
+    ...pick(config, ['existingTestId', 'profile', 'clients', 'providerErrorPolicy', 'skipLint']),
+    ...(config.comparison ? { comparison: { ...config.comparison } } : {}),
+  };
+  const overridden = (key: string) => ['env', 'flag'].includes(config.sources[key]?.layer);
+
+  for (const [pattern, entry] of Object.entries(config.tasks)) {
+    if (!matchesTask(pattern, task)) continue;
+    for (const key of Object.keys(entry) as (keyof TaskSettings)[]) {
+      if (key === 'comparison') {
+        const own = Object.entries(entry.comparison || {}).filter(([name]) => !overridden(`comparison.${name}`));
+        settings.comparison = { ...settings.comparison, ...Object.fromEntries(own) };
+      } else if (!overridden(key)) {
+        setSetting(settings, key, entry[key]);
+      }
+    }
+  }
+  return settings;
+}
+
+// The value behind an "env:NAME" credential reference (undefined when unset or not a reference).
+export function resolveSecret(reference: string | undefined, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const name = reference?.startsWith('env:') ? reference.slice(4) : undefined;
+  return name ? readEnv(env, name) : undefined;
+}
+
+// Printable form of the merged config: credentials as references plus whether they are set.
+export function formatRunConfig(config: RunConfig, task?: { taskName: string; sanitizedTaskName: string }): string[] {
+  const { provider, task: taskName, batch, existingTestId, profile, clients, comparison, providerErrorPolicy, skipLint } = config;
+  const credentials = Object.fromEntries(Object.entries(config.credentials).map(([provider, entry]) => [
+    provider,
+    Object.fromEntries(Object.entries(entry).map(([name, value]) =>
+      [name, name === 'baseUrl' ? value : `${value} (${resolveSecret(value) ? 'set' : 'not set'})`]
+    )),
+  ]));
+  const lines = [
+    `Config file: ${config.file || `none (${basename(RUN_CONFIG_FILE)} not found)`}`,
+    ...JSON.stringify({
+      provider, task: taskName, batch, existingTestId, profile, clients, comparison, providerErrorPolicy, skipLint,
+      credentials, polling: config.polling, cache: config.cache, paths: config.paths, emailSource: config.emailSource,
+      fixtures: config.fixtures, approver: config.approver, tasks: config.tasks, profiles: config.profiles,
+    }, null, 2).split('\n'),
+  ];
+
+  const overrides = Object.entries(config.sources).filter(([, source]) => source.layer !== 'file');
+  if (overrides.length > 0) {
+    lines.push('', 'Overridden by env vars / flags:');
+    overrides.forEach(([key, source]) => lines.push(`  ${key} <- ${source.name}`));
+  }
+  if (task) {
+    lines.push('', `Settings for "${task.taskName}":`, ...JSON.stringify(resolveTaskSettings(config, task), null, 2).split('\n'));
+  }
+  return lines;
+}
+
+// INTERNAL: Deep-merges a layer (arrays are replaced) and records the source of every value it sets.
+function applyLayer(config: RunConfig, layer: Record<string, any>, source: ConfigSource, prefix: string = ''): void {
+  for (const [name, value] of Object.entries(layer)) {
+    if (value === undefined) continue;
+    const key = `${prefix}${name}`;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      applyLayer(config, value, source, `${key}.`);
+    } else {
+      applyValue(config, key, value, source);
+    }
+  }
+}
+
+function applyValue(config: RunConfig, key: string, value: unknown, source: ConfigSource): void {
+  const parts = key.split('.');
+  let target: any = config;
+  parts.slice(0, -1).forEach(part => {
+    target[part] = target[part] || {};
+    target = target[part];
+  });
+  target[parts[parts.length - 1]] = value;
+  config.sources[key] = source;
+}
+
+// INTERNAL: Validates one env var / flag value against the schema entry of its key.
+function checkValue(value: unknown, key: string, name: string, errors: string[]): boolean {
+  const node = key.split('.').reduce<SchemaNode | undefined>(
+    (current, part) => (current?.type === 'object' ? current.properties[part] : undefined),
+    RUN_CONFIG_SCHEMA
+  );
+  const found: string[] = [];
+  validate(value, node!, name, found);
+  errors.push(...found);
+  return found.length === 0;
+}
+
+// INTERNAL: Env values are strings; empty ones (KEY= in .env) count as unset.
+function readEnv(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function parseEnvValue(raw: string, kind: EnvValueKind): unknown {
+  switch (kind) {
+    case 'number':
+      return Number.isNaN(Number(raw)) ? raw : Number(raw);
+    case 'boolean':
+      return raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : raw;
+    case 'list':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'name':
+      return raw.toLowerCase();
+    default:
+      return raw;
+  }
+}
+
+// "tasks" keys: the task name, the sanitized name, or a pattern with "*" (matched against the sanitized name).
+function matchesTask(pattern: string, task: { taskName: string; sanitizedTaskName: string }): boolean {
+  return pattern === task.taskName || matchesGlob(pattern, task.sanitizedTaskName);
+}
+
+function setSetting<K extends keyof TaskSettings>(settings: TaskSettings, key: K, value: TaskSettings[K]): void {
+  settings[key] = value;
+}
+
+function pick<T extends object, K extends keyof T>(source: T, keys: K[]): Pick<T, K> {
+  return Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]])) as Pick<T, K>;
+}
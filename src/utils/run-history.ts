@@ -0,0 +1,361 @@
+// PURPOSE: Run history per email, built on the archive copies global setup writes for every run:
+//   temp/archives/generated-preview-urls-<task>-<timestamp>.json
+// Setup stores the preview file there (provider test, HTML hash, provider status per client); the
+// run-history reporter adds each client's test outcome and diff ratio when the tests end, and the
+// baseline approval CLI adds accept/reject decisions. Read back, the archives answer:
+// - which runs an email had (list),
+// - which clients regressed or recovered between two runs (compare),
+// - which clients keep flipping between pass and fail (flaky).
+// Older archives (a bare array of preview URLs) are listed too, with unknown outcomes.
+
+import { existsSync, readdirSync, readFileSync, rmSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import type { GeneratedPreview, GeneratedPreviewFile } from '../global-setup';
+import { TEMP_DIR } from './email-tasks';
+import { ClientRunResult, PROVIDER_ERROR_STATUS } from './last-run';
+import { getRunDir } from './screenshot-artifacts';
+import { getApprover } from './baseline-history';
+
+export const ARCHIVE_DIR = resolve(TEMP_DIR, 'archives');
+
+const ARCHIVE_PREFIX = 'generated-preview-urls-';
+// Run ID = setup's timestamp, e.g. 2025-09-24-15-18-10-592Z (older archives lack the Z).
+const ARCHIVE_NAME_PATTERN = /^generated-preview-urls-(.+)-(\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2}-\d{3}Z?)\.json$/;
+
+// Flaky: within the inspected runs, a client changed between pass and fail this often, or the
+// provider failed to deliver its screenshot in this share of runs.
+const DEFAULT_FLAKY_WINDOW = 10;
+const MIN_FLAKY_RUNS = 3;
+const FLAKY_FLIPS = 2;
+const FLAKY_PROVIDER_ERROR_RATE = 0.3;
+
+/** Outcome of one client in one run, as far as the archive knows it. */
+export type ClientState = 'pass' | 'fail' | 'provider-error' | 'unknown';
+
+export interface ArchivedApproval {
+  action: 'accept' | 'reject';
+  by: string;
+  at: string;
+}
+
+/** What the tests added to the archive for one client. */
+export interface ArchivedClientResult {
+  /** Playwright status of the last attempt (passed, failed, timedOut, skipped), or provider-error. */
+  status: string;
+  diffRatio?: number;
+  durationMs: number;
+  approval?: ArchivedApproval;
+}
+
+/** Archive file: the run's preview file plus the test results recorded afterwards. */
+export interface RunArchive extends GeneratedPreviewFile {
+  results?: {
+    recordedAt: string;
+    clients: Record<string, ArchivedClientResult>;
+  };
+}
+
+export interface RunHistoryClient {
+  clientId: string;
+  state: ClientState;
+  providerStatus: string;
+  providerReason?: string;
+  testStatus?: string;
+  diffRatio?: number;
+  approval?: ArchivedApproval;
+}
+
+export interface RunHistoryEntry {
+  runId: string;
+  project: string;
+  /** Time the run started (from the run ID, so also known for older archives). */
+  startedAt: Date;
+  file: string;
+  testId?: string;
+  provider?: string;
+  htmlHash?: string;
+  /** False for older archives and runs whose tests never reported back. */
+  hasResults: boolean;
+  clients: RunHistoryClient[];
+}
+
+export interface ClientChange {
+  clientId: string;
+  from: ClientState;
+  to: ClientState;
+  fromDiffRatio?: number;
+  toDiffRatio?: number;
+}
+
+export interface RunComparison {
+  from: RunHistoryEntry;
+  to: RunHistoryEntry;
+  htmlChanged: boolean;
+  /** Passed (or had no result) before, fails now. */
+  regressed: ClientChange[];
+  /** Failed before, passes now. */
+  recovered: ClientChange[];
+  /** Same state, but the diff ratio grew or shrank by at least `minDiffChange`. */
+  diffChanged: ClientChange[];
+  added: string[];
+  removed: string[];
+}
+
+export interface FlakyClient {
+  clientId: string;
+  runs: number;
+  passes: number;
+  failures: number;
+  providerErrors: number;
+  /** Number of pass <-> fail changes between consecutive runs. */
+  flips: number;
+  /** Oldest first, e.g. ['pass', 'fail', 'pass']. */
+  states: ClientState[];
+}
+
+export interface PruneOptions {
+  maxAgeDays?: number;
+  /** Runs to keep per email (newest first). */
+  keep?: number;
+  dryRun?: boolean;
+}
+
+export function getArchiveFile(sanitizedTaskName: string, runId: string): string {
+  return resolve(ARCHIVE_DIR, `${ARCHIVE_PREFIX}${sanitizedTaskName}-${runId}.json`);
+}
+
+// Projects (sanitized task names) with at least one archived run.
+export function listArchivedProjects(): string[] {
+  if (!existsSync(ARCHIVE_DIR)) return [];
+  const projects = readdirSync(ARCHIVE_DIR)
+    .map(name => ARCHIVE_NAME_PATTERN.exec(name)?.[1])
+    .filter((project): project is string => !!project);
+  return [...new Set(projects)].sort();
+}
+
+// All archived runs of an email, oldest first. Unreadable files are skipped with a warning.
+export function loadRunHistory(project: string): RunHistoryEntry[] {
+  if (!existsSync(ARCHIVE_DIR)) return [];
+  const entries: RunHistoryEntry[] = [];
+
+  for (const name of readdirSync(ARCHIVE_DIR)) {
+    const match = ARCHIVE_NAME_PATTERN.exec(name);
+    if (!match || match[1] !== project) continue;
+    const file = resolve(ARCHIVE_DIR, name);
+    try {
+      entries.push(toHistoryEntry(project, match[2], file, JSON.parse(readFileSync(file, 'utf-8'))));
+    } catch (error: any) {
+      console.warn(`⚠️ Skipping unreadable archive ${name}: ${error.message}`);
+    }
+  }
+  return entries.sort((a, b) => a.runId.localeCompare(b.runId));
+}
+
+// A run by ID, a unique ID prefix, "latest", or "previous" (the one before the latest).
+// Throws when the prefix matches more than one run.
+export function findRun(history: RunHistoryEntry[], selector: string): RunHistoryEntry | undefined {
+  if (selector === 'latest') return history[history.length - 1];
+  if (selector === 'previous') return history[history.length - 2];
+  const exact = history.find(entry => entry.runId === selector);
+  if (exact) return exact;
+
+  const matches = history.filter(entry => entry.runId.startsWith(selector));
+  if (matches.length > 1) {
+    throw new Error(`"${selector}" matches ${matches.length} runs (${matches.map(entry => entry.runId).join(', ')}); use a longer prefix.`);
+  }
+  return matches[0];
+}
+
+// Called by the run-history reporter when the tests end: adds outcomes and diff ratios to the archive.
+export function recordRunResults(project: string, runId: string, results: ClientRunResult[]): string | undefined {
+  const file = getArchiveFile(project, runId);
+  const archive = readArchive(file);
+  if (!archive) return undefined;
+
+  const clients = archive.results?.clients || {};
+  for (const result of results) {
+    clients[result.clientId] = {
+      status: result.status,
+      ...(result.annotations.diffRatio !== undefined ? { diffRatio: Number(result.annotations.diffRatio) } : {}),
+      durationMs: result.durationMs,
+      // Re-running the tests of the same run keeps an earlier decision.
+      ...(clients[result.clientId]?.approval ? { approval: clients[result.clientId].approval } : {}),
+    };
+  }
+  writeFileSync(file, JSON.stringify({ ...archive, results: { recordedAt: new Date().toISOString(), clients } }, null, 2));
+  return file;
+}
+
+// Called by the baseline approval CLI: remembers the decision on the run that produced the screenshot.
+export function recordApproval(project: string, runId: string, clientId: string, action: ArchivedApproval['action']): boolean {
+  const file = getArchiveFile(project, runId);
+  const archive = readArchive(file);
+  const result = archive?.results?.clients[clientId];
+  if (!archive || !result) return false;
+
+  result.approval = { action, by: getApprover(), at: new Date().toISOString() };
+  writeFileSync(file, JSON.stringify(archive, null, 2));
+  return true;
+}
+
+export function compareRuns(from: RunHistoryEntry, to: RunHistoryEntry, minDiffChange = 0.001): RunComparison {
+  const before = new Map(from.clients.map(client => [client.clientId, client]));
+  const after = new Map(to.clients.map(client => [client.clientId, client]));
+  const comparison: RunComparison = {
+    from,
+    to,
+    htmlChanged: !!from.htmlHash && !!to.htmlHash && from.htmlHash !== to.htmlHash,
+    regressed: [],
+    recovered: [],
+    diffChanged: [],
+    added: [...after.keys()].filter(clientId => !before.has(clientId)),
+    removed: [...before.keys()].filter(clientId => !after.has(clientId)),
+  };
+
+  for (const [clientId, current] of after) {
+    const previous = before.get(clientId);
+    if (!previous) continue;
+    const change: ClientChange = {
+      clientId,
+      from: previous.state,
+      to: current.state,
+      ...(previous.diffRatio !== undefined ? { fromDiffRatio: previous.diffRatio } : {}),
+      ...(current.diffRatio !== undefined ? { toDiffRatio: current.diffRatio } : {}),
+    };
+
+    if (isFailing(current.state) && !isFailing(previous.state)) comparison.regressed.push(change);
+    else if (current.state === 'pass' && isFailing(previous.state)) comparison.recovered.push(change);
+    else if (
+      previous.diffRatio !== undefined && current.diffRatio !== undefined
+      && Math.abs(current.diffRatio - previous.diffRatio) >= minDiffChange
+    ) {
+      comparison.diffChanged.push(change);
+    }
+  }
+  return comparison;
+}
+
+// Clients whose outcome keeps changing over the last `window` runs (runs without results are ignored).
+export function findFlakyClients(history: RunHistoryEntry[], window = DEFAULT_FLAKY_WINDOW): FlakyClient[] {
+  const runs = history.filter(entry => entry.hasResults).slice(-window);
+  const clientIds = [...new Set(runs.flatMap(entry => entry.clients.map(client => client.clientId)))];
+  const flaky: FlakyClient[] = [];
+
+  for (const clientId of clientIds) {
+    const states = runs
+      .map(entry => entry.clients.find(client => client.clientId === clientId)?.state)
+      .filter((state): state is ClientState => !!state && state !== 'unknown');
+    if (states.length < MIN_FLAKY_RUNS) continue;
+
+    // A provider error is not a verdict on the screenshot, so it does not break a pass/fail streak.
+    const verdicts = states.filter(state => state === 'pass' || state === 'fail');
+    const flips = verdicts.slice(1).filter((state, index) => state !== verdicts[index]).length;
+    const providerErrors = states.filter(state => state === 'provider-error').length;
+
+    if (flips >= FLAKY_FLIPS || providerErrors / states.length >= FLAKY_PROVIDER_ERROR_RATE) {
+      flaky.push({
+        clientId,
+        runs: states.length,
+        passes: states.filter(state => state === 'pass').length,
+        failures: states.filter(state => state === 'fail').length,
+        providerErrors,
+        flips,
+        states,
+      });
+    }
+  }
+  return flaky.sort((a, b) => b.flips + b.providerErrors - (a.flips + a.providerErrors));
+}
+
+// Deletes archived runs older than maxAgeDays and/or beyond the newest `keep` per email, together
+// with their screenshot folders (temp/runs/<task>/<runId>). Returns the removed runs.
+export function pruneRunHistory(projects: string[], options: PruneOptions): RunHistoryEntry[] {
+  const cutoff = options.maxAgeDays !== undefined ? Date.now() - options.maxAgeDays * 24 * 3600 * 1000 : undefined;
+  const removed: RunHistoryEntry[] = [];
+
+  for (const project of projects) {
+    const history = loadRunHistory(project);
+    const keepFrom = options.keep !== undefined ? history.length - options.keep : 0;
+    history.forEach((entry, index) => {
+      const tooOld = cutoff !== undefined && entry.startedAt.getTime() < cutoff;
+      if (!tooOld && index >= keepFrom) return;
+
+      removed.push(entry);
+      if (options.dryRun) return;
+      unlinkSync(entry.file);
+      const runDir = getRunDir(project, entry.runId);
+      if (existsSync(runDir) && statSync(runDir).isDirectory()) rmSync(runDir, { recursive: true, force: true });
+    });
+  }
+  return removed;
+}
+
+export function describeState(state: ClientState, diffRatio?: number): string {
+  const diff = diffRatio !== undefined ? ` (${(diffRatio * 100).toFixed(2)}%)` : '';
+  return `${state}${diff}`;
+}
+
+// INTERNAL: Both archive shapes -> one entry.
+function toHistoryEntry(project: string, runId: string, file: string, data: RunArchive | GeneratedPreview[]): RunHistoryEntry {
+  const startedAt = parseRunId(runId);
+  if (Array.isArray(data)) {
+    // Older archives: only clients that had a screenshot, without status.
+    return {
+      runId,
+      project,
+      startedAt,
+      file,
+      hasResults: false,
+      clients: data.map(preview => ({ clientId: preview.client, state: 'unknown', providerStatus: 'complete' })),
+    };
+  }
+
+  const results = data.results?.clients || {};
+  return {
+    runId,
+    project,
+    startedAt,
+    file,
+    testId: data.job?.testId,
+    provider: data.job?.provider,
+    ...(data.htmlHash ? { htmlHash: data.htmlHash } : {}),
+    hasResults: !!data.results,
+    clients: data.previews.map(preview => {
+      const result = results[preview.client];
+      const providerStatus = preview.status || (preview.url ? 'complete' : 'missing');
+      return {
+        clientId: preview.client,
+        state: toState(providerStatus, result?.status),
+        providerStatus,
+        ...(preview.reason ? { providerReason: preview.reason } : {}),
+        ...(result ? { testStatus: result.status } : {}),
+        ...(result?.diffRatio !== undefined ? { diffRatio: result.diffRatio } : {}),
+        ...(result?.approval ? { approval: result.approval } : {}),
+      };
+    }),
+  };
+}
+
+function toState(providerStatus: string, testStatus?: string): ClientState {
+  if (providerStatus !== 'complete' || testStatus === PROVIDER_ERROR_STATUS) return 'provider-error';
+  if (testStatus === 'passed') return 'pass';
+  if (testStatus === 'failed' || testStatus === 'timedOut') return 'fail';
+  return 'unknown';
+}
+
+function isFailing(state: ClientState): boolean {
+  return state === 'fail' || state === 'provider-error';
+}
+
+// INTERNAL: 2025-09-24-15-18-10-592Z -> Date (UTC).
+function parseRunId(runId: string): Date {
+  const [year, month, day, hours, minutes, seconds, millis] = runId.replace(/Z$/, '').split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds, millis));
+}
+
+function readArchive(file: string): RunArchive | undefined {
+  if (!existsSync(file)) return undefined;
+  const data = JSON.parse(readFileSync(file, 'utf-8'));
+  // Older archives are bare arrays and have no place for results.
+  return Array.isArray(data) ? undefined : data;
+}
@@ -0,0 +1,191 @@
+// PURPOSE: Machine-readable results of a run for CI dashboards and ticket automation:
+//   reports/results.json  <- one entry per email and client (provider metadata, diff, timing)
+//   reports/results.xml   <- the same as JUnit XML (one <testsuite> per email)
+// Built from the client tests' annotations (see blueprint.spec.ts), by the results reporter or the CLI.
+
+import { ClientRunResult, PROVIDER_ERROR_STATUS } from './last-run';
+
+export interface ClientSummary {
+  task: string;
+  /** Playwright project = sanitized task name = baseline folder. */
+  project: string;
+  clientId: string;
+  /** Catalog name, e.g. "Gmail.com · Windows 10 · Chrome". */
+  clientName: string;
+  category?: string;
+  /** Playwright result: passed, failed, timedOut, skipped, interrupted; provider-error (flaky policy). */
+  status: string;
+  /** complete, failed, bounced, timeout, unsupported, or missing (not in the preview file). */
+  providerStatus: string;
+  providerReason?: string;
+  /** Share of differing pixels against the baseline; absent without a screenshot or baseline. */
+  diffRatio?: number;
+  baselineFile?: string;
+  provider?: string;
+  testId?: string;
+  htmlHash?: string;
+  timing: { testDurationMs: number; providerDurationMs?: number };
+  error?: string;
+}
+
+// Tests that are not about a single client (e.g. dark-mode pairs).
+export interface CheckSummary {
+  project: string;
+  title: string;
+  status: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface RunSummary {
+  generatedAt: string;
+  totals: { tests: number; passed: number; failed: number; skipped: number; providerErrors: number };
+  clients: ClientSummary[];
+  checks: CheckSummary[];
+}
+
+const FAILED_STATUSES = ['failed', 'timedOut', 'interrupted'];
+
+export function buildRunSummary(results: ClientRunResult[], checks: CheckSummary[] = []): RunSummary {
+  const clients = results.map(toClientSummary);
+  const statuses = [...clients.map(client => client.status), ...checks.map(check => check.status)];
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totals: {
+      tests: statuses.length,
+      passed: statuses.filter(status => status === 'passed').length,
+      failed: statuses.filter(status => FAILED_STATUSES.includes(status)).length,
+      skipped: statuses.filter(status => status === 'skipped').length,
+      providerErrors: statuses.filter(status => status === PROVIDER_ERROR_STATUS).length,
+    },
+    clients,
+    checks,
+  };
+}
+
+// JUnit XML: one <testsuite> per email (task), one <testcase> per client or check.
+// Provider metadata is repeated as <properties>, which most CI tools show with the test.
+export function toJUnitXml(summary: RunSummary): string {
+  const projects = [...new Set([...summary.clients.map(client => client.project), ...summary.checks.map(check => check.project)])];
+  const suites = projects.map(project => {
+    const clients = summary.clients.filter(client => client.project === project);
+    const checks = summary.checks.filter(check => check.project === project);
+    const first = clients[0];
+    const statuses = [...clients.map(client => client.status), ...checks.map(check => check.status)];
+    const durationMs = clients.reduce((sum, client) => sum + client.timing.testDurationMs, 0)
+      + checks.reduce((sum, check) => sum + check.durationMs, 0);
+
+    const suiteProperties = renderProperties({ provider: first?.provider, testId: first?.testId, htmlHash: first?.htmlHash }, '    ');
+    const cases = [
+      ...clients.map(renderClientCase),
+      ...checks.map(check => renderCase(`${project}.checks`, check.title, check.durationMs, check.status, check.error, 'check', '')),
+    ];
+
+    return `  <testsuite name="${xml(first?.task || project)}" tests="${statuses.length}" failures="${
+      statuses.filter(status => FAILED_STATUSES.includes(status)).length
+    }" errors="${statuses.filter(status => status === PROVIDER_ERROR_STATUS).length}" skipped="${
+      statuses.filter(status => status === 'skipped').length
+    }" time="${seconds(durationMs)}" timestamp="${summary.generatedAt}">
+${suiteProperties}${cases.join('\n')}
+  </testsuite>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="email-visual-tests" tests="${summary.totals.tests}" failures="${summary.totals.failed}" errors="${summary.totals.providerErrors}" skipped="${summary.totals.skipped}">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+// INTERNAL: Annotation strings -> typed entry.
+function toClientSummary(result: ClientRunResult): ClientSummary {
+  const { annotations } = result;
+  const providerDurationMs = annotations.providerDurationMs !== undefined ? Number(annotations.providerDurationMs) : undefined;
+  return {
+    task: annotations.task || result.project,
+    project: result.project,
+    clientId: result.clientId,
+    clientName: annotations.clientName || result.clientId,
+    ...(annotations.category ? { category: annotations.category } : {}),
+    status: result.status,
+    providerStatus: annotations.providerStatus || 'missing',
+    ...(annotations.providerReason ? { providerReason: annotations.providerReason } : {}),
+    ...(annotations.diffRatio !== undefined ? { diffRatio: Number(annotations.diffRatio) } : {}),
+    ...(annotations.baselineFile ? { baselineFile: annotations.baselineFile } : {}),
+    ...(annotations.provider ? { provider: annotations.provider } : {}),
+    ...(annotations.testId ? { testId: annotations.testId } : {}),
+    ...(annotations.htmlHash ? { htmlHash: annotations.htmlHash } : {}),
+    timing: {
+      testDurationMs: result.durationMs,
+      ...(providerDurationMs !== undefined ? { providerDurationMs } : {}),
+    },
+    ...(result.errorMessage ? { error: result.errorMessage } : {}),
+  };
+}
+
+function renderClientCase(client: ClientSummary): string {
+  const properties = renderProperties({
+    clientId: client.clientId,
+    providerStatus: client.providerStatus,
+    providerReason: client.providerReason,
+    diffRatio: client.diffRatio?.toString(),
+    baselineFile: client.baselineFile,
+    providerDurationMs: client.timing.providerDurationMs?.toString(),
+  }, '      ');
+  // A client without a screenshot failed at the provider, not in the comparison.
+  const failureType = client.providerStatus === 'complete' ? 'visual-diff' : 'provider-error';
+  return renderCase(
+    `${client.project}.${client.category || 'clients'}`,
+    `${client.clientName} (${client.clientId})`,
+    client.timing.testDurationMs,
+    client.status,
+    client.error || client.providerReason,
+    failureType,
+    properties
+  );
+}
+
+function renderCase(
+  className: string,
+  name: string,
+  durationMs: number,
+  status: string,
+  message: string | undefined,
+  failureType: string,
+  properties: string
+): string {
+  const open = `    <testcase classname="${xml(className)}" name="${xml(name)}" time="${seconds(durationMs)}">`;
+  let body = properties;
+  if (FAILED_STATUSES.includes(status)) {
+    const firstLine = (message || status).split('\n')[0];
+    body += `      <failure type="${failureType}" message="${xml(firstLine)}">${xml(message || status)}</failure>\n`;
+  } else if (status === PROVIDER_ERROR_STATUS) {
+    // Flaky policy: not a comparison failure, but no screenshot either (JUnit's "error").
+    body += `      <error type="${failureType}" message="${xml((message || status).split('\n')[0])}">${xml(message || status)}</error>\n`;
+  } else if (status === 'skipped') {
+    body += `      <skipped${message ? ` message="${xml(message.split('\n')[0])}"` : ''}/>\n`;
+  }
+  return body ? `${open}\n${body}    </testcase>` : `${open}</testcase>`;
+}
+
+function renderProperties(values: Record<string, string | undefined>, indent: string): string {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined && value !== '');
+  if (entries.length === 0) return '';
+  const lines = entries.map(([name, value]) => `${indent}  <property name="${name}" value="${xml(value!)}"/>`);
+  return `${indent}<properties>\n${lines.join('\n')}\n${indent}</properties>\n`;
+}
+
+function seconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
+
+// INTERNAL: XML attribute/text escaping; control characters are not allowed in XML 1.0.
+function xml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
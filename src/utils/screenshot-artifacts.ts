@@ -0,0 +1,127 @@
+// PURPOSE: Keeps a local copy of every provider screenshot, so comparisons run on the image
+// files themselves and old runs can be re-compared after the provider's URLs have expired.
+//
+// LAYOUT (one folder per email and run):
+//   temp/runs/<task>/<timestamp>/<client>.png     <- downloaded screenshots
+//   temp/runs/<task>/<timestamp>/previews.json    <- the preview file of that run (with checksums)
+//   temp/runs/<task>/<timestamp>/email.html       <- the HTML submitted in that run (when known)
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { relative, resolve } from 'path';
+import axios from 'axios';
+import { ROOT_DIR, TEMP_DIR } from './email-tasks';
+import { hashContent } from './hash';
+
+export const RUNS_DIR = resolve(TEMP_DIR, 'runs');
+export const RUN_MANIFEST_NAME = 'previews.json';
+export const RUN_HTML_NAME = 'email.html';
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif';
+
+// What is recorded for each downloaded screenshot.
+export interface ScreenshotArtifact {
+  /** Path relative to the project root (so runs can be moved along with the checkout). */
+  file: string;
+  /** SHA-256 of the image bytes as downloaded. */
+  checksum: string;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  bytes: number;
+}
+
+export function getRunDir(sanitizedTaskName: string, runId: string): string {
+  return resolve(RUNS_DIR, sanitizedTaskName, runId);
+}
+
+// The HTML a run submitted (absent when it reused an existing provider test).
+export function loadRunHtml(sanitizedTaskName: string, runId: string): string | undefined {
+  const file = resolve(getRunDir(sanitizedTaskName, runId), RUN_HTML_NAME);
+  return existsSync(file) ? readFileSync(file, 'utf-8') : undefined;
+}
+
+// Run IDs (timestamps) of an email, oldest first.
+export function listRunIds(sanitizedTaskName: string): string[] {
+  const taskDir = resolve(RUNS_DIR, sanitizedTaskName);
+  if (!existsSync(taskDir)) return [];
+  return readdirSync(taskDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && existsSync(resolve(taskDir, entry.name, RUN_MANIFEST_NAME)))
+    .map(entry => entry.name)
+    .sort();
+}
+
+// Saves the image behind `url` (http(s) or file://) as <targetDir>/<fileStem>.<ext>.
+export async function downloadScreenshot(url: string, targetDir: string, fileStem: string): Promise<ScreenshotArtifact> {
+  const data = await fetchImage(url);
+  const format = detectImageFormat(data);
+  if (!format) {
+    throw new Error(`Not a PNG, JPEG or GIF image (${data.length} bytes) at ${url}`);
+  }
+  const { width, height } = readImageSize(data, format);
+
+  mkdirSync(targetDir, { recursive: true });
+  const file = resolve(targetDir, `${fileStem}.${format === 'jpeg' ? 'jpg' : format}`);
+  writeFileSync(file, data);
+
+  return {
+    file: relative(ROOT_DIR, file),
+    checksum: hashContent(data),
+    width,
+    height,
+    format,
+    bytes: data.length,
+  };
+}
+
+// Absolute path of an artifact, after checking the file still matches its recorded checksum.
+export function verifyArtifact(artifact: ScreenshotArtifact): string {
+  const file = resolve(ROOT_DIR, artifact.file);
+  if (!existsSync(file)) throw new Error(`Screenshot file missing: ${file}`);
+  if (hashContent(readFileSync(file)) !== artifact.checksum) {
+    throw new Error(`Screenshot file changed since it was downloaded (checksum mismatch): ${file}`);
+  }
+  return file;
+}
+
+export function detectImageFormat(data: Buffer): ImageFormat | undefined {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return 'png';
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data.length >= 6 && data.toString('ascii', 0, 3) === 'GIF') return 'gif';
+  return undefined;
+}
+
+// Reads the pixel size from the image header (no full decode needed).
+export function readImageSize(data: Buffer, format: ImageFormat): { width: number; height: number } {
+  if (format === 'png') {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (format === 'gif') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker (SOF0..SOF15, minus DHT/JPG/DAC).
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+    if (isStartOfFrame) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  throw new Error('Could not read JPEG dimensions.');
+}
+
+// INTERNAL: Local renders hand out file:// URLs; providers hand out http(s) URLs.
+async function fetchImage(url: string): Promise<Buffer> {
+  if (url.startsWith('file://')) {
+    return readFileSync(fileURLToPath(url));
+  }
+  const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 30000 });
+  return Buffer.from(response.data);
+}
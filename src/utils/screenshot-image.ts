@@ -0,0 +1,102 @@
+// PURPOSE: Prepares a downloaded provider screenshot for comparison against its baseline:
+// decode it to RGBA, paint the ignore regions over it, and encode it as PNG.
+// Baselines are therefore the provider's image itself, pixel for pixel (no browser page around it).
+
+import { readFileSync } from 'fs';
+import type { Page } from '@playwright/test';
+import { PNG } from 'pngjs';
+import { PixelRegion } from './email-config';
+import { detectImageFormat } from './screenshot-artifacts';
+
+// Same color Playwright uses for `mask`, so masked areas look familiar in the report.
+const MASK_COLOR = [0xff, 0x00, 0xff, 0xff];
+
+// Decodes a PNG directly. JPEG/GIF screenshots are converted by drawing them in the browser
+// at their natural size (device scale factor 1), which keeps every pixel in place.
+export async function decodeScreenshot(page: Page, file: string): Promise<PNG> {
+  const data = readFileSync(file);
+  const format = detectImageFormat(data);
+  if (format === 'png') return PNG.sync.read(data);
+  if (!format) throw new Error(`Unsupported image format: ${file}`);
+
+  const dataUrl = `data:image/${format};base64,${data.toString('base64')}`;
+  await page.setContent(`<body style="margin:0"><img src="${dataUrl}" style="display:block"></body>`);
+  const image = page.locator('img');
+  const size = await image.evaluate((element: HTMLImageElement) => ({
+    width: element.naturalWidth,
+    height: element.naturalHeight,
+  }));
+  await page.setViewportSize(size);
+  return PNG.sync.read(await image.screenshot({ animations: 'disabled' }));
+}
+
+// Fills each region (clipped to the image) with the mask color.
+export function maskRegions(image: PNG, regions: PixelRegion[]): void {
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(image.width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const offset = (y * image.width + x) * 4;
+        image.data.set(MASK_COLOR, offset);
+      }
+    }
+  }
+}
+
+// Copy of the image with a frame drawn around each region (for findings attached to the report).
+export function outlineRegions(image: PNG, regions: PixelRegion[], color: number[] = MASK_COLOR, thickness = 3): PNG {
+  const copy = new PNG({ width: image.width, height: image.height });
+  image.data.copy(copy.data);
+
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(image.width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const onEdge = x - left < thickness || right - 1 - x < thickness || y - top < thickness || bottom - 1 - y < thickness;
+        if (onEdge) copy.data.set(color, (y * image.width + x) * 4);
+      }
+    }
+  }
+  return copy;
+}
+
+// Downscaled copy (box filter) no wider than maxWidth; smaller images are returned as they are.
+export function scaleToWidth(image: PNG, maxWidth: number): PNG {
+  if (image.width <= maxWidth) return image;
+
+  const factor = image.width / maxWidth;
+  const width = maxWidth;
+  const height = Math.max(1, Math.round(image.height / factor));
+  const scaled = new PNG({ width, height });
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * factor);
+    const bottom = Math.min(image.height, Math.max(top + 1, Math.floor((y + 1) * factor)));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * factor);
+      const right = Math.min(image.width, Math.max(left + 1, Math.floor((x + 1) * factor)));
+      const sum = [0, 0, 0, 0];
+      for (let sourceY = top; sourceY < bottom; sourceY++) {
+        for (let sourceX = left; sourceX < right; sourceX++) {
+          const offset = (sourceY * image.width + sourceX) * 4;
+          for (let channel = 0; channel < 4; channel++) sum[channel] += image.data[offset + channel];
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      scaled.data.set(sum.map(value => Math.round(value / count)), (y * width + x) * 4);
+    }
+  }
+  return scaled;
+}
+
+export function encodePng(image: PNG): Buffer {
+  return PNG.sync.write(image);
+}
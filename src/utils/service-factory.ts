@@ -1,10 +1,12 @@
 // PURPOSE: Chooses which email preview service implementation to use.
-// Currently only Email on Acid is active. Litmus skeleton is present for future.
+// Supports Email on Acid, Litmus, and offline local rendering.
 
-// Interface that all services must implement (injectHtml + getPreviewUrls).
+// Interface that all services must implement (injectHtml + getPreviewResults).
 import { IEmailPreviewService } from '../interfaces/i-email-preview-service';
 import { EmailOnAcidService } from '../services/email-on-acid-service';
-// import { LitmusService } from '../services/litmus-service'; // (Future expansion)
+import { LitmusService } from '../services/litmus-service';
+import { LocalRenderService } from '../services/local-render-service';
+import { RunConfig, getRunConfig, resolveSecret } from './run-config';
 
 export function getEmailPreviewService(
   serviceName: string,
@@ -19,10 +21,40 @@ export function getEmailPreviewService(
       return new EmailOnAcidService(apiKey, accountPassword);
 
     case 'litmus':
-      // Placeholder:
-      // return new LitmusService(apiKey);
+      // credentials.litmus.baseUrl (LITMUS_API_BASE_URL) lets tests point the service at a local mock server.
+      return new LitmusService(apiKey, getRunConfig().credentials.litmus.baseUrl || undefined);
+
+    case 'local':
+      // No account needed: renders with the locally installed Playwright browsers.
+      return new LocalRenderService();
 
     default:
       throw new Error(`Unsupported preview service: ${serviceName}`);
   }
-}
\ No newline at end of file
+}
+
+// Service and credentials from the run config: "provider" (EMAIL_PREVIEW_SERVICE) and the env vars its
+// "credentials" reference (by default <SERVICE>_API_KEY and EMAILONACID_ACCOUNT_PASSWORD).
+export function getServiceCredentials(config: RunConfig = getRunConfig()) {
+  const { provider: serviceToUse, credentials } = config;
+  if (!serviceToUse) {
+    throw new Error('Missing provider: set EMAIL_PREVIEW_SERVICE or "provider" in the run config.');
+  }
+
+  // Local rendering runs offline and needs no credentials.
+  if (serviceToUse === 'local') {
+    return { serviceToUse, apiKey: '', accountPassword: undefined };
+  }
+
+  const { apiKey: apiKeyReference, accountPassword: passwordReference } = credentials[serviceToUse];
+  const apiKey = resolveSecret(apiKeyReference);
+  if (!apiKey) {
+    throw new Error(`Missing ${serviceToUse} API key (${apiKeyReference || 'no credentials.apiKey in the run config'}).`);
+  }
+  // Only Email on Acid needs an account password; Litmus authenticates with the key alone.
+  const accountPassword = resolveSecret(passwordReference);
+  if (serviceToUse === 'emailonacid' && !accountPassword) {
+    throw new Error(`Missing Email on Acid account password (${passwordReference || 'no credentials.accountPassword in the run config'}).`);
+  }
+  return { serviceToUse, apiKey, accountPassword };
+}
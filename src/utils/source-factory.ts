@@ -0,0 +1,74 @@
+// PURPOSE: Chooses where the email HTML comes from (run config "emailSource", env EMAIL_SOURCE):
+// - file (default): emails/<task>.html as it is on disk, or extracted from emails/<task>.eml when
+//   that exists. EML_ASSET_BASE_URL makes the .eml's inline images hosted files instead of data URIs.
+//   Template tasks render emails/<name>.hbs with their data fixture.
+// - gmail: a Gmail message by GMAIL_MESSAGE_ID, or the newest match for GMAIL_QUERY.
+//   GMAIL_FIXTURES_DIR swaps the Gmail API for saved JSON messages (offline runs and tests).
+// The env vars are read through the run config (see ENV_VARIABLES in run-config.ts).
+
+import { resolve } from 'path';
+import { IEmailSource } from '../interfaces/i-email-source';
+import { EmlEmailSource } from '../sources/eml-email-source';
+import { FileEmailSource } from '../sources/file-email-source';
+import { TemplateEmailSource } from '../sources/template-email-source';
+import { FixtureGmailClient, GmailApiClient, GmailClient } from '../sources/gmail-client';
+import { GmailEmailSource } from '../sources/gmail-email-source';
+import { EmailTask, ROOT_DIR, TEMP_DIR } from './email-tasks';
+import { EmailSourceSettings, getRunConfig } from './run-config';
+
+// The extractor's OAuth client file, used unless GMAIL_CREDENTIALS_FILE says otherwise.
+const DEFAULT_GMAIL_CREDENTIALS = resolve(ROOT_DIR, 'email-html-extractor', 'credentials.json');
+
+export function getEmailSourceName(settings: EmailSourceSettings = getRunConfig().emailSource): string {
+  return settings.type;
+}
+
+export function getEmailSource(
+  task: EmailTask,
+  sourceName: string = getEmailSourceName(),
+  settings: EmailSourceSettings = getRunConfig().emailSource
+): IEmailSource {
+  switch (sourceName) {
+    case 'file':
+      if (task.template) return new TemplateEmailSource(task.template.templateFile, task.template.fixtureFile);
+      return task.emlFile ? getEmlSource(task.emlFile, task.sanitizedTaskName, settings) : new FileEmailSource(task.htmlFile);
+
+    case 'gmail': {
+      const { messageId, query } = settings.gmail;
+      if (!messageId && !query) {
+        throw new Error('EMAIL_SOURCE=gmail needs GMAIL_MESSAGE_ID or GMAIL_QUERY (run config "emailSource.gmail").');
+      }
+      return new GmailEmailSource(getGmailClient(settings), { messageId, query });
+    }
+
+    default:
+      throw new Error(`Unsupported email source: ${sourceName}`);
+  }
+}
+
+// Inline images go to EML_ASSET_DIR/<task>/ (default temp/eml-assets), which must be published
+// at EML_ASSET_BASE_URL/<task>/ before the providers render the email.
+export function getEmlSource(
+  emlFile: string,
+  sanitizedTaskName: string,
+  settings: EmailSourceSettings = getRunConfig().emailSource
+): EmlEmailSource {
+  const baseUrl = settings.eml.assetBaseUrl;
+  if (!baseUrl) return new EmlEmailSource(emlFile);
+
+  const assetRoot = resolve(ROOT_DIR, settings.eml.assetDir || resolve(TEMP_DIR, 'eml-assets'));
+  return new EmlEmailSource(emlFile, {
+    dir: resolve(assetRoot, sanitizedTaskName),
+    baseUrl: `${baseUrl.replace(/\/+$/, '')}/${sanitizedTaskName}`,
+  });
+}
+
+export function getGmailClient(settings: EmailSourceSettings = getRunConfig().emailSource): GmailClient {
+  const { fixturesDir, credentialsFile } = settings.gmail;
+  if (fixturesDir) {
+    return new FixtureGmailClient(resolve(ROOT_DIR, fixturesDir));
+  }
+  return new GmailApiClient({
+    credentialsFile: resolve(ROOT_DIR, credentialsFile || DEFAULT_GMAIL_CREDENTIALS),
+  });
+}
@@ -0,0 +1,101 @@
+// PURPOSE: Avoid paying for a new provider test when the same HTML was already submitted
+// for the same clients. The cache maps a content key to the provider test ID and the
+// screenshot URLs collected for it, and lives next to the run archives:
+//   temp/archives/submission-cache.json
+//
+// The key hashes the provider, the *normalized* HTML (line endings and trailing whitespace
+// ignored) and the sorted client list. Whitespace between tags is kept: "<b>A</b> <i>B</i>" renders
+// a space that "<b>A</b><i>B</i>" does not, and <pre> keeps every character. Comments are kept too:
+// Outlook conditional comments (<!--[if mso]>) change the rendering.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { TEMP_DIR } from './email-tasks';
+import { hashContent } from './hash';
+import { getRunConfig } from './run-config';
+
+export const SUBMISSION_CACHE_FILE = resolve(TEMP_DIR, 'archives', 'submission-cache.json');
+
+export interface CachedSubmission {
+  key: string;
+  provider: string;
+  testId: string;
+  taskName: string;
+  clients: string[];
+  htmlHash: string;
+  createdAt: string;
+  lastUsedAt: string;
+  /** Screenshot URL per client from the last time the test was polled. */
+  screenshots: Record<string, string>;
+  /** Archive file written for the last run that used this test. */
+  archiveFile?: string;
+}
+
+export function normalizeHtml(html: string): string {
+  return html
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+}
+
+export function computeSubmissionKey(provider: string, html: string, clients: string[]): string {
+  return hashContent(JSON.stringify({ provider, html: normalizeHtml(html), clients: [...clients].sort() }));
+}
+
+// Entries older than this are ignored and pruned: run config "cache.maxAgeHours"
+// (SUBMISSION_CACHE_MAX_AGE_HOURS), default 7 days.
+export function getCacheMaxAgeHours(): number {
+  return getRunConfig().cache.maxAgeHours;
+}
+
+// "cache.forceNewTest" (FORCE_NEW_TEST=true) always creates a fresh provider test (the new test still gets cached).
+export function isCacheBypassed(): boolean {
+  return getRunConfig().cache.forceNewTest;
+}
+
+export function loadSubmissionCache(): CachedSubmission[] {
+  if (!existsSync(SUBMISSION_CACHE_FILE)) return [];
+  try {
+    return JSON.parse(readFileSync(SUBMISSION_CACHE_FILE, 'utf-8'));
+  } catch (error: any) {
+    console.warn(`WARNING: Ignoring unreadable submission cache (${error.message}).`);
+    return [];
+  }
+}
+
+// Returns a non-expired entry for the key, if any.
+export function findCachedSubmission(
+  key: string,
+  maxAgeHours: number = getCacheMaxAgeHours()
+): CachedSubmission | undefined {
+  return loadSubmissionCache().find(entry => entry.key === key && !isExpired(entry, maxAgeHours));
+}
+
+// Inserts or updates an entry (matched by key).
+export function saveCachedSubmission(entry: CachedSubmission): void {
+  const entries = loadSubmissionCache().filter(existing => existing.key !== entry.key);
+  entries.push(entry);
+  writeCache(entries);
+}
+
+// Removes expired entries and returns how many were dropped.
+export function pruneSubmissionCache(maxAgeHours: number = getCacheMaxAgeHours()): number {
+  const entries = loadSubmissionCache();
+  const kept = entries.filter(entry => !isExpired(entry, maxAgeHours));
+  if (kept.length !== entries.length) writeCache(kept);
+  return entries.length - kept.length;
+}
+
+export function clearSubmissionCache(): void {
+  writeCache([]);
+}
+
+// INTERNAL: Age counts from creation; provider tests (and their screenshots) expire upstream too.
+function isExpired(entry: CachedSubmission, maxAgeHours: number): boolean {
+  return Date.now() - new Date(entry.createdAt).getTime() > maxAgeHours * 60 * 60 * 1000;
+}
+
+function writeCache(entries: CachedSubmission[]): void {
+  mkdirSync(dirname(SUBMISSION_CACHE_FILE), { recursive: true });
+  writeFileSync(SUBMISSION_CACHE_FILE, JSON.stringify(entries, null, 2));
+}
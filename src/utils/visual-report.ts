@@ -0,0 +1,285 @@
+// PURPOSE: Builds the cross-client visual report: one self-contained HTML file (images embedded
+// as data URIs, no external CSS/JS) that can be attached to a ticket.
+// - Every client's current screenshot next to its baseline and the diff (computed with image-compare).
+// - Grouped by email, then by client category (Application, Mobile, Web... from the catalog).
+// - Pass/fail badges, provider status, test ID, HTML hash; sortable by diff percentage.
+// Written by the visual-report reporter after each run, or from last-run.json with the CLI.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, resolve } from 'path';
+import { PNG } from 'pngjs';
+import { ClientRunResult, PROVIDER_ERROR_STATUS } from './last-run';
+import { REPORTS_DIR, ROOT_DIR } from './email-tasks';
+import { compareImages, formatDiffPercent } from './image-compare';
+import { encodePng, scaleToWidth } from './screenshot-image';
+
+export const DEFAULT_VISUAL_REPORT_FILE = resolve(REPORTS_DIR, 'visual-report.html');
+
+export interface VisualReportOptions {
+  outputFile?: string;
+  /** Width the embedded images are scaled down to (keeps the file attachable). Default 480. */
+  imageWidth?: number;
+  title?: string;
+  /** Image captions, e.g. { current: 'After', baseline: 'Before' } when comparing two runs. */
+  imageLabels?: Partial<ImageLabels>;
+  /** Badge text per test status (default: the status in capitals). */
+  statusLabels?: Record<string, string>;
+  /** Note on cards with a current image but none to compare with. */
+  missingBaselineNote?: string;
+}
+
+interface ImageLabels {
+  current: string;
+  baseline: string;
+  diff: string;
+}
+
+interface ReportEntry {
+  project: string;
+  clientId: string;
+  title: string;
+  category: string;
+  status: string;
+  providerStatus: string;
+  providerReason?: string;
+  diffRatio?: number;
+  note?: string;
+  images: { current?: string; baseline?: string; diff?: string };
+}
+
+interface RenderLabels {
+  imageLabels: ImageLabels;
+  statusLabels: Record<string, string>;
+}
+
+interface ReportGroup {
+  project: string;
+  testId?: string;
+  htmlHash?: string;
+  entries: ReportEntry[];
+}
+
+const DEFAULT_IMAGE_WIDTH = 480;
+const DEFAULT_IMAGE_LABELS: ImageLabels = { current: 'Current', baseline: 'Baseline', diff: 'Diff' };
+
+// Writes the report and returns its path.
+export function writeVisualReport(results: ClientRunResult[], options: VisualReportOptions = {}): string {
+  const outputFile = options.outputFile || DEFAULT_VISUAL_REPORT_FILE;
+  const imageWidth = options.imageWidth || DEFAULT_IMAGE_WIDTH;
+
+  const groups = new Map<string, ReportGroup>();
+  for (const result of results) {
+    const group = groups.get(result.project)
+      || { project: result.project, testId: result.annotations.testId, htmlHash: result.annotations.htmlHash, entries: [] };
+    group.entries.push(toEntry(result, imageWidth, options.missingBaselineNote));
+    groups.set(result.project, group);
+  }
+
+  mkdirSync(dirname(outputFile), { recursive: true });
+  writeFileSync(outputFile, renderHtml([...groups.values()], options.title || 'Visual Email Report', {
+    imageLabels: { ...DEFAULT_IMAGE_LABELS, ...options.imageLabels },
+    statusLabels: options.statusLabels || {},
+  }));
+  return outputFile;
+}
+
+// INTERNAL: Loads the images of one client test and computes its diff.
+function toEntry(result: ClientRunResult, imageWidth: number, missingBaselineNote?: string): ReportEntry {
+  const { annotations } = result;
+  const entry: ReportEntry = {
+    project: result.project,
+    clientId: result.clientId,
+    title: result.title,
+    category: annotations.category || 'Other',
+    status: result.status,
+    providerStatus: annotations.providerStatus || 'unknown',
+    ...(annotations.providerReason ? { providerReason: annotations.providerReason } : {}),
+    images: {},
+  };
+
+  const current = readPng(result.currentFile || result.actualFile);
+  const baselineFile = result.expectedFile
+    || (annotations.baselineFile ? resolve(ROOT_DIR, annotations.baselineFile) : undefined);
+  const baseline = readPng(baselineFile);
+
+  if (current) entry.images.current = toDataUri(current, imageWidth);
+  if (baseline) entry.images.baseline = toDataUri(baseline, imageWidth);
+  if (current && baseline) {
+    const comparison = compareImages(current, baseline);
+    // Clients checked with another comparison mode show that mode's heatmap.
+    const heatmap = readPng(result.heatmapFile);
+    entry.images.diff = toDataUri(heatmap || comparison.diffImage, imageWidth);
+    // The test's own figure used the client's threshold; fall back to the default one.
+    entry.diffRatio = annotations.diffRatio !== undefined ? Number(annotations.diffRatio) : comparison.diffRatio;
+    if (heatmap && annotations.comparison) entry.note = `${annotations.comparisonMode}: ${annotations.comparison}`;
+    else if (comparison.sizeMismatch) entry.note = comparison.sizeMismatch;
+  } else if (current && !baseline) {
+    entry.note = missingBaselineNote || 'No baseline yet (first run for this client).';
+  }
+  return entry;
+}
+
+function readPng(file?: string): PNG | undefined {
+  if (!file) return undefined;
+  const absolute = isAbsolute(file) ? file : resolve(ROOT_DIR, file);
+  if (!existsSync(absolute)) return undefined;
+  try {
+    return PNG.sync.read(readFileSync(absolute));
+  } catch {
+    return undefined;
+  }
+}
+
+function toDataUri(image: PNG, width: number): string {
+  return `data:image/png;base64,${encodePng(scaleToWidth(image, width)).toString('base64')}`;
+}
+
+// INTERNAL: Static page; the small script only reorders/filters cards and enlarges images on click.
+function renderHtml(groups: ReportGroup[], title: string, labels: RenderLabels): string {
+  const all = groups.flatMap(group => group.entries);
+  const count = (predicate: (entry: ReportEntry) => boolean) => all.filter(predicate).length;
+  const word = (status: string) => (labels.statusLabels[status] || status).toLowerCase();
+  const summary = [
+    `${all.length} client(s)`,
+    `${count(entry => entry.status === 'passed')} ${word('passed')}`,
+    `${count(entry => entry.status === 'failed' || entry.status === 'timedOut')} ${word('failed')}`,
+    `${count(entry => entry.status === 'skipped')} ${word('skipped')}`,
+    `${count(entry => entry.status === PROVIDER_ERROR_STATUS)} ${word(PROVIDER_ERROR_STATUS)}`,
+  ].join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(summary)} · generated ${escapeHtml(new Date().toLocaleString())}</p>
+  <div class="controls">
+    <label>Sort <select id="sort">
+      <option value="catalog">Catalog order</option>
+      <option value="diff-desc">Diff % (highest first)</option>
+      <option value="diff-asc">Diff % (lowest first)</option>
+      <option value="client">Client ID</option>
+    </select></label>
+    <label><input type="checkbox" id="group" checked> Group by category</label>
+    <label><input type="checkbox" id="failed-only"> Failed only</label>
+  </div>
+</header>
+${groups.map(group => renderGroup(group, labels)).join('\n')}
+<div id="lightbox" hidden><img alt=""></div>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function renderGroup(group: ReportGroup, labels: RenderLabels): string {
+  const categories = [...new Set(group.entries.map(entry => entry.category))];
+  const meta = [
+    group.testId ? `Test ID <code>${escapeHtml(group.testId)}</code>` : '',
+    group.htmlHash ? `HTML hash <code>${escapeHtml(group.htmlHash.slice(0, 12))}</code>` : '',
+  ].filter(Boolean).join(' · ');
+
+  return `<section class="email">
+  <h2>${escapeHtml(group.project)}</h2>
+  ${meta ? `<p class="meta">${meta}</p>` : ''}
+  <div class="cards">
+${group.entries.map((entry, index) => renderCard(entry, index, categories.indexOf(entry.category), labels)).join('\n')}
+  </div>
+</section>`;
+}
+
+function renderCard(entry: ReportEntry, index: number, categoryIndex: number, labels: RenderLabels): string {
+  const failed = entry.status === 'failed' || entry.status === 'timedOut';
+  const badge = entry.status === 'passed' ? 'pass' : failed ? 'fail' : entry.status === PROVIDER_ERROR_STATUS ? 'provider' : 'skip';
+  const diff = entry.diffRatio !== undefined ? formatDiffPercent(entry.diffRatio) : 'n/a';
+  const image = (label: string, dataUri?: string) => `<figure><figcaption>${label}</figcaption>${
+    dataUri ? `<img src="${dataUri}" alt="${label}" loading="lazy">` : '<div class="empty">none</div>'
+  }</figure>`;
+
+  return `<article class="card ${badge}" data-order="${index}" data-diff="${entry.diffRatio ?? -1}"
+    data-client="${escapeHtml(entry.clientId)}" data-category="${escapeHtml(entry.category)}" data-category-order="${categoryIndex}">
+  <h3><span class="badge ${badge}">${escapeHtml(labels.statusLabels[entry.status] || entry.status.toUpperCase())}</span> ${escapeHtml(entry.title)}</h3>
+  <p class="meta">${escapeHtml(entry.category)} · provider: <b>${escapeHtml(entry.providerStatus)}</b> · diff: <b>${diff}</b></p>
+  ${entry.providerReason ? `<p class="reason">${escapeHtml(entry.providerReason)}</p>` : ''}
+  ${entry.note ? `<p class="note">${escapeHtml(entry.note)}</p>` : ''}
+  <div class="images">${image(labels.imageLabels.current, entry.images.current)}${image(labels.imageLabels.baseline, entry.images.baseline)}${image(labels.imageLabels.diff, entry.images.diff)}</div>
+</article>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+const STYLES = `
+body { font: 14px/1.4 -apple-system, "Segoe UI", Roboto, sans-serif; margin: 0; background: #f4f5f7; color: #1d2330; }
+header { position: sticky; top: 0; background: #1d2330; color: #fff; padding: 12px 24px; z-index: 1; }
+header h1 { margin: 0 0 4px; font-size: 20px; }
+header p { margin: 0 0 8px; opacity: .8; }
+.controls { display: flex; gap: 16px; }
+section.email { padding: 8px 24px 24px; }
+.meta { color: #5c6475; margin: 4px 0; }
+.cards { display: flex; flex-direction: column; gap: 16px; }
+h4.category { margin: 16px 0 0; font-size: 15px; text-transform: uppercase; letter-spacing: .05em; color: #5c6475; }
+.card { background: #fff; border-radius: 8px; padding: 12px 16px; border-left: 6px solid #aab; box-shadow: 0 1px 3px rgba(0,0,0,.08); }
+.card.pass { border-left-color: #2e9d5b; } .card.fail { border-left-color: #d93b3b; } .card.skip { border-left-color: #d9a53b; } .card.provider { border-left-color: #8a4fd9; }
+.card h3 { margin: 0; font-size: 15px; }
+.badge { display: inline-block; border-radius: 4px; padding: 1px 6px; font-size: 11px; color: #fff; vertical-align: middle; }
+.badge.pass { background: #2e9d5b; } .badge.fail { background: #d93b3b; } .badge.skip { background: #d9a53b; } .badge.provider { background: #8a4fd9; }
+.reason { color: #d93b3b; margin: 4px 0; } .note { color: #8a6d1d; margin: 4px 0; }
+.images { display: flex; gap: 12px; margin-top: 8px; align-items: flex-start; }
+figure { margin: 0; flex: 1; min-width: 0; }
+figcaption { font-weight: 600; margin-bottom: 4px; }
+figure img { max-width: 100%; border: 1px solid #dde; cursor: zoom-in; }
+.empty { border: 1px dashed #ccd; padding: 40px 0; text-align: center; color: #99a; }
+#lightbox { position: fixed; inset: 0; background: rgba(0,0,0,.85); overflow: auto; z-index: 2; cursor: zoom-out; text-align: center; }
+#lightbox img { margin: 24px auto; background: #fff; }
+.hidden { display: none; }
+`;
+
+const SCRIPT = `
+const sortSelect = document.getElementById('sort');
+const groupBox = document.getElementById('group');
+const failedBox = document.getElementById('failed-only');
+const comparators = {
+  catalog: (a, b) => a.dataset.order - b.dataset.order,
+  'diff-desc': (a, b) => b.dataset.diff - a.dataset.diff,
+  'diff-asc': (a, b) => a.dataset.diff - b.dataset.diff,
+  client: (a, b) => a.dataset.client.localeCompare(b.dataset.client),
+};
+function render() {
+  document.querySelectorAll('.cards').forEach(container => {
+    container.querySelectorAll('h4.category').forEach(heading => heading.remove());
+    const cards = [...container.querySelectorAll('.card')];
+    cards.sort((a, b) =>
+      (groupBox.checked ? a.dataset.categoryOrder - b.dataset.categoryOrder : 0) || comparators[sortSelect.value](a, b));
+    let category = null;
+    for (const card of cards) {
+      card.classList.toggle('hidden', failedBox.checked && !card.classList.contains('fail'));
+      if (groupBox.checked && card.dataset.category !== category) {
+        category = card.dataset.category;
+        const heading = document.createElement('h4');
+        heading.className = 'category';
+        heading.textContent = category;
+        container.appendChild(heading);
+      }
+      container.appendChild(card);
+    }
+  });
+}
+[sortSelect, groupBox, failedBox].forEach(control => control.addEventListener('change', render));
+const lightbox = document.getElementById('lightbox');
+document.addEventListener('click', event => {
+  if (event.target.matches('figure img')) {
+    lightbox.querySelector('img').src = event.target.src;
+    lightbox.hidden = false;
+  } else if (lightbox.contains(event.target)) {
+    lightbox.hidden = true;
+  }
+});
+render();
+`;
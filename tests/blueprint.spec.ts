@@ -1,34 +1,91 @@
-import { test, expect } from '@playwright/test';
-import { readFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
-import type { GeneratedPreview } from '../src/global-setup';
-import { sanitizeFilename } from '../src/utils/filename';
+import { test, expect, type Page } from '@playwright/test';
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { relative } from 'path';
+import { PNG } from 'pngjs';
+import type { GeneratedPreview, GeneratedPreviewFile } from '../src/global-setup';
+import {
+  EmailTask,
+  ROOT_DIR,
+  getGeneratedPreviewFile,
+  getTaskSourceFile,
+  getTaskTag,
+  resolveEmailTasks,
+} from '../src/utils/email-tasks';
+import {
+  ClientCatalogEntry,
+  findDarkModePairs,
+  formatClientDisplayName,
+  formatPreviewName,
+  getProviderErrorPolicy,
+  getScreenshotName,
+  loadClientCatalog,
+} from '../src/utils/client-catalog';
+import { DEFAULT_PROFILE, selectRunClients } from '../src/utils/client-profiles';
+import { ComparisonOptions, EmailConfig, PixelRegion, loadEmailConfig, resolveClientConfig } from '../src/utils/email-config';
+import { matchesGlob } from '../src/utils/glob';
+import { describeRegions, resolvePixelRegions } from '../src/utils/ignore-regions';
+import { PROVIDER_ERROR_ANNOTATION } from '../src/utils/last-run';
+import { ScreenshotArtifact, downloadScreenshot, loadRunHtml, verifyArtifact } from '../src/utils/screenshot-artifacts';
+import { decodeScreenshot, encodePng, maskRegions, outlineRegions } from '../src/utils/screenshot-image';
+import { analyzeDarkModePair, formatDarkModeReport } from '../src/utils/dark-mode-analysis';
+import { compareImages } from '../src/utils/image-compare';
+import { ModeComparison, compareWithMode } from '../src/utils/comparison-modes';
+import { hashContent } from '../src/utils/hash';
+import { loadBaselineHtml, recordBaselineHtml } from '../src/utils/baseline-html';
+import { diffHtml, formatDomDiff, summarizeDomDiff } from '../src/utils/dom-diff';
+import { getRunConfig, resolveTaskSettings } from '../src/utils/run-config';
 
-// TASK_NAME selects which generated preview JSON we read.
+// TASK_NAME (or EMAIL_BATCH for several emails) selects which generated preview JSON(s) we read.
 // QA: Make sure TASK_NAME matches the HTML file used in setup.
-const taskId = process.env.TASK_NAME;
+const tasks = resolveEmailTasks();
 
 // If no task name, skip entire suite (prevents confusing failures).
-if (!taskId) {
+if (tasks.length === 0) {
   test.skip('TASK_NAME not set', () => {
-    console.error('Please set TASK_NAME before running tests.');
+    console.error('Please set TASK_NAME (or EMAIL_BATCH) before running tests.');
   });
 } else {
-  // Hyphen-style consistent with setup.
-  const sanitizedTaskId = sanitizeFilename(taskId);
-  const GENERATED_URLS_FILE = resolve(
-    __dirname,
-    '..',
-    'temp',
-    `generated-preview-urls-${sanitizedTaskId}.json`
-  );
+  tasks.forEach(defineTaskTests);
+}
+
+// Declares one email's tests. They are tagged with the task so that, in batch mode,
+// each Playwright project (one per email) only runs its own email's tests.
+function defineTaskTests(task: EmailTask) {
+  const taskId = task.taskName;
+  const taskTag = getTaskTag(task.sanitizedTaskName);
+  const GENERATED_URLS_FILE = getGeneratedPreviewFile(task.sanitizedTaskName);
+
+  // Optional emails/<task>.config.json: ignore regions and per-client thresholds.
+  const emailConfig = loadEmailConfig(getTaskSourceFile(task));
+  // Run config settings for this email: client set, comparison defaults, provider error policy.
+  const settings = resolveTaskSettings(getRunConfig(), task);
+  // The HTML is only needed to measure selector-based ignore regions.
+  const htmlContent = existsSync(task.htmlFile) ? readFileSync(task.htmlFile, 'utf-8') : null;
 
   let generatedPreviews: GeneratedPreview[] = [];
+  let testId = '';
+  let htmlHash = '';
+  let runId = '';
+  let provider: string = getRunConfig().provider || 'emailonacid';
+  let previewFileLoaded = false;
 
   // Attempt to load preview URL list produced by global setup.
+  // Older files are a bare array of successful previews; newer ones also carry the job.
   if (existsSync(GENERATED_URLS_FILE)) {
     try {
-      generatedPreviews = JSON.parse(readFileSync(GENERATED_URLS_FILE, 'utf-8'));
+      const parsed: GeneratedPreviewFile | GeneratedPreview[] = JSON.parse(
+        readFileSync(GENERATED_URLS_FILE, 'utf-8')
+      );
+      if (Array.isArray(parsed)) {
+        generatedPreviews = parsed;
+      } else {
+        generatedPreviews = parsed.previews;
+        testId = parsed.job.testId;
+        provider = parsed.job.provider;
+        htmlHash = parsed.htmlHash || '';
+        runId = parsed.runId || '';
+      }
+      previewFileLoaded = true;
       console.log(
         `[Test] Loaded ${generatedPreviews.length} preview URL(s) for "${taskId}".`
       );
@@ -39,37 +96,266 @@ if (!taskId) {
     console.error(`[Test] Preview file missing: ${GENERATED_URLS_FILE}`);
   }
 
-  // If we have previews, generate one test per email client.
-  if (generatedPreviews.length > 0) {
-    test.describe(`Visual Email Checks: ${taskId}`, () => {
-      generatedPreviews.forEach(preview => {
-        test(`${preview.name} (${preview.client})`, async ({ page }) => {
+  // The HTML the screenshots were made from: the copy kept with the run, else the task's file
+  // when it is still the submitted version. Unknown when a provider test was reused.
+  const runHtml = (runId ? loadRunHtml(task.sanitizedTaskName, runId) : undefined)
+    ?? (htmlContent && htmlHash && hashContent(htmlContent) === htmlHash ? htmlContent : undefined);
+
+  // Every catalog client (of the email's client profile and set) gets a test, so a client the
+  // provider dropped shows up as a failure.
+  let fullCatalog: ClientCatalogEntry[] = [];
+  let catalog: ClientCatalogEntry[] = [];
+  try {
+    fullCatalog = loadClientCatalog(provider);
+    catalog = selectRunClients(fullCatalog, settings);
+  } catch (error: any) {
+    console.error(`[Test] Could not load client catalog: ${error.message}`);
+  }
+
+  // Catalog clients first (in catalog order), then any extra client found only in the preview file
+  // (within the client set, when there is one; a narrower profile leaves extras out).
+  const inClientSet = (id: string) => (!settings.profile || settings.profile === DEFAULT_PROFILE)
+    && (!settings.clients || settings.clients.some(pattern => matchesGlob(pattern, id)));
+  const clientIds = [
+    ...catalog.map(entry => entry.id),
+    ...generatedPreviews
+      .map(preview => preview.client)
+      .filter(id => !fullCatalog.some(entry => entry.id === id) && inClientSet(id)),
+  ];
+
+  // If setup produced a preview file, generate one test per email client.
+  if (previewFileLoaded && clientIds.length > 0) {
+    test.describe(`Visual Email Checks: ${taskId}`, { tag: taskTag }, () => {
+      clientIds.forEach(clientId => {
+        const preview = generatedPreviews.find(item => item.client === clientId);
+        const catalogEntry = catalog.find(entry => entry.id === clientId);
+
+        test(`${preview?.name || formatPreviewName(clientId)} (${clientId})`, async ({ page }) => {
           // Screenshot filename (derived from client ID).
-          const screenshotName = `${preview.client
-            .toLowerCase()
-            .replace(/[^a-z0-9]+/g, '-')}.png`;
-
-            // Annotations appear in the HTML report (extra context for QA).
-            test.info().annotations.push({ type: 'client', description: preview.client });
-            test.info().annotations.push({ type: 'previewUrl', description: preview.url });
-
-            // Navigate to the remote screenshot page from the preview service.
-            await page.goto(preview.url, { waitUntil: 'networkidle' });
-
-            // Compare the full page screenshot to stored baseline.
-            // QA: If this fails, open the HTML report to see differences.
-            await expect(page).toHaveScreenshot(screenshotName, {
-              fullPage: true,
-              timeout: 10000,
-              maxDiffPixelRatio: 0.05,
+          const screenshotName = getScreenshotName(clientId);
+
+          // Older preview files only list successful clients, so a listed client without status is complete.
+          const providerStatus = preview ? preview.status || 'complete' : 'missing';
+
+          // Annotations appear in the HTML report (extra context for QA).
+          // task, client, clientName, provider, testId, providerStatus, diffRatio, baselineFile and
+          // providerDurationMs are also what the results reporter (JUnit/JSON) is built from.
+          const baselineFile = test.info().snapshotPath(screenshotName);
+          test.info().annotations.push({ type: 'task', description: taskId });
+          test.info().annotations.push({ type: 'client', description: clientId });
+          if (catalogEntry) {
+            test.info().annotations.push({ type: 'clientName', description: formatClientDisplayName(catalogEntry) });
+            test.info().annotations.push({ type: 'category', description: catalogEntry.category });
+          }
+          test.info().annotations.push({ type: 'provider', description: provider });
+          if (testId) test.info().annotations.push({ type: 'testId', description: testId });
+          if (htmlHash) test.info().annotations.push({ type: 'htmlHash', description: htmlHash });
+          // The run-history reporter records this test's outcome in the archive of that run.
+          if (runId) test.info().annotations.push({ type: 'runId', description: runId });
+          test.info().annotations.push({ type: 'providerStatus', description: providerStatus });
+          if (preview?.timing?.durationMs !== undefined) {
+            test.info().annotations.push({ type: 'providerDurationMs', description: String(preview.timing.durationMs) });
+          }
+          test.info().annotations.push({ type: 'baselineFile', description: relative(ROOT_DIR, baselineFile) });
+
+          // No screenshot from the provider: fail (or flag as flaky) with the provider's reason.
+          if (!preview || providerStatus !== 'complete') {
+            const reason = preview?.reason || 'Client missing from the generated preview file';
+            test.info().annotations.push({ type: 'providerReason', description: reason });
+
+            // Flaky policy: the run does not fail, but every reporter lists the client as a provider error.
+            if (getProviderErrorPolicy(catalogEntry, settings.providerErrorPolicy) === 'flaky') {
+              test.info().annotations.push({ type: PROVIDER_ERROR_ANNOTATION, description: reason });
+              test.skip(true, `Provider error (${providerStatus}): ${reason}`);
+            }
+            throw new Error(`Provider returned no screenshot for ${clientId} (${providerStatus}): ${reason}`);
+          }
+
+          test.info().annotations.push({ type: 'previewUrl', description: preview.url });
+
+          // Compare the provider's image file itself (see loadPreviewImage).
+          const { artifact, image } = await loadPreviewImage(page, preview);
+          test.info().annotations.push({ type: 'screenshotFile', description: artifact.file });
+          test.info().annotations.push({ type: 'screenshotChecksum', description: artifact.checksum });
+          test.info().annotations.push({ type: 'screenshotSize', description: `${artifact.width}x${artifact.height}` });
+
+          // Dynamic content (timestamps, names, carousels) is masked out of the comparison.
+          const clientConfig = resolveClientConfig(emailConfig, clientId, settings.comparison);
+          const { regions, warnings } = await resolvePixelRegions(page, htmlContent, clientConfig);
+          warnings.forEach(warning =>
+            test.info().annotations.push({ type: 'ignoreRegionWarning', description: warning })
+          );
+          if (regions.length > 0) {
+            test.info().annotations.push({ type: 'ignoredRegions', description: describeRegions(regions) });
+            await test.info().attach('ignored-regions.json', {
+              body: JSON.stringify(regions, null, 2),
+              contentType: 'application/json',
             });
+          }
+          maskRegions(image, regions);
+          const comparedImage = encodePng(image);
+
+          // The compared image and its difference to the baseline, for the visual report.
+          const currentFile = test.info().outputPath('current.png');
+          writeFileSync(currentFile, comparedImage);
+          await test.info().attach('current.png', { path: currentFile, contentType: 'image/png' });
+          const mode = clientConfig.comparison.mode || 'pixel';
+          test.info().annotations.push({ type: 'comparisonMode', description: mode });
+          let modeResult: ModeComparison | undefined;
+          if (existsSync(baselineFile)) {
+            const baselineImage = PNG.sync.read(readFileSync(baselineFile));
+            if (mode === 'pixel') {
+              const { diffRatio } = compareImages(image, baselineImage, clientConfig.comparison);
+              test.info().annotations.push({ type: 'diffRatio', description: diffRatio.toFixed(6) });
+            } else {
+              modeResult = await attachModeComparison(image, baselineImage, clientConfig.comparison);
+            }
+          }
+
+          // Compare the screenshot image to the stored baseline: Playwright's pixel check, or the
+          // client's comparison mode once a baseline exists (new baselines are written by Playwright).
+          // QA: If this fails, open the HTML report to see differences (masked areas are pink)
+          // and the attached dom-diff.txt for the markup change behind them.
+          const previousBaseline = existsSync(baselineFile) ? readFileSync(baselineFile) : undefined;
+          const { maxDiffPixelRatio, maxDiffPixels, threshold } = clientConfig.comparison;
+          const updating = ['all', 'changed'].includes(test.info().config.updateSnapshots);
+          try {
+            if (modeResult && !updating) {
+              if (!modeResult.passed) await attachFailedComparison(screenshotName, currentFile, baselineFile);
+              expect(modeResult.passed, `${mode} comparison with ${screenshotName}: ${modeResult.summary}`).toBe(true);
+            } else {
+              expect(comparedImage).toMatchSnapshot(screenshotName, { maxDiffPixelRatio, maxDiffPixels, threshold });
+            }
+          } catch (error) {
+            await attachMarkupDiff(task.sanitizedTaskName, screenshotName, clientId, runHtml);
+            throw error;
+          }
+
+          // A baseline written by this run (first run, --update-snapshots) is made from this HTML.
+          if (runHtml && existsSync(baselineFile) && (!previousBaseline || !previousBaseline.equals(readFileSync(baselineFile)))) {
+            recordBaselineHtml(task.sanitizedTaskName, clientId, runHtml);
+          }
         });
       });
+
+      // Dark-mode checks: each light/dark pair of the same client is analyzed together.
+      if (emailConfig.darkMode?.enabled !== false) {
+        findDarkModePairs(catalog).forEach(pair => {
+          test(`Dark Mode: ${pair.dark.client} (${pair.light.id} / ${pair.dark.id})`, async ({ page }) => {
+            test.info().annotations.push({ type: 'darkModePair', description: `${pair.light.id} / ${pair.dark.id}` });
+            await checkDarkModePair(page, emailConfig, htmlContent, pair.light.id, pair.dark.id, generatedPreviews);
+          });
+        });
+      }
     });
   } else {
     // Graceful skip when no previews were generated.
-    test.describe(`No Previews Available: ${taskId}`, () => {
+    test.describe(`No Previews Available: ${taskId}`, { tag: taskTag }, () => {
       test.skip('No preview URLs found; global setup may have failed.', () => {});
     });
   }
-}
\ No newline at end of file
+}
+
+// The provider's image file for a preview: the copy global setup downloaded (checksum verified),
+// or, for older preview files and failed downloads, a fresh download of the URL.
+async function loadPreviewImage(page: Page, preview: GeneratedPreview): Promise<{ artifact: ScreenshotArtifact; image: PNG }> {
+  const artifact = preview.artifact
+    || await downloadScreenshot(preview.url, test.info().outputPath(), getScreenshotName(preview.client).replace(/\.png$/, ''));
+  const image = await decodeScreenshot(page, verifyArtifact(artifact));
+  return { artifact, image };
+}
+
+// Compares with the client's comparison mode and reports its figures and heatmap (<mode>-heatmap.png).
+async function attachModeComparison(image: PNG, baselineImage: PNG, comparison: ComparisonOptions): Promise<ModeComparison> {
+  const result = compareWithMode(image, baselineImage, comparison);
+  test.info().annotations.push({ type: 'diffRatio', description: result.diffRatio.toFixed(6) });
+  test.info().annotations.push({ type: 'comparison', description: result.summary });
+  if (result.ssim !== undefined) test.info().annotations.push({ type: 'ssim', description: result.ssim.toFixed(6) });
+  if (result.offsetY !== undefined) test.info().annotations.push({ type: 'offsetY', description: String(result.offsetY) });
+  result.notes.forEach(note => test.info().annotations.push({ type: 'comparisonNote', description: note }));
+
+  const heatmapFile = test.info().outputPath(`${result.mode}-heatmap.png`);
+  writeFileSync(heatmapFile, encodePng(result.heatmap));
+  await test.info().attach(`${result.mode}-heatmap.png`, { path: heatmapFile, contentType: 'image/png' });
+  return result;
+}
+
+// The files Playwright attaches to a failed snapshot, so a failed comparison mode can be approved the same way.
+async function attachFailedComparison(screenshotName: string, currentFile: string, baselineFile: string) {
+  const name = screenshotName.replace(/\.png$/, '');
+  await test.info().attach(`${name}-actual.png`, { path: currentFile, contentType: 'image/png' });
+  await test.info().attach(`${name}-expected.png`, { path: baselineFile, contentType: 'image/png' });
+}
+
+// Explains a failed comparison with the markup changes between the baseline's HTML and this run's.
+async function attachMarkupDiff(project: string, screenshotName: string, clientId: string, runHtml: string | undefined) {
+  const baseline = loadBaselineHtml(project, screenshotName, clientId);
+  if (!runHtml || !baseline) {
+    const missing = !runHtml ? 'HTML of this run' : 'HTML of the baseline';
+    test.info().annotations.push({ type: 'domDiff', description: `Not available (${missing} unknown)` });
+    return;
+  }
+  if (baseline.htmlHash === hashContent(runHtml)) {
+    test.info().annotations.push({ type: 'domDiff', description: 'HTML identical to the baseline; the difference comes from rendering' });
+    return;
+  }
+
+  const diff = diffHtml(baseline.html, runHtml);
+  test.info().annotations.push({ type: 'domDiff', description: summarizeDomDiff(diff) });
+  await test.info().attach('dom-diff.txt', {
+    body: [`Baseline HTML ${baseline.htmlHash.slice(0, 12)} -> this run`, '', ...formatDomDiff(diff)].join('\n'),
+    contentType: 'text/plain',
+  });
+  await test.info().attach('dom-diff.json', {
+    body: JSON.stringify({ baselineHtmlHash: baseline.htmlHash, ...diff }, null, 2),
+    contentType: 'application/json',
+  });
+}
+
+// Analyzes one light/dark pair and fails on findings at the email's darkMode.failOn severity.
+// Findings below it are reported as annotations (plus the outlined dark screenshot).
+async function checkDarkModePair(
+  page: Page,
+  emailConfig: EmailConfig,
+  htmlContent: string | null,
+  lightId: string,
+  darkId: string,
+  previews: GeneratedPreview[]
+) {
+  const light = previews.find(preview => preview.client === lightId);
+  const dark = previews.find(preview => preview.client === darkId);
+  const missing = [light, dark].some(preview => !preview || (preview.status || 'complete') !== 'complete');
+  // The client tests already report missing screenshots; this pair just has nothing to compare.
+  test.skip(missing, `No screenshot for ${!light || (light.status || 'complete') !== 'complete' ? lightId : darkId}`);
+
+  const lightImage = (await loadPreviewImage(page, light!)).image;
+  const darkImage = (await loadPreviewImage(page, dark!)).image;
+
+  // Masked dynamic content differs between the two renders anyway; skip it.
+  const ignoreRegions: PixelRegion[] = [];
+  for (const clientId of [lightId, darkId]) {
+    const { regions } = await resolvePixelRegions(page, htmlContent, resolveClientConfig(emailConfig, clientId));
+    ignoreRegions.push(...regions);
+  }
+
+  const report = analyzeDarkModePair(lightImage, darkImage, emailConfig.darkMode, ignoreRegions);
+  const lines = formatDarkModeReport(report);
+  if (report.sizeWarning) test.info().annotations.push({ type: 'darkModeWarning', description: report.sizeWarning });
+  report.findings.forEach(finding =>
+    test.info().annotations.push({ type: `darkMode/${finding.rule}`, description: `${finding.severity}: ${finding.message}` })
+  );
+
+  if (report.findings.length > 0) {
+    await test.info().attach('dark-mode-findings.json', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json',
+    });
+    await test.info().attach('dark-mode-regions.png', {
+      body: encodePng(outlineRegions(darkImage, report.findings.map(finding => finding.region))),
+      contentType: 'image/png',
+    });
+  }
+
+  // QA: Open the attached dark-mode-regions.png to see the flagged areas (pink frames).
+  expect(report.failed, lines.join('\n')).toBe(false);
+}
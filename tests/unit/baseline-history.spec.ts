@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  BASELINES_DIR,
+  approveBaseline,
+  getBaselineFile,
+  loadHistory,
+  rejectBaseline,
+  rollbackBaseline,
+} from '../../src/utils/baseline-history';
+
+// Baselines live in test-results/unit-tree/visual-baselines (see unit-run-config.json).
+const PROJECT = 'baseline-history-spec';
+const SCREENSHOT = 'ol2021.png';
+
+function writeImage(name: string, content: string): string {
+  const file = test.info().outputPath(name);
+  writeFileSync(file, content);
+  return file;
+}
+
+const baseline = () => readFileSync(getBaselineFile(PROJECT, SCREENSHOT), 'utf-8');
+
+test('approve keeps every version, rollback restores the previous bytes', () => {
+  rmSync(resolve(BASELINES_DIR, PROJECT), { recursive: true, force: true });
+  mkdirSync(resolve(BASELINES_DIR, PROJECT), { recursive: true });
+  writeFileSync(getBaselineFile(PROJECT, SCREENSHOT), 'original');
+
+  const first = approveBaseline(PROJECT, SCREENSHOT, writeImage('first.png', 'first'), { clientId: 'ol2021', testId: 'test-1', approvedBy: 'qa' });
+  expect(first).toMatchObject({ version: 1, file: 'v1.png', approvedBy: 'qa', testId: 'test-1', source: 'approve' });
+  approveBaseline(PROJECT, SCREENSHOT, writeImage('second.png', 'second'), { clientId: 'ol2021', approvedBy: 'qa' });
+  expect(baseline()).toBe('second');
+
+  rejectBaseline(PROJECT, SCREENSHOT, { clientId: 'ol2021', approvedBy: 'qa', testId: 'test-3', note: 'Outlook spacing still wrong' });
+  expect(baseline()).toBe('second');
+
+  expect(rollbackBaseline(PROJECT, SCREENSHOT, 'ol2021', undefined, 'qa').version).toBe(1);
+  expect(baseline()).toBe('first');
+  // The baseline that existed before the first approval is version 0.
+  expect(rollbackBaseline(PROJECT, SCREENSHOT, 'ol2021', 0, 'qa').source).toBe('initial');
+  expect(baseline()).toBe('original');
+
+  const history = loadHistory(PROJECT, SCREENSHOT, 'ol2021');
+  expect(history.currentVersion).toBe(0);
+  expect(history.versions.map(version => version.version)).toEqual([0, 1, 2]);
+  expect(history.decisions.map(decision => [decision.action, decision.version])).toEqual([
+    ['approve', 1], ['approve', 2], ['reject', undefined], ['rollback', 1], ['rollback', 0],
+  ]);
+  expect(history.decisions[2].note).toBe('Outlook spacing still wrong');
+
+  expect(() => rollbackBaseline(PROJECT, SCREENSHOT, 'ol2021', undefined, 'qa')).toThrow('No earlier version');
+  expect(() => rollbackBaseline(PROJECT, SCREENSHOT, 'ol2021', 7, 'qa')).toThrow('Available: 0, 1, 2');
+  expect(() => rollbackBaseline(PROJECT, 'gmailnew.png', 'gmailnew', undefined, 'qa')).toThrow('No baseline history');
+});
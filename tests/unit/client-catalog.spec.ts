@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { SupportedClient } from '../../src/interfaces/preview-job';
+import { CatalogSyncReport, ClientCatalogEntry, applyCatalogSync, diffClientCatalog } from '../../src/utils/client-catalog';
+
+const OUTLOOK: ClientCatalogEntry = { id: 'ol2021', client: 'Outlook 2021', os: 'Windows 10', category: 'Application', default: true };
+const GMAIL: ClientCatalogEntry = { id: 'gmailcom', client: 'Gmail.com', os: 'Win 10', category: 'Web', browser: 'Chrome' };
+const RETIRED: ClientCatalogEntry = { id: 'ol2010', client: 'Outlook 2010', os: 'Windows 7', category: 'Application', retired: true };
+
+interface SyncCase {
+  name: string;
+  catalog: ClientCatalogEntry[];
+  offered: SupportedClient[];
+  report: Partial<CatalogSyncReport>;
+  /** The catalog after the sync (new clients appended only with addNew). */
+  synced: ClientCatalogEntry[];
+  syncedWithNew?: ClientCatalogEntry[];
+}
+
+const CASES: SyncCase[] = [
+  {
+    name: 'an offered client with the same details (whitespace aside) is unchanged',
+    catalog: [OUTLOOK],
+    offered: [{ id: 'ol2021', client: ' Outlook  2021', os: 'Windows 10' }],
+    report: {},
+    synced: [OUTLOOK],
+  },
+  {
+    name: 'a client the provider no longer offers is retired',
+    catalog: [OUTLOOK],
+    offered: [],
+    report: { retired: [OUTLOOK] },
+    synced: [{ ...OUTLOOK, retired: true }],
+  },
+  {
+    name: 'a retired client that is still gone is not reported again',
+    catalog: [RETIRED],
+    offered: [],
+    report: {},
+    synced: [RETIRED],
+  },
+  {
+    name: 'a retired client offered again is restored',
+    catalog: [RETIRED],
+    offered: [{ id: 'ol2010' }],
+    report: { restored: [RETIRED] },
+    synced: [{ id: 'ol2010', client: 'Outlook 2010', os: 'Windows 7', category: 'Application' }],
+  },
+  {
+    name: 'a new client with details is added outside the default set',
+    catalog: [],
+    offered: [{ id: 'iphone16', client: 'iPhone 16', os: 'iOS 18', category: 'Mobile', browser: 'Mail' }],
+    report: { added: [{ id: 'iphone16', client: 'iPhone 16', os: 'iOS 18', category: 'Mobile', browser: 'Mail' }] },
+    synced: [],
+    syncedWithNew: [{ id: 'iphone16', client: 'iPhone 16', os: 'iOS 18', category: 'Mobile', browser: 'Mail', default: false }],
+  },
+  {
+    name: 'a new client listed by ID only (Litmus) gets a name from its ID',
+    catalog: [],
+    offered: [{ id: 'gmailnew_dm' }],
+    report: { added: [{ id: 'gmailnew_dm' }] },
+    synced: [],
+    syncedWithNew: [{ id: 'gmailnew_dm', client: 'Gmailnew Dm', os: '', category: 'Uncategorized', default: false }],
+  },
+  {
+    name: 'details the provider describes differently are updated',
+    catalog: [GMAIL],
+    offered: [{ id: 'gmailcom', client: 'Gmail.com', os: 'Windows 10', browser: 'Edge' }],
+    report: {
+      changed: [
+        { id: 'gmailcom', field: 'os', from: 'Win 10', to: 'Windows 10' },
+        { id: 'gmailcom', field: 'browser', from: 'Chrome', to: 'Edge' },
+      ],
+    },
+    synced: [{ ...GMAIL, os: 'Windows 10', browser: 'Edge' }],
+  },
+];
+
+for (const { name, catalog, offered, report, synced, syncedWithNew } of CASES) {
+  test(`catalog sync: ${name}`, () => {
+    const diff = diffClientCatalog(catalog, offered);
+    expect(diff).toEqual({ retired: [], restored: [], added: [], changed: [], ...report });
+    expect(applyCatalogSync(catalog, diff)).toEqual(synced);
+    expect(applyCatalogSync(catalog, diff, true)).toEqual(syncedWithNew || synced);
+  });
+}
+
+test('catalog sync leaves the catalog it was given untouched', () => {
+  const catalog = [OUTLOOK, GMAIL];
+  applyCatalogSync(catalog, diffClientCatalog(catalog, [{ id: 'gmailcom', os: 'Windows 11' }]), true);
+  expect(catalog).toEqual([OUTLOOK, GMAIL]);
+  expect(OUTLOOK.retired).toBeUndefined();
+});
@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { ClientCatalogEntry, findDarkModePairs } from '../../src/utils/client-catalog';
+import { ClientProfile, getClientProfiles, selectRunClients } from '../../src/utils/client-profiles';
+
+function client(id: string, category: string, os: string, extra: Partial<ClientCatalogEntry> = {}): ClientCatalogEntry {
+  return { id, client: id, os, category, ...extra };
+}
+
+const CATALOG: ClientCatalogEntry[] = [
+  client('ol2021', 'Application', 'Windows 10', { default: true }),
+  client('ol2021_dm', 'Application', 'Windows 10 (Dark Mode)'),
+  client('gmailcom-lm_chrcurrent_win10', 'Web', 'Windows 10', { default: true }),
+  client('gmailcom-dm_chrcurrent_win10', 'Web', 'Windows 10 (Dark Mode)'),
+  client('outlookcom', 'Web', 'Windows 10'),
+  client('outlookcom_night', 'Web', 'Windows 10', { darkModeOf: 'outlookcom' }),
+  client('iphone15', 'Mobile', 'iOS 17', { default: true }),
+  client('iphone15dm', 'Mobile', 'iOS 17 (Dark Mode)'),
+  client('android14', 'Mobile', 'Android 14'),
+  client('m365', 'Application', 'Windows 11', { default: true, retired: true }),
+];
+
+// Run config "profiles": a new one and a redefined built-in.
+const CUSTOM_PROFILES: Record<string, ClientProfile> = {
+  outlook: { include: ['ol*', 'outlookcom*'], colorScheme: 'light' },
+  'dark-no-gmail': { exclude: ['gmail*'], colorScheme: 'dark' },
+  smoke: { include: ['iphone*'] },
+};
+
+const SELECTIONS: [string, { profile?: string; clients?: string[] }, Record<string, ClientProfile>, string[]][] = [
+  ['no profile: every client but the retired ones', {}, {}, CATALOG.filter(entry => !entry.retired).map(entry => entry.id)],
+  ['smoke: default clients in light mode', { profile: 'smoke' }, {}, ['ol2021', 'gmailcom-lm_chrcurrent_win10', 'iphone15']],
+  ['mobile-only: the Mobile category, light and dark', { profile: 'mobile-only' }, {}, ['iphone15', 'iphone15dm', 'android14']],
+  ['dark-mode: both sides of every pair', { profile: 'dark-mode' }, {}, [
+    'ol2021', 'ol2021_dm', 'gmailcom-lm_chrcurrent_win10', 'gmailcom-dm_chrcurrent_win10', 'outlookcom', 'outlookcom_night', 'iphone15', 'iphone15dm',
+  ]],
+  ['dark-mode narrowed by client patterns', { profile: 'dark-mode', clients: ['*dm*', '*night'] }, {}, [
+    'ol2021_dm', 'gmailcom-dm_chrcurrent_win10', 'outlookcom_night', 'iphone15dm',
+  ]],
+  ['custom include with light mode', { profile: 'outlook' }, CUSTOM_PROFILES, ['ol2021', 'outlookcom']],
+  ['custom exclude with dark mode', { profile: 'dark-no-gmail' }, CUSTOM_PROFILES, ['ol2021_dm', 'outlookcom_night', 'iphone15dm']],
+  ['a built-in profile redefined by the run config', { profile: 'smoke' }, CUSTOM_PROFILES, ['iphone15', 'iphone15dm']],
+];
+
+for (const [name, selection, custom, expected] of SELECTIONS) {
+  test(`profile selection: ${name}`, () => {
+    expect(selectRunClients(CATALOG, selection, getClientProfiles(custom)).map(entry => entry.id)).toEqual(expected);
+  });
+}
+
+test('profile selection reports unknown profiles and selections without clients', () => {
+  const profiles = getClientProfiles({ watch: { categories: ['Watch'] } });
+  expect(() => selectRunClients(CATALOG, { profile: 'nope' }, profiles)).toThrow(
+    'Unknown client profile "nope". Available: full, smoke, mobile-only, dark-mode, watch'
+  );
+  expect(() => selectRunClients(CATALOG, { profile: 'watch' }, profiles)).toThrow('Client profile "watch" selects no client of the catalog.');
+  expect(() => selectRunClients(CATALOG, { profile: 'smoke', clients: ['android*'] }, profiles)).toThrow(
+    'Client set "android*" matches no client of profile "smoke".'
+  );
+});
+
+test('dark-mode clients pair by "dm" in the ID or by darkModeOf', () => {
+  expect(findDarkModePairs(CATALOG).map(pair => [pair.light.id, pair.dark.id])).toEqual([
+    ['ol2021', 'ol2021_dm'],
+    ['gmailcom-lm_chrcurrent_win10', 'gmailcom-dm_chrcurrent_win10'],
+    ['outlookcom', 'outlookcom_night'],
+    ['iphone15', 'iphone15dm'],
+  ]);
+});
@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import { PNG } from 'pngjs';
+import { compareWithMode } from '../../src/utils/comparison-modes';
+
+type Color = [number, number, number];
+
+// A stand-in screenshot: 4x4 "glyph" cells, dark or light from a seeded generator (no repeating rows).
+function renderEmail(width: number, height: number, seed = 7): PNG {
+  const image = new PNG({ width, height });
+  let state = seed;
+  const cells: boolean[] = [];
+  for (let cell = 0; cell < Math.ceil(width / 4) * Math.ceil(height / 4); cell++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    cells.push(state / 2147483648 < 0.35);
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dark = cells[Math.floor(y / 4) * Math.ceil(width / 4) + Math.floor(x / 4)];
+      setPixel(image, x, y, dark ? [40, 40, 60] : [245, 245, 240]);
+    }
+  }
+  return image;
+}
+
+function setPixel(image: PNG, x: number, y: number, [red, green, blue]: Color): void {
+  image.data.set([red, green, blue, 255], (y * image.width + x) * 4);
+}
+
+function fill(image: PNG, left: number, top: number, width: number, height: number, color: Color): PNG {
+  for (let y = top; y < top + height; y++) for (let x = left; x < left + width; x++) setPixel(image, x, y, color);
+  return image;
+}
+
+// The same content below a banner of `rows` rows (a webmail ad above the email).
+function withBanner(content: PNG, rows: number): PNG {
+  const image = fill(new PNG({ width: content.width, height: content.height + rows }), 0, 0, content.width, rows, [255, 200, 0]);
+  content.data.copy(image.data, rows * content.width * 4);
+  return image;
+}
+
+test('pixel mode fails on any differing pixel or size without limits', () => {
+  const baseline = renderEmail(64, 96);
+  expect(compareWithMode(renderEmail(64, 96), baseline)).toMatchObject({ mode: 'pixel', passed: true, diffRatio: 0 });
+
+  const changed = fill(renderEmail(64, 96), 8, 8, 16, 4, [200, 0, 0]);
+  expect(compareWithMode(changed, baseline).passed).toBe(false);
+  expect(compareWithMode(changed, baseline, { maxDiffPixels: 64 }).passed).toBe(true);
+  expect(compareWithMode(renderEmail(64, 100), baseline, { maxDiffPixelRatio: 0.5 }).passed).toBe(false);
+});
+
+test('ssim mode tolerates faint noise but not a changed word', () => {
+  const baseline = renderEmail(64, 96);
+  const noisy = renderEmail(64, 96);
+  for (let offset = 0; offset < noisy.data.length; offset += 4) noisy.data[offset] += offset % 8 === 0 ? 3 : -3;
+
+  const faint = compareWithMode(noisy, baseline, { mode: 'ssim' });
+  expect(faint.passed).toBe(true);
+  expect(faint.ssim).toBeGreaterThan(0.98);
+
+  const word = compareWithMode(fill(renderEmail(64, 96), 16, 40, 32, 8, [245, 245, 240]), baseline, { mode: 'ssim', minSsim: 0.995 });
+  expect(word.passed).toBe(false);
+  expect(word.ssim).toBeLessThan(0.995);
+  expect(word.diffRatio).toBeGreaterThan(0);
+  expect(word.summary).toContain('minimum 0.995');
+});
+
+test('perceptual mode counts only color differences a reader can see', () => {
+  const baseline = fill(new PNG({ width: 32, height: 32 }), 0, 0, 32, 32, [200, 50, 50]);
+  const close = compareWithMode(fill(new PNG({ width: 32, height: 32 }), 0, 0, 32, 32, [201, 50, 51]), baseline, { mode: 'perceptual' });
+  expect(close).toMatchObject({ passed: true, diffRatio: 0 });
+
+  const changed = fill(fill(new PNG({ width: 32, height: 32 }), 0, 0, 32, 32, [200, 50, 50]), 0, 0, 32, 8, [50, 50, 200]);
+  const result = compareWithMode(changed, baseline, { mode: 'perceptual', maxDiffPixelRatio: 0.1 });
+  expect(result.passed).toBe(false);
+  expect(result.diffRatio).toBe(0.25);
+});
+
+test('layout-shift mode aligns content pushed down by a banner', () => {
+  const baseline = renderEmail(64, 160);
+  const shifted = withBanner(renderEmail(64, 160), 30);
+  expect(compareWithMode(shifted, baseline).passed).toBe(false);
+
+  const result = compareWithMode(shifted, baseline, { mode: 'layout-shift' });
+  expect(result).toMatchObject({ mode: 'layout-shift', passed: true, offsetY: 30, diffRatio: 0 });
+  expect(result.notes).toContain('Content shifted 30px down against the baseline.');
+  expect(result.notes).toContain('30 row(s) of the screenshot have no counterpart in the baseline (blue).');
+  expect(result.heatmap.height).toBe(190);
+
+  const changed = fill(withBanner(renderEmail(64, 160), 30), 0, 100, 64, 8, [200, 0, 0]);
+  expect(compareWithMode(changed, baseline, { mode: 'layout-shift', maxDiffPixelRatio: 0.01 }).passed).toBe(false);
+});
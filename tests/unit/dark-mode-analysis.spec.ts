@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { PNG } from 'pngjs';
+import { analyzeDarkModePair, formatDarkModeReport } from '../../src/utils/dark-mode-analysis';
+
+type Color = [number, number, number];
+// Fills a 16px tile with a pattern: [color of even 2px stripes, color of odd ones].
+type TilePattern = [Color, Color];
+
+const WHITE: Color = [255, 255, 255];
+const BLACK: Color = [0, 0, 0];
+const YELLOW: Color = [255, 255, 0];
+const BLUE: Color = [0, 0, 255];
+const TEXT: TilePattern = [BLACK, WHITE];
+const IMAGE: TilePattern = [YELLOW, BLUE];
+
+// A 6x4 tile email: black-on-white text and a colorful image, and its dark render.
+function renderPair(darkTiles: Record<string, TilePattern>, darkSize = { width: 96, height: 64 }): { light: PNG; dark: PNG } {
+  const lightTiles: Record<string, TilePattern> = {
+    '0,0': TEXT, '1,0': TEXT, '3,0': TEXT, '4,0': TEXT, '5,0': TEXT,
+    '0,2': IMAGE, '1,2': IMAGE, '3,2': TEXT, '4,3': TEXT,
+  };
+  return {
+    light: paint(new PNG({ width: 96, height: 64 }), lightTiles, [WHITE, WHITE]),
+    dark: paint(new PNG(darkSize), darkTiles, [[20, 20, 20], [20, 20, 20]]),
+  };
+}
+
+function paint(image: PNG, tiles: Record<string, TilePattern>, background: TilePattern): PNG {
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const pattern = tiles[`${Math.floor(x / 16)},${Math.floor(y / 16)}`] || background;
+      image.data.set([...pattern[Math.floor(y / 2) % 2], 255], (y * image.width + x) * 4);
+    }
+  }
+  return image;
+}
+
+const GRAY_ON_DARK: TilePattern = [[90, 90, 90], [50, 50, 50]];
+const INVERTED: TilePattern = [BLUE, YELLOW];
+
+test('finds vanished content, low contrast and inverted images as merged regions', () => {
+  // Text tiles not listed go flat dark; (5,0) is a single tile and too small to report.
+  const { light, dark } = renderPair({ '3,0': GRAY_ON_DARK, '4,0': GRAY_ON_DARK, '0,2': INVERTED, '1,2': INVERTED });
+  const report = analyzeDarkModePair(light, dark);
+
+  expect(report.findings.map(finding => [finding.rule, finding.severity, finding.region])).toEqual([
+    ['vanished-content', 'error', { name: 'vanished-content', x: 0, y: 0, width: 32, height: 16 }],
+    ['low-contrast', 'warning', { name: 'low-contrast', x: 48, y: 0, width: 32, height: 16 }],
+    ['inverted-image', 'warning', { name: 'inverted-image', x: 0, y: 32, width: 32, height: 16 }],
+    // Diagonal neighbors belong to the same region.
+    ['vanished-content', 'error', { name: 'vanished-content', x: 48, y: 32, width: 32, height: 32 }],
+  ]);
+  expect(report.findings[1].lightContrast).toBe(21);
+  expect(report.findings[1].darkContrast).toBeLessThan(3);
+  expect(report.failed).toBe(true);
+});
+
+test('a dark render that keeps the content passes', () => {
+  const kept = { '0,0': TEXT, '1,0': TEXT, '3,0': TEXT, '4,0': TEXT, '5,0': TEXT, '0,2': IMAGE, '1,2': IMAGE, '3,2': TEXT, '4,3': TEXT };
+  const { light, dark } = renderPair(kept);
+  const report = analyzeDarkModePair(light, dark);
+  expect(report).toMatchObject({ findings: [], failed: false, comparedSize: { width: 96, height: 64 } });
+  expect(formatDarkModeReport(report)).toEqual(['✅ Dark mode: no findings.']);
+});
+
+test('ignore regions, rule severities and failOn come from the email config', () => {
+  const { light, dark } = renderPair({ '3,0': GRAY_ON_DARK, '4,0': GRAY_ON_DARK, '0,2': INVERTED, '1,2': INVERTED });
+  const masked = analyzeDarkModePair(light, dark, {}, [{ x: 0, y: 0, width: 32, height: 16 }, { x: 48, y: 32, width: 32, height: 32 }]);
+  expect(masked.findings.map(finding => finding.rule)).toEqual(['low-contrast', 'inverted-image']);
+  expect(masked.failed).toBe(false);
+
+  const configured = analyzeDarkModePair(light, dark, { rules: { 'vanished-content': 'off', 'inverted-image': 'error' }, failOn: 'error' });
+  expect(configured.findings.map(finding => [finding.rule, finding.severity])).toEqual([['low-contrast', 'warning'], ['inverted-image', 'error']]);
+  expect(configured.failed).toBe(true);
+  expect(analyzeDarkModePair(light, dark, { failOn: 'never' }).failed).toBe(false);
+  // A lower minimum contrast accepts the gray text.
+  expect(analyzeDarkModePair(light, dark, { minContrast: 1.5 }).findings.map(finding => finding.rule)).not.toContain('low-contrast');
+});
+
+test('screenshots of different sizes are compared on their common area', () => {
+  const { light, dark } = renderPair({}, { width: 96, height: 40 });
+  const report = analyzeDarkModePair(light, dark);
+  expect(report.comparedSize).toEqual({ width: 96, height: 40 });
+  expect(report.sizeWarning).toContain('light 96x64, dark 96x40');
+  const lines = formatDarkModeReport(report);
+  expect(lines[0]).toBe(`⚠️ ${report.sizeWarning}`);
+  expect(lines[2]).toMatch(/^ {3}❌ ERROR vanished-content at 0,0 \(32x16\): content visible in light mode \(contrast 21:1\)/);
+});
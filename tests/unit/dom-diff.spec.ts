@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { diffHtml, formatDomDiff, summarizeDomDiff } from '../../src/utils/dom-diff';
+
+const LONG_TEXT = 'Our spring collection is here with new colors, lighter fabrics and free returns on every order';
+
+test('a change at the end of a long paragraph is found and shown around the difference', () => {
+  const diff = diffHtml(`<p>${LONG_TEXT} until May 1.</p>`, `<p>${LONG_TEXT} until May 15.</p>`);
+  expect(diff.changes).toEqual([{ kind: 'text', path: 'p', before: `${LONG_TEXT} until May 1.`, after: `${LONG_TEXT} until May 15.` }]);
+  expect(formatDomDiff(diff)[0]).toBe('~ text      p: "…ry order until May 1." -> "…ry order until May 15."');
+});
+
+test('inline data-URI backgrounds are compared whole', () => {
+  const style = (data: string) => `<td style="background:url(data:image/png;base64,${data}); padding: 10px">x</td>`;
+  const diff = diffHtml(`<table><tr>${style('AAAA')}</tr></table>`, `<table><tr>${style('BBBB')}</tr></table>`);
+  expect(diff.changes).toEqual([{
+    kind: 'style',
+    path: 'table > tr > td',
+    property: 'background',
+    before: 'url(data:image/png;base64, AAAA)',
+    after: 'url(data:image/png;base64, BBBB)',
+  }]);
+  expect(diffHtml(style('AAAA'), style('AAAA')).changes).toEqual([]);
+});
+
+test('style normalization, tracking parameters and whitespace are not changes', () => {
+  const before = '<a href="https://shop.example/?id=1&utm_source=a" style="Color: Red;padding:0">Shop   now</a>';
+  const after = '<a href="https://shop.example/?id=1&utm_source=b" style="padding: 0 ; color:red">Shop now</a>';
+  expect(diffHtml(before, after).changes).toEqual([]);
+  expect(formatDomDiff({ changes: [] })[0]).toContain('No structural HTML changes');
+});
+
+test('added elements, links and layout attributes are reported', () => {
+  const diff = diffHtml(
+    '<table width="600"><tr><td><a href="https://shop.example/a">Shop</a></td></tr></table>',
+    '<table width="640"><tr><td><a href="https://shop.example/b">Shop</a><p>New promo</p></td></tr></table>'
+  );
+  expect(diff.changes).toEqual([
+    { kind: 'attribute', path: 'table', property: 'width', before: '600', after: '640' },
+    { kind: 'link', path: 'table > tr > td > a', property: 'href', before: 'https://shop.example/a', after: 'https://shop.example/b' },
+    { kind: 'added', path: 'table > tr > td > p', after: 'New promo' },
+  ]);
+  expect(summarizeDomDiff(diff)).toBe('1 attribute, 1 link, 1 added');
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { writeFileSync } from 'fs';
+import { EmailConfig, loadEmailConfig, resolveClientConfig } from '../../src/utils/email-config';
+
+function writeConfig(config: unknown): string {
+  const htmlFile = test.info().outputPath('eb-1.html');
+  writeFileSync(htmlFile.replace(/\.html$/, '.config.json'), JSON.stringify(config));
+  return htmlFile;
+}
+
+const VALID: EmailConfig = {
+  maxDiffPixelRatio: 0.03,
+  ignoreRegions: [{ name: 'timestamp', x: 40, y: 120, width: 300, height: 24 }, { name: 'greeting', selector: '.greeting' }],
+  clients: {
+    m365_w11_lm_dt: { maxDiffPixelRatio: 0.08 },
+    'gmail*': { mode: 'layout-shift', selectorTransform: { offsetY: 40 } },
+  },
+  lint: { rules: { 'css-grid': 'error' }, failOn: 'warning' },
+  darkMode: { minContrast: 3, rules: { 'inverted-image': 'off' } },
+};
+
+test('a valid config loads and layers matching clients over the global settings', () => {
+  const config = loadEmailConfig(writeConfig(VALID));
+  expect(config).toEqual(VALID);
+  expect(loadEmailConfig(test.info().outputPath('no-config.html'))).toEqual({});
+
+  const gmail = resolveClientConfig(config, 'gmailnew');
+  expect(gmail.comparison).toEqual({ maxDiffPixelRatio: 0.03, mode: 'layout-shift' });
+  expect(gmail.selectorTransform).toEqual({ offsetX: 0, offsetY: 40, scale: 1 });
+  expect(gmail.ignoreRegions).toHaveLength(2);
+  expect(resolveClientConfig(config, 'm365_w11_lm_dt').comparison.maxDiffPixelRatio).toBe(0.08);
+});
+
+test('wrong types, unknown values and misspelled keys name the file and the key path', () => {
+  const htmlFile = writeConfig({
+    maxDiffPixelRatio: '3%',
+    ignoreRegion: [{ selector: '.date' }],
+    ignoreRegions: [{ name: 'hero', x: 0, y: 0, width: 600 }],
+    clients: { 'gmail*': { mode: 'fuzzy' } },
+    lint: { failOn: 'always' },
+  });
+  let message = '';
+  try {
+    loadEmailConfig(htmlFile);
+  } catch (error: any) {
+    message = error.message;
+  }
+  expect(message).toContain(`Invalid email config ${htmlFile.replace(/\.html$/, '.config.json')}`);
+  expect(message.split('\n').slice(1)).toEqual([
+    '  - maxDiffPixelRatio: expected a number',
+    expect.stringMatching(/^ {2}- ignoreRegion: unknown setting \(allowed: .*ignoreRegions/),
+    '  - ignoreRegions[0]: expected a pixel region { "x", "y", "width", "height" } or a selector region { "selector" }',
+    '  - clients.gmail*.mode: "fuzzy" is not one of pixel, ssim, perceptual, layout-shift',
+    '  - lint.failOn: "always" is not one of info, warning, error, never',
+  ]);
+});
+
+test('invalid JSON is an error too', () => {
+  const htmlFile = test.info().outputPath('broken.html');
+  writeFileSync(test.info().outputPath('broken.config.json'), '{ "maxDiffPixelRatio": 0.03, }');
+  expect(() => loadEmailConfig(htmlFile)).toThrow('Invalid email config');
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { EMAILS_DIR, RENDERED_DIR, getTaskGrep, resolveEmailTasks } from '../../src/utils/email-tasks';
+
+// Every test reads the same emails/ folder (test-results/unit-tree/emails, see unit-run-config.json).
+test.describe.configure({ mode: 'default' });
+
+const FILES: Record<string, string> = {
+  'eb-1-staging.html': '<p>EB-1</p>',
+  'eb-1-staging.eml': 'Subject: EB-1',
+  'eb-2-staging.html': '<p>EB-2</p>',
+  'promo.hbs': '<p>Hi {{firstName}}</p>',
+  'promo.fixtures/short-name.json': '{ "firstName": "Al" }',
+  'promo.fixtures/empty-cart.json': '{ "firstName": "Maximiliane", "cart": [] }',
+  'welcome.hbs': '<p>Welcome</p>',
+  'notes.txt': 'not an email',
+  'batches/campaign.json': '["EB-2 Staging", "promo.hbs"]',
+  'batches/campaign.txt': '# launch week\neb-1-staging.eml\n\nWelcome\n',
+};
+
+test.beforeAll(() => {
+  rmSync(EMAILS_DIR, { recursive: true, force: true });
+  for (const [name, content] of Object.entries(FILES)) {
+    mkdirSync(resolve(EMAILS_DIR, name, '..'), { recursive: true });
+    writeFileSync(resolve(EMAILS_DIR, name), content);
+  }
+});
+
+const names = (batch: string) => resolveEmailTasks({ batch }).map(task => task.sanitizedTaskName);
+
+test('a task name selects one email with the .eml it comes from', () => {
+  expect(resolveEmailTasks({})).toEqual([]);
+  expect(resolveEmailTasks({ task: 'EB-1 Staging' })).toEqual([{
+    taskName: 'EB-1 Staging',
+    sanitizedTaskName: 'eb-1-staging',
+    htmlFile: resolve(EMAILS_DIR, 'eb-1-staging.html'),
+    emlFile: resolve(EMAILS_DIR, 'eb-1-staging.eml'),
+  }]);
+  expect(resolveEmailTasks({ task: 'EB-2 Staging' })[0].emlFile).toBeUndefined();
+});
+
+test('"all" takes every email once, templates once per fixture', () => {
+  expect(names('all')).toEqual(['eb-1-staging', 'eb-2-staging', 'promo--empty-cart', 'promo--short-name', 'welcome']);
+});
+
+test('globs and lists match file names and task names', () => {
+  expect(names('eb-*')).toEqual(['eb-1-staging', 'eb-2-staging']);
+  expect(names('EB-?-STAGING.eml')).toEqual(['eb-1-staging']);
+  expect(names('EB-2 Staging, welcome')).toEqual(['eb-2-staging', 'welcome']);
+  expect(() => names('eb-3-*')).toThrow('did not match any .html, .eml or .hbs file');
+});
+
+test('manifests list file names or task names, JSON or one per line', () => {
+  expect(names(resolve(EMAILS_DIR, 'batches', 'campaign.json'))).toEqual(['eb-2-staging', 'promo--empty-cart', 'promo--short-name']);
+  expect(names(resolve(EMAILS_DIR, 'batches', 'campaign.txt'))).toEqual(['eb-1-staging', 'welcome']);
+  expect(() => names(resolve(EMAILS_DIR, 'batches', 'missing.json'))).toThrow('manifest not found');
+});
+
+test('template variants are named after their fixture and rendered into temp/', () => {
+  const [emptyCart, shortName] = resolveEmailTasks({ task: 'Promo' });
+  expect(shortName).toEqual({
+    taskName: 'Promo [short-name]',
+    sanitizedTaskName: 'promo--short-name',
+    htmlFile: resolve(RENDERED_DIR, 'promo--short-name.html'),
+    template: {
+      templateFile: resolve(EMAILS_DIR, 'promo.hbs'),
+      fixtureFile: resolve(EMAILS_DIR, 'promo.fixtures', 'short-name.json'),
+      variant: 'short-name',
+    },
+  });
+  expect(emptyCart.sanitizedTaskName).toBe('promo--empty-cart');
+
+  // A template without fixtures is one task, rendered with empty data.
+  expect(resolveEmailTasks({ task: 'welcome' })).toEqual([{
+    taskName: 'welcome',
+    sanitizedTaskName: 'welcome',
+    htmlFile: resolve(RENDERED_DIR, 'welcome.html'),
+    template: { templateFile: resolve(EMAILS_DIR, 'welcome.hbs') },
+  }]);
+});
+
+test('EMAIL_FIXTURES limits the variants', () => {
+  const variants = (fixtures: string[]) => resolveEmailTasks({ batch: 'promo', fixtures }).map(task => task.sanitizedTaskName);
+  expect(variants(['empty-cart'])).toEqual(['promo--empty-cart']);
+  expect(() => variants(['vip'])).toThrow('EMAIL_FIXTURES "vip" matches no fixture');
+});
+
+test('a project runs only the tests tagged with its own email', () => {
+  const grep = getTaskGrep('eb-1');
+  expect(grep.test('Outlook 2021 @eb-1')).toBe(true);
+  expect(grep.test('Outlook 2021 @eb-1-es')).toBe(false);
+});
@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { EmlEmailSource } from '../../src/sources/eml-email-source';
+
+const PNG_A = Buffer.from('first image');
+const PNG_B = Buffer.from('second image');
+
+function writeEml(html: Buffer, charset: string): string {
+  const file = test.info().outputPath('message.eml');
+  const lines = [
+    'Subject: Sale',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/related; boundary="rel"',
+    '',
+    '--rel',
+    `Content-Type: text/html; charset=${charset}`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    html.toString('base64'),
+    '--rel',
+    'Content-Type: image/png; name="image.png"',
+    'Content-Transfer-Encoding: base64',
+    'Content-ID: <logo@shop>',
+    'Content-Disposition: inline; filename="image.png"',
+    '',
+    PNG_A.toString('base64'),
+    '--rel',
+    'Content-Type: image/png; name="image.png"',
+    'Content-Transfer-Encoding: base64',
+    'Content-ID: <hero@shop>',
+    'Content-Disposition: inline; filename="image.png"',
+    '',
+    PNG_B.toString('base64'),
+    '--rel--',
+    '',
+  ];
+  writeFileSync(file, lines.join('\r\n'));
+  return file;
+}
+
+test('inline parts with the same file name are written to separate files', async () => {
+  const html = Buffer.from('<img src="cid:logo@shop"><img src="cid:hero@shop"><img src="cid:logo@shop">');
+  const dir = test.info().outputPath('assets');
+  const email = await new EmlEmailSource(writeEml(html, 'utf-8'), { dir, baseUrl: 'https://cdn.example/eml/' }).fetchEmail();
+
+  expect(email.html).toBe(
+    '<img src="https://cdn.example/eml/image.png"><img src="https://cdn.example/eml/image-2.png"><img src="https://cdn.example/eml/image.png">'
+  );
+  expect(readFileSync(`${dir}/image.png`)).toEqual(PNG_A);
+  expect(readFileSync(`${dir}/image-2.png`)).toEqual(PNG_B);
+  expect(existsSync(`${dir}/image-3.png`)).toBe(false);
+});
+
+test('a windows-1252 body is declared as UTF-8 once decoded', async () => {
+  const html = Buffer.from(
+    '<html><head><meta charset="windows-1252"><meta http-equiv="Content-Type" content="text/html; charset=windows-1252">'
+    + '</head><body>Caf\xe9 \x80 5</body></html>',
+    'latin1'
+  );
+  const email = await new EmlEmailSource(writeEml(html, 'windows-1252')).fetchEmail();
+  expect(email.html).toBe(
+    '<html><head><meta charset="utf-8"><meta http-equiv="Content-Type" content="text/html; charset=utf-8">'
+    + '</head><body>Café € 5</body></html>'
+  );
+});
+
+test('cid references become data URIs without an asset folder', async () => {
+  const email = await new EmlEmailSource(writeEml(Buffer.from('<img src="cid:hero@shop"><img src="cid:missing">'), 'utf-8')).fetchEmail();
+  expect(email.subject).toBe('Sale');
+  expect(email.html).toBe(`<img src="data:image/png;base64,${PNG_B.toString('base64')}"><img src="cid:missing">`);
+});
@@ -0,0 +1,12 @@
+import { test, expect } from '@playwright/test';
+import { matchesGlob } from '../../src/utils/glob';
+
+test('client IDs, task keys and batch file names share one matcher', () => {
+  expect(matchesGlob('ol2021', 'ol2021')).toBe(true);
+  expect(matchesGlob('ol*', 'ol2021')).toBe(true);
+  expect(matchesGlob('*-dark', 'gmailnew-dark')).toBe(true);
+  expect(matchesGlob('ol*', 'gmailnew')).toBe(false);
+  expect(matchesGlob('EB-1999?-staging.*', 'eb-19991-staging.html')).toBe(true);
+  expect(matchesGlob('eb-1.html', 'eb-1xhtml')).toBe(false);
+  expect(matchesGlob('(promo)+', '(promo)+')).toBe(true);
+});
@@ -0,0 +1,33 @@
+import { test, expect } from '@playwright/test';
+import { resolve } from 'path';
+import { FixtureGmailClient } from '../../src/sources/gmail-client';
+import { GmailEmailSource } from '../../src/sources/gmail-email-source';
+
+// Saved messages in the Gmail API's "full" format; the same folder works with GMAIL_FIXTURES_DIR.
+const FIXTURES_DIR = resolve(__dirname, '..', 'fixtures', 'gmail');
+const client = new FixtureGmailClient(FIXTURES_DIR);
+
+test('search matches from:, subject:, quoted phrases and plain words, newest first', async () => {
+  expect(await client.searchMessages('from:news@shop.example', 10)).toEqual(['spring-sale-2', 'spring-sale-1']);
+  expect(await client.searchMessages('subject:"Spring sale"', 10)).toEqual(['spring-sale-2', 'spring-sale-1']);
+  expect(await client.searchMessages('subject:"sale starts"', 10)).toEqual(['spring-sale-1']);
+  expect(await client.searchMessages('READY', 10)).toEqual(['welcome']);
+  expect(await client.searchMessages('from:news@shop.example welcome', 10)).toEqual([]);
+  expect(await client.searchMessages('from:news@shop.example', 1)).toEqual(['spring-sale-2']);
+});
+
+test('the newest match is fetched, with its HTML read from an attachment part', async () => {
+  const email = await new GmailEmailSource(client, { query: 'subject:"Spring sale"' }).fetchEmail();
+  expect(email.subject).toBe('Spring sale: last day');
+  expect(email.html).toContain('Everything 20% off until midnight.');
+  expect(email.receivedAt).toBe('2026-01-02T12:00:00.000Z');
+  expect(email.origin).toEqual({ type: 'gmail', messageId: 'spring-sale-2', query: 'subject:"Spring sale"' });
+});
+
+test('a message is fetched by ID, and missing messages and matches are reported', async () => {
+  const email = await new GmailEmailSource(client, { messageId: 'spring-sale-1' }).fetchEmail();
+  expect(email.html).toContain('Three days of 20% off.');
+  await expect(new GmailEmailSource(client, { messageId: 'nope' }).fetchEmail()).rejects.toThrow('not found');
+  await expect(new GmailEmailSource(client, { query: 'subject:unknown' }).fetchEmail()).rejects.toThrow('No Gmail message matches');
+  await expect(client.getAttachment('spring-sale-1', 'html-part-1')).rejects.toThrow('Attachment "html-part-1" not found');
+});
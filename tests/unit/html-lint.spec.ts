@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { ClientCatalogEntry } from '../../src/utils/client-catalog';
+import { GMAIL_CLIP_BYTES, formatLintReport, lintEmailHtml } from '../../src/utils/html-lint';
+
+const CLIENTS: ClientCatalogEntry[] = ['m365_w11_lm_dt', 'outlookcom_lm', 'gmailnew', 'iphone15_ios17_lm']
+  .map(id => ({ id, client: id, os: 'Test', category: 'Test' }));
+const MATRIX = {
+  'css-grid': { name: 'CSS grid', unsupported: ['m365_w11_*', 'gmail*'], partial: ['outlookcom_*'], notes: 'Use tables.' },
+  'img-alt': { name: 'Alt text', unsupported: [], partial: [] },
+};
+
+const HTML = [
+  '<html><head><style>',
+  '.cols { display: grid; }',
+  '</style></head><body>',
+  '<div style="width: 600px">',
+  '  <img src="hero.png" width="600">',
+  '  <img src="logo.png" alt="Logo">',
+  '  <div style="display:flex">x</div>',
+  '</div>',
+  '</body></html>',
+].join('\n');
+
+const lint = (html: string, config = {}) => lintEmailHtml(html, config, CLIENTS, MATRIX);
+
+test('each rule reports its occurrences, the first line and the affected clients', () => {
+  const findings = Object.fromEntries(lint(HTML).findings.map(finding => [finding.rule, finding]));
+  expect(Object.keys(findings)).toEqual(['div-layout', 'css-flexbox', 'css-grid', 'img-alt', 'img-width']);
+
+  expect(findings['div-layout']).toMatchObject({ severity: 'warning', occurrences: 1, line: 4, example: '<div style="width: 600px">' });
+  expect(findings['css-flexbox']).toMatchObject({ occurrences: 1, line: 7, example: 'display:flex' });
+  expect(findings['css-grid']).toMatchObject({
+    line: 2,
+    message: '1 use(s) of CSS grid. Use tables.',
+    unsupportedClients: ['m365_w11_lm_dt', 'gmailnew'],
+    partialClients: ['outlookcom_lm'],
+  });
+  expect(findings['img-alt']).toMatchObject({ occurrences: 1, line: 5, example: '<img src="hero.png" width="600">' });
+  expect(findings['img-width']).toMatchObject({ severity: 'info', line: 6 });
+});
+
+test('Outlook fallbacks silence the Outlook rules', () => {
+  const withGhostTables = `<!--[if mso]><table><tr><td><![endif]-->${HTML}`;
+  expect(lint(withGhostTables).findings.map(finding => finding.rule)).not.toContain('div-layout');
+
+  const background = '<td style="background-image: url(bg.png)">x</td>';
+  expect(lint(background).findings.map(finding => finding.rule)).toEqual(['background-image']);
+  expect(lint(`${background}<v:rect fill="true"><v:fill src="bg.png"/></v:rect>`).findings).toEqual([]);
+});
+
+test('gmail-clipping counts bytes, not characters', () => {
+  expect(lint(`<p>${'é'.repeat(GMAIL_CLIP_BYTES / 2 + 1)}</p>`).findings.map(finding => finding.rule)).toEqual(['gmail-clipping']);
+  expect(lint(`<p>${'e'.repeat(GMAIL_CLIP_BYTES / 2 + 1)}</p>`).findings).toEqual([]);
+});
+
+test('severities and failOn come from the email config', () => {
+  expect(lint(HTML)).toMatchObject({ failOn: 'error', failed: false });
+  expect(lint(HTML, { failOn: 'warning' }).failed).toBe(true);
+  expect(lint(HTML, { rules: { 'css-grid': 'error' } }).failed).toBe(true);
+  expect(lint(HTML, { rules: { 'css-grid': 'error' }, failOn: 'never' }).failed).toBe(false);
+
+  const report = lint(HTML, { rules: { 'div-layout': 'off', 'css-flexbox': 'off', 'img-alt': 'off', 'css-grid': 'info' }, failOn: 'info' });
+  expect(report.findings.map(finding => [finding.rule, finding.severity])).toEqual([['css-grid', 'info'], ['img-width', 'info']]);
+  expect(report.failed).toBe(true);
+});
+
+test('the report marks the client IDs as Email on Acid IDs for other providers', () => {
+  const report = lint('<style>.a { display: grid }</style>');
+  expect(formatLintReport(report)).toEqual([
+    'HTML lint: 1 finding(s):',
+    '   ⚠️ WARNING css-grid [line 1]: 1 use(s) of CSS grid. Use tables.',
+    '      e.g. display: grid',
+    '      Breaks in: m365_w11_lm_dt, gmailnew',
+    '      Partial support: outlookcom_lm',
+  ]);
+  expect(formatLintReport(report, 'litmus').slice(3)).toEqual([
+    '      Breaks in (Email on Acid client IDs): m365_w11_lm_dt, gmailnew',
+    '      Partial support (Email on Acid client IDs): outlookcom_lm',
+  ]);
+  expect(formatLintReport(lint('<p>Hi</p>'))).toEqual(['✅ HTML lint: no findings.']);
+});
@@ -0,0 +1,152 @@
+import { test, expect } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { PNG } from 'pngjs';
+import { GeneratedPreviewFile, SetupContext, prepareTask } from '../../src/global-setup';
+import { IEmailPreviewService } from '../../src/interfaces/i-email-preview-service';
+import { PreviewResultsOptions } from '../../src/interfaces/polling';
+import { ClientResult, ClientStatus, PreviewJob } from '../../src/interfaces/preview-job';
+import { EmailTask, getGeneratedPreviewFile } from '../../src/utils/email-tasks';
+import { hashContent } from '../../src/utils/hash';
+import {
+  clearJobState,
+  createJobState,
+  findResumableJob,
+  getJobStateFile,
+  getMissingClients,
+  loadJobState,
+  recordCollectedClient,
+} from '../../src/utils/job-state';
+import { getRunConfig } from '../../src/utils/run-config';
+import { ARCHIVE_DIR, getArchiveFile } from '../../src/utils/run-history';
+import { getRunDir } from '../../src/utils/screenshot-artifacts';
+
+// Job state, archives and runs go to the scratch tree's temp/ (tests/fixtures/unit-run-config.json).
+const PROJECT = 'job-state-spec';
+const RUN_ID = '2025-03-01-10-00-00-000Z';
+// Default Email on Acid clients, in catalog order.
+const CLIENTS = ['applemail16', 'applemail16_dm', 'android13_gmailapp_pixel7_dm'];
+const HTML = '<p>Resumed after a crash</p>';
+const JOB = { taskName: 'Job State Spec', provider: 'emailonacid', testId: 'eoa-123', htmlHash: hashContent(HTML), clients: CLIENTS };
+
+test.describe.configure({ mode: 'default' });
+
+test.beforeEach(() => {
+  clearJobState(PROJECT);
+  rmSync(getGeneratedPreviewFile(PROJECT), { force: true });
+  rmSync(getArchiveFile(PROJECT, RUN_ID), { force: true });
+  rmSync(getRunDir(PROJECT, ''), { recursive: true, force: true });
+  mkdirSync(ARCHIVE_DIR, { recursive: true });
+});
+
+function result(clientId: string, status: ClientStatus = 'complete'): ClientResult {
+  const screenshot = test.info().outputPath('screenshot.png');
+  if (!existsSync(screenshot)) writeFileSync(screenshot, PNG.sync.write(new PNG({ width: 4, height: 4 })));
+  return {
+    clientId,
+    status,
+    screenshots: status === 'complete' ? { default: pathToFileURL(screenshot).href } : {},
+    ...(status === 'complete' ? {} : { reason: 'Seed inbox bounced' }),
+    timing: { requestedAt: '2025-03-01T10:00:00.000Z' },
+    raw: { provider: 'payload' },
+  };
+}
+
+// Polls like a provider: a 'client' event per final client, then the results (or `failure`).
+function createFakeService(statuses: Record<string, ClientStatus>, failure?: Error) {
+  const requested: string[][] = [];
+  const service: IEmailPreviewService = {
+    injectHtml: async (): Promise<PreviewJob> => {
+      throw new Error('A resumed job must not submit the HTML again.');
+    },
+    getPreviewResults: async (job: PreviewJob, clients: string[], options: PreviewResultsOptions = {}) => {
+      requested.push(clients);
+      const results = clients.filter(clientId => statuses[clientId]).map(clientId => result(clientId, statuses[clientId]));
+      for (const clientResult of results) {
+        options.onProgress?.({ type: 'client', provider: job.provider, clientId: clientResult.clientId, status: clientResult.status, result: clientResult });
+      }
+      if (failure) throw failure;
+      return results;
+    },
+    getSupportedClients: async () => [],
+  };
+  return { service, requested };
+}
+
+function createContext(previewService: IEmailPreviewService): SetupContext {
+  return {
+    stage: 'all',
+    config: { ...getRunConfig(), provider: 'emailonacid', clients: CLIENTS, skipLint: true },
+    previewService,
+    serviceToUse: 'emailonacid',
+    serviceLabel: 'Email on Acid',
+    now: new Date('2025-03-01T10:00:00.000Z'),
+    verboseTimestamp: RUN_ID,
+    getSupportedClients: async () => undefined,
+  };
+}
+
+function createTask(): EmailTask {
+  const htmlFile = test.info().outputPath('job-state-spec.html');
+  writeFileSync(htmlFile, HTML);
+  return { taskName: JOB.taskName, sanitizedTaskName: PROJECT, htmlFile };
+}
+
+test('a job state is resumed only for the same provider, HTML and clients within the cache age', () => {
+  const state = createJobState(PROJECT, JOB, new Date().toISOString());
+  expect(loadJobState(PROJECT)).toEqual(state);
+
+  expect(findResumableJob(PROJECT, 'emailonacid', JOB.htmlHash, CLIENTS)?.testId).toBe('eoa-123');
+  // Fewer clients than were requested still fit the test.
+  expect(findResumableJob(PROJECT, 'emailonacid', JOB.htmlHash, CLIENTS.slice(1))).toBeDefined();
+  expect(findResumableJob(PROJECT, 'litmus', JOB.htmlHash, CLIENTS)).toBeUndefined();
+  expect(findResumableJob(PROJECT, 'emailonacid', hashContent('<p>Edited</p>'), CLIENTS)).toBeUndefined();
+  expect(findResumableJob(PROJECT, 'emailonacid', JOB.htmlHash, [...CLIENTS, 'ol2021'])).toBeUndefined();
+  expect(findResumableJob(PROJECT, 'emailonacid', JOB.htmlHash, CLIENTS, 0)).toBeUndefined();
+
+  // Captured clients are saved without the provider payload.
+  recordCollectedClient(PROJECT, state, result(CLIENTS[1]));
+  expect(loadJobState(PROJECT)?.collected[CLIENTS[1]].raw).toBeUndefined();
+  expect(getMissingClients(state, CLIENTS)).toEqual([CLIENTS[0], CLIENTS[2]]);
+
+  writeFileSync(getJobStateFile(PROJECT), '{ "testId": ');
+  expect(loadJobState(PROJECT)).toBeUndefined();
+  clearJobState(PROJECT);
+  expect(existsSync(getJobStateFile(PROJECT))).toBe(false);
+});
+
+test('an interrupted run resumes its test, polls only the missing clients and clears the state', async () => {
+  const state = createJobState(PROJECT, JOB, new Date().toISOString());
+  recordCollectedClient(PROJECT, state, result(CLIENTS[0]));
+  const { service, requested } = createFakeService({ [CLIENTS[1]]: 'complete', [CLIENTS[2]]: 'bounced' });
+
+  const job = await prepareTask(createTask(), createContext(service));
+
+  expect(job).toEqual({ provider: 'emailonacid', testId: 'eoa-123', submittedAt: state.createdAt });
+  expect(requested).toEqual([[CLIENTS[1], CLIENTS[2]]]);
+  expect(existsSync(getJobStateFile(PROJECT))).toBe(false);
+
+  // Captured and polled clients together, in request order.
+  const previewFile: GeneratedPreviewFile = JSON.parse(readFileSync(getGeneratedPreviewFile(PROJECT), 'utf-8'));
+  expect(previewFile.job.testId).toBe('eoa-123');
+  expect(previewFile.previews.map(preview => [preview.client, preview.status, !!preview.artifact])).toEqual([
+    [CLIENTS[0], 'complete', true],
+    [CLIENTS[1], 'complete', true],
+    [CLIENTS[2], 'bounced', false],
+  ]);
+  expect(existsSync(getArchiveFile(PROJECT, RUN_ID))).toBe(true);
+});
+
+test('clients captured before polling fails stay in the job state for the next run', async () => {
+  createJobState(PROJECT, JOB, new Date().toISOString());
+  const { service, requested } = createFakeService({ [CLIENTS[0]]: 'complete', [CLIENTS[1]]: 'bounced' }, new Error('socket hang up'));
+
+  await expect(prepareTask(createTask(), createContext(service))).rejects.toThrow('Preview generation failed: socket hang up');
+
+  expect(requested).toEqual([CLIENTS]);
+  // Only complete clients are kept; the bounced one is polled again next time.
+  const saved = loadJobState(PROJECT)!;
+  expect(Object.keys(saved.collected)).toEqual([CLIENTS[0]]);
+  expect(getMissingClients(saved, CLIENTS)).toEqual(CLIENTS.slice(1));
+  expect(existsSync(getGeneratedPreviewFile(PROJECT))).toBe(false);
+});
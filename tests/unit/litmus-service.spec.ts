@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { LitmusService } from '../../src/services/litmus-service';
+
+// A stand-in for the Litmus Instant API on a local port (the service's baseUrl, LITMUS_API_BASE_URL in a run).
+// ol2021 becomes ready on its second request, "retired" is unknown (404), "rejecting" refuses the email (422).
+type Handler = (request: IncomingMessage, body: string) => { status: number; body?: unknown };
+
+let server: Server;
+let baseUrl: string;
+const requests: string[] = [];
+const previewRequests: Record<string, number> = {};
+
+const routes: Record<string, Handler> = {
+  'POST /v1/emails': (_request, body) => ({ status: 201, body: { email_guid: 'guid-1', subject: JSON.parse(body).subject } }),
+  'POST /v1/emails/guid-1/previews/prefetch': () => ({ status: 202, body: {} }),
+  'GET /v1/emails/guid-1/previews/ol2021': () =>
+    previewRequests.ol2021 < 2
+      ? { status: 200, body: {} }
+      : { status: 200, body: { full_url: 'http://screens/ol2021.png', thumb_url: 'http://screens/ol2021-thumb.png' } },
+  'GET /v1/emails/guid-1/previews/retired': () => ({ status: 404, body: { message: 'Unknown client' } }),
+  'GET /v1/emails/guid-1/previews/rejecting': () => ({ status: 422, body: { error: 'Cannot render' } }),
+  'GET /v1/clients': () => ({ status: 200, body: ['ol2021', 'gmailnew'] }),
+};
+
+test.beforeAll(async () => {
+  server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const key = `${request.method} ${request.url}`;
+      requests.push(key);
+      const client = request.url?.match(/\/previews\/([^/]+)$/)?.[1];
+      if (client) previewRequests[client] = (previewRequests[client] || 0) + 1;
+
+      const route = request.headers.authorization === `Basic ${Buffer.from('test-key:').toString('base64')}`
+        ? routes[key]?.(request, body) || { status: 404 }
+        : { status: 401 };
+      response.writeHead(route.status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(route.body ?? {}));
+    });
+  });
+  await new Promise<void>(resolveListen => server.listen(0, '127.0.0.1', resolveListen));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+test.afterAll(async () => {
+  await new Promise(resolveClose => server.close(resolveClose));
+});
+
+test('uploads, prefetches and polls until every client has a final status', async () => {
+  const service = new LitmusService('test-key', baseUrl);
+  const job = await service.injectHtml('<p>Hello</p>', 'Subject');
+  expect(job).toMatchObject({ provider: 'litmus', testId: 'guid-1', subject: 'Subject' });
+
+  const results = await service.getPreviewResults(job, ['ol2021', 'retired', 'rejecting'], {
+    policy: { initialDelayMs: 10, maxDelayMs: 10, jitter: 0, deadlineMs: 5000 },
+    onProgress: () => {},
+  });
+
+  const byClient = Object.fromEntries(results.map(result => [result.clientId, result]));
+  expect(byClient.ol2021.status).toBe('complete');
+  expect(byClient.ol2021.screenshots).toEqual({ default: 'http://screens/ol2021.png', small_thumbnail: 'http://screens/ol2021-thumb.png' });
+  expect(byClient.retired.status).toBe('unsupported');
+  expect(byClient.retired.reason).toContain('HTTP 404');
+  expect(byClient.rejecting.status).toBe('failed');
+  expect(byClient.rejecting.reason).toContain('Cannot render');
+
+  // Prefetch comes first; clients with a final status are not requested again.
+  expect(requests.indexOf('POST /v1/emails/guid-1/previews/prefetch')).toBeLessThan(requests.indexOf('GET /v1/emails/guid-1/previews/ol2021'));
+  expect(previewRequests).toMatchObject({ ol2021: 2, retired: 1, rejecting: 1 });
+});
+
+test('lists the supported client IDs', async () => {
+  const service = new LitmusService('test-key', baseUrl);
+  expect(await service.getSupportedClients()).toEqual([{ id: 'ol2021' }, { id: 'gmailnew' }]);
+});
+
+test('reports a wrong API key instead of retrying', async () => {
+  const service = new LitmusService('wrong-key', baseUrl);
+  await expect(
+    service.getPreviewResults({ provider: 'litmus', testId: 'guid-1' }, ['ol2021'], { policy: { deadlineMs: 2000 }, onProgress: () => {} })
+  ).rejects.toThrow('Authentication failed');
+});
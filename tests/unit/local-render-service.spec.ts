@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { chromium } from 'playwright';
+import { PollEvent } from '../../src/interfaces/polling';
+import { LocalRenderService } from '../../src/services/local-render-service';
+import { detectImageFormat, readImageSize } from '../../src/utils/screenshot-artifacts';
+
+const HTML = '<html><body style="margin:0"><table width="600"><tr><td style="height:1200px;background:#c33">Sale</td></tr></table></body></html>';
+
+test('stores the HTML under a render ID and refuses unknown client IDs', async () => {
+  const outputDir = test.info().outputPath('renders');
+  const service = new LocalRenderService(outputDir);
+  const job = await service.injectHtml(HTML, 'Sale');
+  expect(job).toMatchObject({ provider: 'local', subject: 'Sale' });
+  expect(readFileSync(resolve(outputDir, job.testId, 'email.html'), 'utf-8')).toBe(HTML);
+
+  const events: PollEvent[] = [];
+  const results = await service.getPreviewResults(job, ['opera_mobile_lm', 'webkit_watch_dm'], { onProgress: event => events.push(event) });
+  expect(results.map(result => [result.clientId, result.status])).toEqual([['opera_mobile_lm', 'unsupported'], ['webkit_watch_dm', 'unsupported']]);
+  expect(results[0].reason).toContain('<engine>_<device>_<lm|dm>');
+  expect(events).toMatchObject([
+    { type: 'client', clientId: 'opera_mobile_lm', status: 'unsupported' },
+    { type: 'client', clientId: 'webkit_watch_dm', status: 'unsupported' },
+  ]);
+
+  await expect(service.getPreviewResults({ provider: 'local', testId: 'local-missing' }, ['chromium_mobile_lm'])).rejects.toThrow('No local render found');
+});
+
+test('offers every engine, device and color scheme', async () => {
+  const clients = await new LocalRenderService(test.info().outputPath('renders')).getSupportedClients();
+  expect(clients).toHaveLength(12);
+  expect(clients.map(client => client.id)).toEqual(expect.arrayContaining(['chromium_mobile_lm', 'firefox_desktop_dm', 'webkit_mobile_dm']));
+});
+
+test('screenshots the full page at the device width', async () => {
+  test.skip(!existsSync(chromium.executablePath()), 'Chromium is not installed (npx playwright install chromium)');
+  const service = new LocalRenderService(test.info().outputPath('renders'));
+  const job = await service.injectHtml(HTML);
+  const [result] = await service.getPreviewResults(job, ['chromium_mobile_lm'], { onProgress: () => {} });
+
+  expect(result.status).toBe('complete');
+  const image = readFileSync(fileURLToPath(result.screenshots.default));
+  expect(detectImageFormat(image)).toBe('png');
+  expect(readImageSize(image, 'png')).toMatchObject({ width: 390 });
+  expect(readImageSize(image, 'png').height).toBeGreaterThanOrEqual(1200);
+});
@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { PollEvent, PollingPolicy } from '../../src/interfaces/polling';
+import { createPollContext, getBackoffDelay, parseRetryAfter, poll, requestWithRetry } from '../../src/utils/poller';
+
+const POLICY: PollingPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 5000,
+  backoffFactor: 2,
+  jitter: 0,
+  deadlineMs: 60_000,
+  requestTimeoutMs: 10_000,
+  maxRequestRetries: 2,
+};
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, undefined, {
+    status,
+    statusText: '',
+    data: {},
+    headers,
+    config,
+  });
+}
+
+test('backoff grows by the factor up to the cap, within the jitter', () => {
+  expect([1, 2, 3, 4, 5].map(attempt => getBackoffDelay(POLICY, attempt))).toEqual([1000, 2000, 4000, 5000, 5000]);
+
+  const jittered = { ...POLICY, jitter: 0.2 };
+  expect(getBackoffDelay(jittered, 1, () => 0)).toBe(800);
+  expect(getBackoffDelay(jittered, 1, () => 1)).toBe(1200);
+});
+
+test('Retry-After is read as seconds or as an HTTP date', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  expect(parseRetryAfter('3', now)).toBe(3000);
+  expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10_000);
+  expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+  expect(parseRetryAfter('soon', now)).toBeUndefined();
+  expect(parseRetryAfter(undefined, now)).toBeUndefined();
+});
+
+test('requests are retried on 429 after Retry-After, not on other client errors', async () => {
+  const events: PollEvent[] = [];
+  const context = createPollContext('test', POLICY, { onProgress: event => events.push(event) }, false);
+
+  let calls = 0;
+  const result = await requestWithRetry(context, 'results', async () => {
+    calls++;
+    if (calls === 1) throw httpError(429, { 'retry-after': '0.01' });
+    return 'ok';
+  });
+  expect(result).toBe('ok');
+  expect(events).toContainEqual(expect.objectContaining({ type: 'retry', request: 'results', status: 429, delayMs: 10 }));
+
+  calls = 0;
+  await expect(requestWithRetry(context, 'results', async () => {
+    calls++;
+    throw httpError(404);
+  })).rejects.toThrow('HTTP 404');
+  expect(calls).toBe(1);
+});
+
+test('requests give up after the retry limit', async () => {
+  const context = createPollContext('test', { ...POLICY, initialDelayMs: 1, maxDelayMs: 1 }, { onProgress: () => {} }, false);
+  let calls = 0;
+  await expect(requestWithRetry(context, 'results', async () => {
+    calls++;
+    throw httpError(503);
+  })).rejects.toThrow('HTTP 503');
+  expect(calls).toBe(POLICY.maxRequestRetries + 1);
+});
+
+test('polling stops when done, at maxAttempts or at the deadline', async () => {
+  const fast = { ...POLICY, initialDelayMs: 1, maxDelayMs: 1 };
+  const events: PollEvent[] = [];
+  const done = await poll(createPollContext('test', fast, { onProgress: event => events.push(event) }, false), async attempt => attempt === 3);
+  expect(done).toMatchObject({ reason: 'done', attempts: 3 });
+  expect(events.filter(event => event.type === 'wait')).toHaveLength(2);
+
+  const capped = await poll(createPollContext('test', { ...fast, maxAttempts: 2 }, { onProgress: () => {} }, false), async () => false);
+  expect(capped).toMatchObject({ reason: 'max-attempts', attempts: 2 });
+
+  const deadline = await poll(createPollContext('test', { ...fast, initialDelayMs: 20, maxDelayMs: 20, deadlineMs: 50 }, { onProgress: () => {} }, false), async () => false);
+  expect(deadline.reason).toBe('deadline');
+});
+
+test('aborting stops polling', async () => {
+  const controller = new AbortController();
+  const context = createPollContext('test', { ...POLICY, initialDelayMs: 10_000 }, { signal: controller.signal, onProgress: () => {} }, false);
+  const polling = poll(context, async () => false);
+  setTimeout(() => controller.abort(), 10);
+  await expect(polling).rejects.toThrow();
+});
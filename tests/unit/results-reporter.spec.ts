@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import type { TestCase, TestResult } from '@playwright/test/reporter';
+import { existsSync, readFileSync } from 'fs';
+import ResultsReporter from '../../src/reporters/results-reporter';
+import { RunSummary } from '../../src/utils/run-summary';
+
+// Just the parts of Playwright's TestCase/TestResult the reporter reads.
+function testCase(id: string, title: string, client?: string): TestCase {
+  return {
+    id,
+    title,
+    annotations: client ? [{ type: 'client', description: client }, { type: 'providerStatus', description: 'complete' }] : [],
+    parent: { project: () => ({ name: 'newsletter' }) },
+  } as unknown as TestCase;
+}
+
+function testResult(status: string, duration: number, message?: string): TestResult {
+  return { status, duration, annotations: [], attachments: [], errors: message ? [{ message }] : [] } as unknown as TestResult;
+}
+
+test('writes the JSON and JUnit files with only the last attempt of each test', () => {
+  const jsonFile = test.info().outputPath('results.json');
+  const junitFile = test.info().outputPath('results.xml');
+  const reporter = new ResultsReporter({ jsonFile, junitFile });
+
+  const gmail = testCase('t1', 'gmail', 'gmail');
+  reporter.onTestEnd(gmail, testResult('failed', 100, 'first attempt'));
+  reporter.onTestEnd(gmail, testResult('passed', 80));
+  reporter.onTestEnd(testCase('t2', 'dark mode pair'), testResult('failed', 50, '\u001b[31mvanished content\u001b[39m'));
+  reporter.onEnd();
+
+  const summary: RunSummary = JSON.parse(readFileSync(jsonFile, 'utf8'));
+  expect(summary.totals).toEqual({ tests: 2, passed: 1, failed: 1, skipped: 0, providerErrors: 0 });
+  expect(summary.clients.map(client => [client.clientId, client.status, client.timing.testDurationMs])).toEqual([['gmail', 'passed', 80]]);
+  expect(summary.checks).toEqual([{ project: 'newsletter', title: 'dark mode pair', status: 'failed', durationMs: 50, error: 'vanished content' }]);
+  expect(readFileSync(junitFile, 'utf8')).toContain('<failure type="check" message="vanished content">vanished content</failure>');
+});
+
+test('skips an output set to an empty path and writes nothing for an empty run', () => {
+  const jsonFile = test.info().outputPath('results.json');
+  const empty = new ResultsReporter({ jsonFile, junitFile: '' });
+  empty.onEnd();
+  expect(existsSync(jsonFile)).toBe(false);
+
+  const reporter = new ResultsReporter({ jsonFile, junitFile: '' });
+  reporter.onTestEnd(testCase('t1', 'gmail', 'gmail'), testResult('passed', 10));
+  reporter.onEnd();
+  expect(existsSync(jsonFile)).toBe(true);
+  expect(existsSync(test.info().outputPath('results.xml'))).toBe(false);
+});
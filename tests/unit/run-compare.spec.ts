@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { PNG } from 'pngjs';
+import { compareSides, loadCompareSide } from '../../src/utils/run-compare';
+import { ARCHIVE_DIR, getArchiveFile } from '../../src/utils/run-history';
+import { downloadScreenshot } from '../../src/utils/screenshot-artifacts';
+
+// A 20x10 white screenshot; `blackRows` rows from the top painted black.
+function writeScreenshot(name: string, blackRows = 0): string {
+  const image = new PNG({ width: 20, height: 10 });
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      image.data.set(y < blackRows ? [0, 0, 0, 255] : [255, 255, 255, 255], (y * image.width + x) * 4);
+    }
+  }
+  const file = test.info().outputPath(name);
+  writeFileSync(file, PNG.sync.write(image));
+  return file;
+}
+
+// Screenshots already in a run folder, as setup records them (verified by checksum, no download).
+async function writePreviewFile(name: string): Promise<string> {
+  const runDir = test.info().outputPath('run');
+  const white = await downloadScreenshot(pathToFileURL(writeScreenshot('white.png')).href, runDir, 'ol2021');
+  const changed = await downloadScreenshot(pathToFileURL(writeScreenshot('half-black.png', 5)).href, runDir, 'gmail');
+  const file = test.info().outputPath(name);
+  writeFileSync(file, JSON.stringify({
+    taskName: 'newsletter',
+    generatedAt: '2025-03-01T10:00:00.000Z',
+    job: { provider: 'emailonacid', testId: 'after-test' },
+    htmlHash: 'hash-after',
+    previews: [
+      // The URL has expired; the local copy is used.
+      { name: 'Gmail', client: 'gmail', url: 'https://expired.example.com/gmail.png', status: 'complete', screenshots: {}, timing: {}, artifact: changed },
+      { name: 'Outlook', client: 'ol2021', url: 'https://expired.example.com/ol2021.png', status: 'complete', screenshots: {}, timing: {}, artifact: white },
+      { name: 'Yahoo', client: 'yahoo', url: '', status: 'bounced', reason: 'Seed inbox bounced', screenshots: {}, timing: {} },
+    ],
+  }));
+  return file;
+}
+
+// Older archives: a bare array of successful previews, screenshots only at their URL.
+function writeLegacyPreviewFile(name: string): string {
+  const url = pathToFileURL(writeScreenshot('legacy.png')).href;
+  const file = test.info().outputPath(name);
+  writeFileSync(file, JSON.stringify(['gmail', 'ol2021', 'aol'].map(client => ({ name: client, client, url }))));
+  return file;
+}
+
+test('compares a legacy preview file with a current one client by client', async () => {
+  const workDir = test.info().outputPath('work');
+  const outputDir = test.info().outputPath('compare');
+  const before = await loadCompareSide(writeLegacyPreviewFile('before.json'), { workDir: `${workDir}/before` });
+  const after = await loadCompareSide(await writePreviewFile('after.json'), { workDir: `${workDir}/after` });
+
+  expect(before).toMatchObject({ description: 'preview file before.json' });
+  expect(before.provider).toBeUndefined();
+  expect(before.screenshots.map(shot => [shot.clientId, shot.status, existsSync(shot.file!)])).toEqual([
+    ['gmail', 'complete', true],
+    ['ol2021', 'complete', true],
+    ['aol', 'complete', true],
+  ]);
+  expect(after).toMatchObject({ description: 'preview file after.json', provider: 'emailonacid', testId: 'after-test', htmlHash: 'hash-after' });
+  expect(after.screenshots.find(shot => shot.clientId === 'gmail')?.file).toBe(test.info().outputPath('run', 'gmail.png'));
+
+  const results = await compareSides(before, after, { outputDir });
+  expect(results.map(({ beforeFile, afterFile, ...result }) => result)).toEqual([
+    { clientId: 'gmail', beforeStatus: 'complete', afterStatus: 'complete', diffRatio: 0.5, changed: true },
+    { clientId: 'ol2021', beforeStatus: 'complete', afterStatus: 'complete', diffRatio: 0, changed: false },
+    { clientId: 'aol', beforeStatus: 'complete', afterStatus: 'missing', note: 'No after screenshot' },
+    { clientId: 'yahoo', beforeStatus: 'missing', afterStatus: 'bounced', note: 'No before screenshot, no after screenshot (Seed inbox bounced)' },
+  ]);
+  expect(results[2].beforeFile).toBe(test.info().outputPath('compare', 'before', 'aol.png'));
+  expect(results[2].afterFile).toBeUndefined();
+  expect(existsSync(test.info().outputPath('compare', 'after', 'gmail.png'))).toBe(true);
+
+  const written = JSON.parse(readFileSync(test.info().outputPath('compare', 'compare.json'), 'utf-8'));
+  expect(written.after).toEqual({
+    spec: test.info().outputPath('after.json'),
+    description: 'preview file after.json',
+    provider: 'emailonacid',
+    testId: 'after-test',
+    htmlHash: 'hash-after',
+  });
+  expect(written.clients).toHaveLength(4);
+
+  // A higher tolerance counts the half-changed screenshot as unchanged.
+  const tolerant = await compareSides(before, after, { outputDir, maxDiffRatio: 0.5 });
+  expect(tolerant[0].changed).toBe(false);
+});
+
+test('resolves archived runs, filters clients and rejects unknown inputs', async () => {
+  const project = 'run-compare-spec';
+  mkdirSync(ARCHIVE_DIR, { recursive: true });
+  writeFileSync(getArchiveFile(project, '2025-03-01-10-00-00-000Z'), readFileSync(await writePreviewFile('archived.json')));
+  const workDir = test.info().outputPath('work');
+
+  const side = await loadCompareSide(`run:${project}`, { workDir, clientPatterns: ['g*', 'yahoo'] });
+  expect(side.description).toBe(`run 2025-03-01-10-00-00-000Z of ${project}`);
+  expect(side.screenshots.map(shot => shot.clientId)).toEqual(['gmail', 'yahoo']);
+  expect((await loadCompareSide(`run:${project}/2025-03`, { workDir })).testId).toBe('after-test');
+
+  await expect(loadCompareSide(`run:${project}/2024`, { workDir })).rejects.toThrow(`No archived run "2024" for "${project}" (1 run(s) archived).`);
+  await expect(loadCompareSide(test.info().outputPath('missing.json'), { workDir })).rejects.toThrow('is neither run:<project>[/<runId>]');
+  const text = test.info().outputPath('notes.txt');
+  writeFileSync(text, '');
+  await expect(loadCompareSide(text, { workDir })).rejects.toThrow('Unsupported compare input');
+});
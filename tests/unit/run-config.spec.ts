@@ -0,0 +1,177 @@
+import { test, expect } from '@playwright/test';
+import { writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { RunConfigFile, formatRunConfig, loadRunConfig, resolveTaskSettings, toEnvironment } from '../../src/utils/run-config';
+
+const ROOT_DIR = resolve(__dirname, '..', '..');
+
+const FILE_CONFIG: RunConfigFile = {
+  provider: 'emailonacid',
+  batch: 'eb-*',
+  profile: 'smoke',
+  clients: ['ol*'],
+  comparison: { maxDiffPixelRatio: 0.03, threshold: 0.2 },
+  polling: { deadlineSeconds: 900, maxAttempts: 40 },
+  cache: { maxAgeHours: 72 },
+  paths: { reports: 'out/reports' },
+  tasks: {
+    'eb-21397-*': { clients: ['gmail*'], comparison: { maxDiffPixelRatio: 0.08 } },
+    'EB-1 Staging': { skipLint: true, profile: 'mobile-only' },
+  },
+};
+
+// Writes a config file and loads it with only the given env vars (no .env, no process.env).
+function load(env: Record<string, string> = {}, flags = {}, content: unknown = FILE_CONFIG) {
+  const file = test.info().outputPath('run.json');
+  writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  return loadRunConfig({ env: { EMAIL_TESTER_CONFIG: file, ...env }, flags });
+}
+
+const EB_21397 = { taskName: 'EB-21397 Staging', sanitizedTaskName: 'eb-21397-staging' };
+const EB_1 = { taskName: 'EB-1 Staging', sanitizedTaskName: 'eb-1-staging' };
+
+test('each layer overrides the one below: defaults, file, env vars, flags', () => {
+  const config = load(
+    { EOA_MAX_ATTEMPTS: '50', EMAIL_CLIENTS: 'iphone*, gmail*', EMAIL_CLIENT_PROFILE: 'Outlook', SKIP_LINT: '1' },
+    { profile: 'Dark-Mode' }
+  );
+
+  // Defaults where nothing else is set.
+  expect(config.cache).toEqual({ maxAgeHours: 72, forceNewTest: false });
+  expect(config.paths.temp).toBe(resolve(ROOT_DIR, 'temp'));
+  expect(config.credentials.litmus).toEqual({ apiKey: 'env:LITMUS_API_KEY' });
+  expect(config.emailSource).toEqual({ type: 'file', gmail: {}, eml: {} });
+  // The file, with its relative paths resolved against the file's folder.
+  expect(config.file).toBe(test.info().outputPath('run.json'));
+  expect(config.paths.reports).toBe(resolve(dirname(config.file!), 'out', 'reports'));
+  expect(config.comparison).toEqual({ maxDiffPixelRatio: 0.03, threshold: 0.2 });
+  expect(config.polling).toEqual({ deadlineSeconds: 900, maxAttempts: 50 });
+  // Env vars over the file (lists split on commas, booleans from 1/0), flags over env vars (names lowercased).
+  expect(config.clients).toEqual(['iphone*', 'gmail*']);
+  expect(config.skipLint).toBe(true);
+  expect(config.profile).toBe('dark-mode');
+});
+
+test('a task set by a higher layer replaces the batch of a lower one', () => {
+  const selection = (env: Record<string, string>, flags = {}) => {
+    const { task, batch, sources } = load(env, flags);
+    return { task, batch, batchSource: sources.batch?.name };
+  };
+  expect(selection({})).toEqual({ task: undefined, batch: 'eb-*', batchSource: 'run.json' });
+  expect(selection({ TASK_NAME: 'EB-1 Staging' })).toEqual({ task: 'EB-1 Staging', batch: undefined, batchSource: undefined });
+  // Within one layer the batch wins.
+  expect(selection({ TASK_NAME: 'EB-1 Staging', EMAIL_BATCH: 'all' })).toEqual({ task: 'EB-1 Staging', batch: 'all', batchSource: 'EMAIL_BATCH' });
+  expect(selection({ EMAIL_BATCH: 'all' }, { task: 'EB-2' })).toEqual({ task: 'EB-2', batch: undefined, batchSource: undefined });
+});
+
+test('sources name the file, env var or flag behind every value', () => {
+  const config = load(
+    {
+      EMAIL_PREVIEW_SERVICE: 'Litmus',
+      LITMUS_DEADLINE_SECONDS: '600',
+      EOA_MAX_ATTEMPTS: '99',
+      EXISTING_LITMUS_EMAIL_GUID: ' guid-1 ',
+      EMAIL_SOURCE: 'gmail',
+      GMAIL_QUERY: 'subject:"Spring Sale"',
+      EML_ASSET_BASE_URL: 'https://cdn.example.com/eml',
+      EMAIL_FIXTURES: 'short-name,empty-cart',
+      BASELINE_APPROVER: 'Release QA',
+      TASK_NAME: '',
+    },
+    { clients: ['ol2021'] }
+  );
+
+  expect(config.sources.profile).toEqual({ layer: 'file', name: 'run.json' });
+  expect(config.sources['polling.maxAttempts']).toEqual({ layer: 'file', name: 'run.json' });
+  expect(config.sources.provider).toEqual({ layer: 'env', name: 'EMAIL_PREVIEW_SERVICE' });
+  // The provider picks the polling and existing-test variables: LITMUS_*, not EOA_*.
+  expect(config.polling).toEqual({ deadlineSeconds: 600, maxAttempts: 40 });
+  expect(config.sources['polling.deadlineSeconds']).toEqual({ layer: 'env', name: 'LITMUS_DEADLINE_SECONDS' });
+  expect(config.existingTestId).toBe('guid-1');
+  expect(config.sources.existingTestId).toEqual({ layer: 'env', name: 'EXISTING_LITMUS_EMAIL_GUID' });
+  expect(config.sources.clients).toEqual({ layer: 'flag', name: '--clients' });
+  // Empty env vars count as unset.
+  expect(config.sources.task).toBeUndefined();
+
+  expect(config.emailSource).toEqual({ type: 'gmail', gmail: { query: 'subject:"Spring Sale"' }, eml: { assetBaseUrl: 'https://cdn.example.com/eml' } });
+  expect(config.sources['emailSource.gmail.query']).toEqual({ layer: 'env', name: 'GMAIL_QUERY' });
+  expect(config.fixtures).toEqual(['short-name', 'empty-cart']);
+  expect(config.approver).toBe('Release QA');
+
+  const lines = formatRunConfig(config);
+  expect(lines[0]).toBe(`Config file: ${config.file}`);
+  expect(lines).toContain('  provider <- EMAIL_PREVIEW_SERVICE');
+  expect(lines).toContain('  clients <- --clients');
+  expect(lines).not.toContain('  profile <- run.json');
+});
+
+test('tasks entries apply to matching emails, below env vars and flags', () => {
+  const config = load();
+  // Pattern on the sanitized name: deep-merged comparison, replaced client list.
+  expect(resolveTaskSettings(config, EB_21397)).toEqual({
+    profile: 'smoke',
+    clients: ['gmail*'],
+    comparison: { maxDiffPixelRatio: 0.08, threshold: 0.2 },
+  });
+  // The exact task name.
+  expect(resolveTaskSettings(config, EB_1)).toMatchObject({ profile: 'mobile-only', skipLint: true, clients: ['ol*'] });
+  expect(resolveTaskSettings(config, { taskName: 'EB-2', sanitizedTaskName: 'eb-2' })).toEqual({
+    profile: 'smoke',
+    clients: ['ol*'],
+    comparison: { maxDiffPixelRatio: 0.03, threshold: 0.2 },
+  });
+
+  const overridden = load({ EMAIL_CLIENTS: 'iphone*' }, { profile: 'full' });
+  expect(resolveTaskSettings(overridden, EB_21397)).toMatchObject({ clients: ['iphone*'], comparison: { maxDiffPixelRatio: 0.08 } });
+  expect(resolveTaskSettings(overridden, EB_1)).toMatchObject({ profile: 'full', skipLint: true });
+});
+
+test('unknown keys and wrong types in the file are listed together, secrets are not echoed', () => {
+  const content = {
+    provder: 'litmus',
+    polling: { maxAttempts: 1.5, jitter: 2 },
+    comparison: { maxDiffPixelRatio: '3%' },
+    credentials: { emailonacid: { apiKey: 'abc123secret' } },
+    tasks: { 'eb-*': { clints: ['ol*'] } },
+    emailSource: { type: 'imap' },
+  };
+  let message = '';
+  try {
+    load({}, {}, content);
+  } catch (error: any) {
+    message = error.message;
+  }
+  expect(message).toContain(`Invalid run config ${test.info().outputPath('run.json')}:`);
+  expect(message).toContain('  - provder: unknown setting (allowed: $schema, provider, ');
+  expect(message).toContain('  - polling.maxAttempts: expected a whole number, got 1.5');
+  expect(message).toContain('  - polling.jitter: must be at most 1, got 2');
+  expect(message).toContain('  - comparison.maxDiffPixelRatio: expected a number');
+  expect(message).toContain('  - credentials.emailonacid.apiKey: expected a reference like "env:EMAILONACID_API_KEY"');
+  expect(message).toContain('  - tasks.eb-*.clints: unknown setting');
+  expect(message).toContain('  - emailSource.type: "imap" is not one of file, gmail');
+  expect(message).not.toContain('abc123secret');
+
+  expect(() => load({}, {}, '{ "provider": ')).toThrow('Invalid run config');
+  expect(() => loadRunConfig({ env: {}, flags: { config: 'missing.json' } })).toThrow(`Run config not found: ${resolve(ROOT_DIR, 'missing.json')}`);
+});
+
+test('env vars and flags are checked against the same schema', () => {
+  expect(() => load({ EOA_MAX_ATTEMPTS: 'many', SKIP_LINT: 'maybe', PROVIDER_ERROR_POLICY: 'retry' }, { provider: 'mailchimp' })).toThrow([
+    'Invalid run settings:',
+    '  - PROVIDER_ERROR_POLICY: "retry" is not one of fail, flaky',
+    '  - SKIP_LINT: expected true or false',
+    '  - --provider: "mailchimp" is not one of emailonacid, litmus, local',
+  ].join('\n'));
+  // The polling variables follow the provider, here the file's emailonacid.
+  expect(() => load({ EOA_MAX_ATTEMPTS: 'many' })).toThrow('  - EOA_MAX_ATTEMPTS: expected a number');
+});
+
+test('flags are handed to child processes as env vars', () => {
+  expect(toEnvironment({ task: 'EB-1', clients: ['ol*', 'gmail*'], existingTestId: 'abc' }, 'emailonacid')).toEqual({
+    TASK_NAME: 'EB-1',
+    EMAIL_BATCH: '',
+    EMAIL_CLIENTS: 'ol*,gmail*',
+    EXISTING_EOA_TEST_ID: 'abc',
+  });
+  expect(() => toEnvironment({ existingTestId: 'abc' })).toThrow('A test ID needs a provider');
+});
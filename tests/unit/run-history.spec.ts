@@ -0,0 +1,149 @@
+import { test, expect } from '@playwright/test';
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { getRunDir } from '../../src/utils/screenshot-artifacts';
+import {
+  ARCHIVE_DIR,
+  ClientState,
+  RunHistoryEntry,
+  compareRuns,
+  findFlakyClients,
+  findRun,
+  getArchiveFile,
+  loadRunHistory,
+  pruneRunHistory,
+} from '../../src/utils/run-history';
+
+// Archives go to the scratch tree's temp/archives (tests/fixtures/unit-run-config.json).
+const PROJECT = 'run-history-spec';
+
+test.describe.configure({ mode: 'default' });
+
+test.beforeEach(() => {
+  mkdirSync(ARCHIVE_DIR, { recursive: true });
+  readdirSync(ARCHIVE_DIR).filter(name => name.includes(PROJECT)).forEach(name => rmSync(`${ARCHIVE_DIR}/${name}`));
+  rmSync(getRunDir(PROJECT, ''), { recursive: true, force: true });
+});
+
+// client -> [provider status, test status?]
+function writeArchive(runId: string, clients: Record<string, [string, string?]>, htmlHash = 'hash-a'): void {
+  const previews = Object.entries(clients).map(([client, [status]]) => ({
+    name: client,
+    url: status === 'complete' ? `https://example.com/${client}.png` : '',
+    client,
+    status,
+    screenshots: {},
+    timing: {},
+  }));
+  const results = Object.entries(clients)
+    .filter(([, [, testStatus]]) => testStatus)
+    .map(([client, [, testStatus]]) => [client, { status: testStatus, durationMs: 10 }]);
+  writeFileSync(getArchiveFile(PROJECT, runId), JSON.stringify({
+    taskName: PROJECT,
+    generatedAt: '2025-01-01T00:00:00.000Z',
+    job: { provider: 'emailonacid', testId: `test-${runId}` },
+    htmlHash,
+    previews,
+    ...(results.length > 0 ? { results: { recordedAt: '2025-01-01T00:00:00.000Z', clients: Object.fromEntries(results) } } : {}),
+  }));
+}
+
+function entry(runId: string, clients: Record<string, ClientState | [ClientState, number]>, hasResults = true): RunHistoryEntry {
+  return {
+    runId,
+    project: PROJECT,
+    startedAt: new Date(0),
+    file: '',
+    hasResults,
+    clients: Object.entries(clients).map(([clientId, value]) => {
+      const [state, diffRatio] = Array.isArray(value) ? value : [value];
+      return { clientId, state, providerStatus: 'complete', ...(diffRatio !== undefined ? { diffRatio } : {}) };
+    }),
+  };
+}
+
+test('loads both archive shapes and finds runs by ID, unique prefix, latest and previous', () => {
+  writeArchive('2025-03-01-10-00-00-000Z', { gmail: ['complete', 'passed'], ol2021: ['bounced'] });
+  writeArchive('2025-03-01-11-00-00-000Z', { gmail: ['complete', 'failed'] });
+  writeArchive('2025-03-02-09-00-00-000Z', { gmail: ['complete'] });
+  // Older archives are a bare array of previews.
+  writeFileSync(getArchiveFile(PROJECT, '2025-02-01-08-00-00-000'), JSON.stringify([{ client: 'gmail', url: 'https://example.com/a.png' }]));
+
+  const history = loadRunHistory(PROJECT);
+  expect(history.map(run => [run.runId, run.hasResults, run.clients.map(client => client.state)])).toEqual([
+    ['2025-02-01-08-00-00-000', false, ['unknown']],
+    ['2025-03-01-10-00-00-000Z', true, ['pass', 'provider-error']],
+    ['2025-03-01-11-00-00-000Z', true, ['fail']],
+    ['2025-03-02-09-00-00-000Z', false, ['unknown']],
+  ]);
+  expect(history[1].startedAt.toISOString()).toBe('2025-03-01T10:00:00.000Z');
+  expect(history[1].testId).toBe('test-2025-03-01-10-00-00-000Z');
+
+  expect(findRun(history, 'latest')?.runId).toBe('2025-03-02-09-00-00-000Z');
+  expect(findRun(history, 'previous')?.runId).toBe('2025-03-01-11-00-00-000Z');
+  expect(findRun(history, '2025-03-01-10-00-00-000Z')?.runId).toBe('2025-03-01-10-00-00-000Z');
+  expect(findRun(history, '2025-03-02')?.runId).toBe('2025-03-02-09-00-00-000Z');
+  expect(findRun(history, '2026')).toBeUndefined();
+  expect(() => findRun(history, '2025-03-01')).toThrow(
+    '"2025-03-01" matches 2 runs (2025-03-01-10-00-00-000Z, 2025-03-01-11-00-00-000Z); use a longer prefix.'
+  );
+});
+
+test('compares two runs: regressed, recovered, diff changes, added and removed clients', () => {
+  const from = { ...entry('1', { gmail: 'pass', ol2021: 'fail', yahoo: ['pass', 0.01], aol: 'pass', apple: ['pass', 0.02] }), htmlHash: 'a' };
+  const to = { ...entry('2', { gmail: 'provider-error', ol2021: 'pass', yahoo: ['pass', 0.05], apple: ['pass', 0.0205], iphone: 'pass' }), htmlHash: 'b' };
+  const comparison = compareRuns(from, to);
+
+  expect(comparison.htmlChanged).toBe(true);
+  expect(comparison.regressed).toEqual([{ clientId: 'gmail', from: 'pass', to: 'provider-error' }]);
+  expect(comparison.recovered).toEqual([{ clientId: 'ol2021', from: 'fail', to: 'pass' }]);
+  // apple's change is below the default 0.1 percentage points.
+  expect(comparison.diffChanged).toEqual([{ clientId: 'yahoo', from: 'pass', to: 'pass', fromDiffRatio: 0.01, toDiffRatio: 0.05 }]);
+  expect(comparison.added).toEqual(['iphone']);
+  expect(comparison.removed).toEqual(['aol']);
+  expect(compareRuns(from, { ...to, htmlHash: undefined }).htmlChanged).toBe(false);
+});
+
+test('flags clients that flip or keep failing at the provider, ignoring runs without results', () => {
+  const history = [
+    entry('0', { flipping: 'fail', steady: 'fail' }),
+    entry('1', { flipping: 'pass', steady: 'pass', bouncing: 'provider-error', rare: 'pass' }),
+    entry('2', { flipping: 'fail', steady: 'pass', bouncing: 'pass', rare: 'provider-error' }),
+    entry('3', { flipping: 'unknown', steady: 'pass', bouncing: 'pass', rare: 'pass' }, false),
+    entry('4', { flipping: 'provider-error', steady: 'pass', bouncing: 'pass', rare: 'pass' }),
+    entry('5', { flipping: 'pass', steady: 'pass', rare: 'pass' }),
+  ];
+
+  const flaky = findFlakyClients(history);
+  expect(flaky.map(client => [client.clientId, client.flips, client.providerErrors, client.runs])).toEqual([
+    // A provider error does not break the pass/fail streak: fail, pass, fail, pass.
+    ['flipping', 3, 1, 5],
+    ['bouncing', 0, 1, 3],
+  ]);
+  expect(flaky[0].states).toEqual(['fail', 'pass', 'fail', 'provider-error', 'pass']);
+  // "rare" has 1 provider error in 4 runs (below 30%); "steady" changed only once.
+
+  // Fewer than 3 recorded runs are not enough to call a client flaky.
+  expect(findFlakyClients(history, 2)).toEqual([]);
+});
+
+test('prunes runs beyond the newest ones kept, or older than the max age, with their screenshot folders', () => {
+  const recent = new Date(Date.now() - 3600 * 1000).toISOString().replace(/[:.]/g, '-').split('T').join('-');
+  const runIds = ['2024-01-01-00-00-00-000Z', '2024-06-01-00-00-00-000Z', recent];
+  for (const runId of runIds) {
+    writeArchive(runId, { gmail: ['complete', 'passed'] });
+    mkdirSync(getRunDir(PROJECT, runId), { recursive: true });
+  }
+
+  const dryRun = pruneRunHistory([PROJECT], { keep: 1, dryRun: true });
+  expect(dryRun.map(run => run.runId)).toEqual(runIds.slice(0, 2));
+  expect(loadRunHistory(PROJECT)).toHaveLength(3);
+
+  expect(pruneRunHistory([PROJECT], { keep: 2 }).map(run => run.runId)).toEqual([runIds[0]]);
+  expect(existsSync(getArchiveFile(PROJECT, runIds[0]))).toBe(false);
+  expect(existsSync(getRunDir(PROJECT, runIds[0]))).toBe(false);
+  expect(existsSync(getRunDir(PROJECT, runIds[1]))).toBe(true);
+
+  expect(pruneRunHistory([PROJECT], { maxAgeDays: 30 }).map(run => run.runId)).toEqual([runIds[1]]);
+  expect(loadRunHistory(PROJECT).map(run => run.runId)).toEqual([recent]);
+  expect(existsSync(getRunDir(PROJECT, recent))).toBe(true);
+});
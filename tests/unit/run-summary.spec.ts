@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { PROVIDER_ERROR_ANNOTATION, toClientRunResult } from '../../src/utils/last-run';
+import { buildRunSummary, toJUnitXml } from '../../src/utils/run-summary';
+
+function clientTest(client: string, status: string, extra: { type: string; description: string }[] = []) {
+  return {
+    project: 'newsletter',
+    title: client,
+    status,
+    durationMs: 10,
+    annotations: [{ type: 'client', description: client }, { type: 'providerStatus', description: 'complete' }, ...extra],
+    attachments: [],
+  };
+}
+
+test('a client skipped under the flaky policy counts as a provider error, not as a skip', () => {
+  const bounced = toClientRunResult({
+    ...clientTest('ol2021', 'skipped', [
+      { type: 'providerStatus', description: 'bounced' },
+      { type: 'providerReason', description: 'Seed inbox bounced' },
+      { type: PROVIDER_ERROR_ANNOTATION, description: 'Seed inbox bounced' },
+    ]),
+  })!;
+  const skipped = toClientRunResult(clientTest('gmail', 'skipped'))!;
+  expect(bounced.status).toBe('provider-error');
+  expect(skipped.status).toBe('skipped');
+
+  const summary = buildRunSummary([bounced, skipped, toClientRunResult(clientTest('apple', 'passed'))!]);
+  expect(summary.totals).toEqual({ tests: 3, passed: 1, failed: 0, skipped: 1, providerErrors: 1 });
+
+  const junit = toJUnitXml(summary);
+  expect(junit).toContain('<error type="provider-error" message="Seed inbox bounced">');
+  expect(junit).toContain('errors="1" skipped="1"');
+});
+
+test('JUnit XML escapes names and messages and carries the provider metadata as properties', () => {
+  const failed = toClientRunResult({
+    ...clientTest('ol2021', 'failed', [
+      { type: 'task', description: 'News & "Offers"' },
+      { type: 'clientName', description: 'Outlook <2021>' },
+      { type: 'category', description: 'Application' },
+      { type: 'diffRatio', description: '0.0123' },
+      { type: 'baselineFile', description: 'visual-baselines/newsletter/ol2021.png' },
+      { type: 'provider', description: 'emailonacid' },
+      { type: 'testId', description: 'abc123' },
+      { type: 'htmlHash', description: 'f00d' },
+      { type: 'providerDurationMs', description: '4200' },
+    ]),
+    durationMs: 1500,
+    errors: [{ message: '\u001b[31mScreenshot differs: <b> & "quotes"\u001b[39m\u0007\nsecond line' }],
+  })!;
+  const summary = buildRunSummary([failed], [{ project: 'newsletter', title: 'dark <pair>', status: 'passed', durationMs: 500 }]);
+  const junit = toJUnitXml(summary);
+
+  expect(junit).toContain('<testsuites name="email-visual-tests" tests="2" failures="1" errors="0" skipped="0">');
+  expect(junit).toContain('<testsuite name="News &amp; &quot;Offers&quot;" tests="2" failures="1" errors="0" skipped="0" time="2.000"');
+  expect(junit).toContain([
+    '    <properties>',
+    '      <property name="provider" value="emailonacid"/>',
+    '      <property name="testId" value="abc123"/>',
+    '      <property name="htmlHash" value="f00d"/>',
+    '    </properties>',
+  ].join('\n'));
+  expect(junit).toContain('<testcase classname="newsletter.Application" name="Outlook &lt;2021&gt; (ol2021)" time="1.500">');
+  expect(junit).toContain([
+    '      <properties>',
+    '        <property name="clientId" value="ol2021"/>',
+    '        <property name="providerStatus" value="complete"/>',
+    '        <property name="diffRatio" value="0.0123"/>',
+    '        <property name="baselineFile" value="visual-baselines/newsletter/ol2021.png"/>',
+    '        <property name="providerDurationMs" value="4200"/>',
+    '      </properties>',
+  ].join('\n'));
+  // Terminal colors and XML-invalid control characters are dropped; the message attribute is the first line.
+  expect(junit).toContain('<failure type="visual-diff" message="Screenshot differs: &lt;b&gt; &amp; &quot;quotes&quot;">'
+    + 'Screenshot differs: &lt;b&gt; &amp; &quot;quotes&quot;\nsecond line</failure>');
+  expect(junit).toContain('<testcase classname="newsletter.checks" name="dark &lt;pair&gt;" time="0.500"></testcase>');
+  expect(junit).not.toContain('\u0007');
+});
@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { PNG } from 'pngjs';
+import { detectImageFormat, downloadScreenshot, readImageSize, verifyArtifact } from '../../src/utils/screenshot-artifacts';
+
+const PNG_IMAGE = PNG.sync.write(new PNG({ width: 12, height: 7 }));
+const GIF_IMAGE = Buffer.concat([Buffer.from('GIF89a', 'ascii'), Buffer.from([0x40, 0x01, 0xc8, 0x00]), Buffer.alloc(8)]);
+// SOI, an APP0 segment to skip, then SOF2 (progressive) with height 480 and width 640.
+const JPEG_IMAGE = Buffer.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46,
+  0xff, 0xc2, 0x00, 0x0b, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xd9,
+]);
+
+let server: Server;
+let baseUrl: string;
+
+test.beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/shot.jpg') return void response.end(JPEG_IMAGE);
+    if (request.url === '/expired') return void response.end('<html>Link expired</html>');
+    response.writeHead(404).end();
+  });
+  await new Promise<void>(resolveListen => server.listen(0, '127.0.0.1', resolveListen));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+  await new Promise(resolveClose => server.close(resolveClose));
+});
+
+test('detects PNG, JPEG and GIF and reads their size from the header', () => {
+  expect(detectImageFormat(PNG_IMAGE)).toBe('png');
+  expect(readImageSize(PNG_IMAGE, 'png')).toEqual({ width: 12, height: 7 });
+  expect(detectImageFormat(JPEG_IMAGE)).toBe('jpeg');
+  expect(readImageSize(JPEG_IMAGE, 'jpeg')).toEqual({ width: 640, height: 480 });
+  expect(detectImageFormat(GIF_IMAGE)).toBe('gif');
+  expect(readImageSize(GIF_IMAGE, 'gif')).toEqual({ width: 320, height: 200 });
+  expect(detectImageFormat(Buffer.from('<html></html>'))).toBeUndefined();
+  expect(() => readImageSize(Buffer.from([0xff, 0xd8, 0xff, 0xd9, 0, 0, 0, 0, 0, 0, 0, 0]), 'jpeg')).toThrow('JPEG dimensions');
+});
+
+test('downloads http and file URLs with their checksum, size and extension', async () => {
+  const targetDir = test.info().outputPath('run');
+  const jpeg = await downloadScreenshot(`${baseUrl}/shot.jpg`, targetDir, 'ol2021');
+  expect(jpeg).toMatchObject({ format: 'jpeg', width: 640, height: 480, bytes: JPEG_IMAGE.length });
+  expect(jpeg.file).toMatch(/ol2021\.jpg$/);
+  expect(readFileSync(verifyArtifact(jpeg))).toEqual(JPEG_IMAGE);
+
+  const source = test.info().outputPath('render.png');
+  writeFileSync(source, PNG_IMAGE);
+  const png = await downloadScreenshot(pathToFileURL(source).href, targetDir, 'chromium_mobile_lm');
+  expect(png).toMatchObject({ format: 'png', width: 12, height: 7 });
+  expect(png.file).toMatch(/chromium_mobile_lm\.png$/);
+
+  await expect(downloadScreenshot(`${baseUrl}/expired`, targetDir, 'gmailnew')).rejects.toThrow('Not a PNG, JPEG or GIF image');
+});
+
+test('refuses an artifact whose file changed or disappeared', async () => {
+  const artifact = await downloadScreenshot(`${baseUrl}/shot.jpg`, test.info().outputPath('run'), 'ol2021');
+  writeFileSync(verifyArtifact(artifact), PNG_IMAGE);
+  expect(() => verifyArtifact(artifact)).toThrow('checksum mismatch');
+  expect(() => verifyArtifact({ ...artifact, file: `${artifact.file}.gone` })).toThrow('Screenshot file missing');
+});
@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import { computeSubmissionKey, normalizeHtml } from '../../src/utils/submission-cache';
+
+test('line endings and trailing whitespace do not change the key', () => {
+  const html = '<table>\n  <tr><td>Hello</td></tr>\n</table>\n';
+  expect(computeSubmissionKey('emailonacid', html.replace(/\n/g, '  \r\n'), ['ol2021']))
+    .toBe(computeSubmissionKey('emailonacid', html, ['ol2021']));
+});
+
+test('whitespace that renders changes the key', () => {
+  const key = (html: string) => computeSubmissionKey('emailonacid', html, ['ol2021']);
+  expect(key('<b>Hello</b> <i>World</i>')).not.toBe(key('<b>Hello</b><i>World</i>'));
+  expect(key('<pre>a\n\n  b</pre>')).not.toBe(key('<pre>a\n b</pre>'));
+  expect(normalizeHtml('<pre>a  \r\n  b</pre>')).toBe('<pre>a\n  b</pre>');
+});
+
+test('client order does not matter, provider and comments do', () => {
+  const html = '<!--[if mso]><table><![endif]--><p>Hi</p>';
+  expect(computeSubmissionKey('litmus', html, ['a', 'b'])).toBe(computeSubmissionKey('litmus', html, ['b', 'a']));
+  expect(computeSubmissionKey('litmus', html, ['a'])).not.toBe(computeSubmissionKey('emailonacid', html, ['a']));
+  expect(computeSubmissionKey('litmus', html, ['a'])).not.toBe(computeSubmissionKey('litmus', '<p>Hi</p>', ['a']));
+});
@@ -0,0 +1,126 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync, writeFileSync } from 'fs';
+import { PNG } from 'pngjs';
+import { ClientRunResult, PROVIDER_ERROR_ANNOTATION, toClientRunResult } from '../../src/utils/last-run';
+import { writeVisualReport } from '../../src/utils/visual-report';
+
+// A 20x10 white screenshot; `blackRows` rows from the top painted black.
+function writeScreenshot(name: string, blackRows = 0): string {
+  const image = new PNG({ width: 20, height: 10 });
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      image.data.set(y < blackRows ? [0, 0, 0, 255] : [255, 255, 255, 255], (y * image.width + x) * 4);
+    }
+  }
+  const file = test.info().outputPath(name);
+  writeFileSync(file, PNG.sync.write(image));
+  return file;
+}
+
+function clientResult(
+  project: string,
+  client: string,
+  status: string,
+  annotations: Record<string, string> = {},
+  attachments: { name: string; path: string }[] = []
+): ClientRunResult {
+  return toClientRunResult({
+    project,
+    title: `${client} title`,
+    status,
+    durationMs: 10,
+    annotations: Object.entries({ client, category: 'Web', providerStatus: 'complete', ...annotations })
+      .map(([type, description]) => ({ type, description })),
+    attachments,
+  })!;
+}
+
+function fixedResults(): ClientRunResult[] {
+  const white = writeScreenshot('white.png');
+  const halfBlack = writeScreenshot('half-black.png', 5);
+  const email = { testId: 'test-123', htmlHash: '0123456789abcdef0123' };
+  return [
+    clientResult('newsletter', 'gmail', 'passed', email, [
+      { name: 'gmail-current.png', path: white },
+      { name: 'gmail-expected.png', path: white },
+    ]),
+    // Baseline from the annotation (the test passed no expected image); no diffRatio -> computed.
+    clientResult('newsletter', 'ol2021', 'failed', { ...email, category: 'Application', baselineFile: white }, [
+      { name: 'ol2021-current.png', path: halfBlack },
+    ]),
+    clientResult('newsletter', 'iphone15', 'passed', email, [{ name: 'iphone15-current.png', path: white }]),
+    clientResult('newsletter', 'yahoo', 'skipped', {
+      ...email,
+      providerStatus: 'bounced',
+      providerReason: 'Seed inbox <yahoo> said "no"',
+      [PROVIDER_ERROR_ANNOTATION]: 'bounced',
+    }),
+    clientResult('promo', 'aol', 'skipped'),
+  ];
+}
+
+test('writes one self-contained page with badges, summary counts and computed diffs', () => {
+  const outputFile = writeVisualReport(fixedResults(), {
+    outputFile: test.info().outputPath('report.html'),
+    title: 'Run <1> & "more"',
+    imageWidth: 10,
+  });
+  const html = readFileSync(outputFile, 'utf8');
+
+  expect(html).toContain('<title>Run &#60;1&#62; &#38; &#34;more&#34;</title>');
+  expect(html).toContain('5 client(s) · 2 passed · 1 failed · 1 skipped · 1 provider-error');
+  expect(html.match(/<article class="card (\w+)"/g)).toEqual([
+    '<article class="card pass"',
+    '<article class="card fail"',
+    '<article class="card pass"',
+    '<article class="card provider"',
+    '<article class="card skip"',
+  ]);
+  expect(html).toContain('<span class="badge provider">PROVIDER-ERROR</span> yahoo title');
+  expect(html).toContain('<p class="reason">Seed inbox &#60;yahoo&#62; said &#34;no&#34;</p>');
+
+  // Images are embedded (current, baseline and diff for the compared clients, current only for the new one).
+  const images = [...html.matchAll(/<img src="([^"]+)"/g)].map(match => match[1]);
+  expect(images).toHaveLength(7);
+  expect(images.every(source => source.startsWith('data:image/png;base64,'))).toBe(true);
+  expect(html).not.toMatch(/(src|href)="(?!data:)/);
+  expect(PNG.sync.read(Buffer.from(images[0].split(',')[1], 'base64')).width).toBe(10);
+
+  expect(html).toContain('data-client="gmail"');
+  expect(html).toMatch(/Web · provider: <b>complete<\/b> · diff: <b>0\.00%<\/b>/);
+  expect(html).toMatch(/Application · provider: <b>complete<\/b> · diff: <b>50\.00%<\/b>/);
+  expect(html).toContain('<p class="note">No baseline yet (first run for this client).</p>');
+  expect(html).toContain('diff: <b>n/a</b>');
+
+  // One section per email, with the provider test ID and the shortened HTML hash.
+  expect(html.match(/<h2>[^<]+<\/h2>/g)).toEqual(['<h2>newsletter</h2>', '<h2>promo</h2>']);
+  expect(html).toContain('Test ID <code>test-123</code> · HTML hash <code>0123456789ab</code>');
+});
+
+test('uses custom status labels, image captions and missing-baseline note', () => {
+  const current = writeScreenshot('current.png');
+  const results = [
+    clientResult('newsletter', 'gmail', 'passed', { diffRatio: '0.25' }, [
+      { name: 'gmail-current.png', path: current },
+      { name: 'gmail-expected.png', path: current },
+    ]),
+    clientResult('newsletter', 'ol2021', 'failed', {}, [{ name: 'ol2021-current.png', path: current }]),
+  ];
+  const html = readFileSync(writeVisualReport(results, {
+    outputFile: test.info().outputPath('compare.html'),
+    statusLabels: { passed: 'Unchanged', failed: 'Changed' },
+    imageLabels: { current: 'After', baseline: 'Before' },
+    missingBaselineNote: 'Only in the newer run.',
+  }), 'utf8');
+
+  expect(html).toContain('<title>Visual Email Report</title>');
+  expect(html).toContain('2 client(s) · 1 unchanged · 1 changed · 0 skipped · 0 provider-error');
+  expect(html).toContain('<span class="badge pass">Unchanged</span>');
+  expect(html).toContain('<span class="badge fail">Changed</span>');
+  expect(html).toContain('<figcaption>After</figcaption>');
+  expect(html).toContain('<figcaption>Before</figcaption>');
+  expect(html).toContain('<figcaption>Diff</figcaption>');
+  // The test's own diff figure wins over the recomputed one.
+  expect(html).toContain('diff: <b>25.00%</b>');
+  expect(html).toContain('<p class="note">Only in the newer run.</p>');
+});